@@ -0,0 +1,153 @@
+// PTB CLI - Validates, reviews and dry-runs a PTB JSON file, then exports its unsigned bytes or signs and executes it
+import { readFile, writeFile } from "node:fs/promises";
+import { SuiClient } from "@mysten/sui/client";
+import { type Keypair } from "@mysten/sui/cryptography";
+import { diagnosePtbJson, parsePtbDocument, type PtbDocument } from "./lib/ptb-parser";
+import { type PtbParamValues } from "./lib/ptb-params";
+import { constructTransactionBlock, resolveGasPayment } from "./lib/transaction-builder";
+import { resolveMoveCallSignatures } from "./lib/move-abi";
+import { simulateTransaction } from "./lib/transaction-simulator";
+import { createTransactionEnvelope } from "./lib/transaction-envelope";
+import { describeExecution } from "./lib/execution-history";
+import { listNetworks } from "./lib/networks";
+import { readCliOptions, resolveSender, UsageError } from "./lib/cli-options";
+import { readKeystore, selectKeypair } from "./lib/keystore";
+import { deploysCode, describeCommand, describeSimulation } from "./lib/ptb-summary";
+import { explainError } from "./lib/abort-codes";
+
+const USAGE = `Usage: ptb <file.json> [options]
+
+Reviews and dry-runs the PTB. Results are printed to stdout as JSON, the review to stderr.
+
+Options:
+  --network <name>     ${listNetworks().map(network => network.name).join(", ")} (default mainnet)
+  --rpc <url>          Custom RPC endpoint; --network then only names it
+  --param <name=value> Value for a declared param; repeat for each param
+  --sender <address>   Address to dry-run or export as (default: the keystore key's)
+  --export <file>      Write the unsigned transaction envelope to a file ("-" for stdout only)
+  --execute            Sign with the keystore key and execute after a successful dry-run
+  --keystore <file>    Sui keystore (sui.keystore) or suiprivkey strings, one per line
+  --address <address>  Key to use when the keystore holds several
+  --no-abi             Do not fetch on-chain function signatures
+  --quiet              Do not print the review
+  --help               Show this message
+
+Exits with 0 when the dry-run, export or execution succeeds, 1 when it fails and 2 on bad usage.`;
+
+// MIST amounts in dry-runs and effects are bigints
+function print(output: Record<string, unknown>): void {
+  process.stdout.write(`${JSON.stringify(output, (_key, value) => typeof value === "bigint" ? value.toString() : value, 2)}\n`);
+}
+
+function reviewLines(document: PtbDocument, network: { name: string; rpcUrl: string }, sender: string): string[] {
+  const { commands, gas } = document;
+  return [
+    "Transaction Security Review",
+    `Network: ${network.name} (${network.rpcUrl})`,
+    `Sender: ${sender}`,
+    ...(gas ? [`Gas: ${JSON.stringify(gas)}`] : []),
+    ...(deploysCode(commands)
+      ? ["Warning: this transaction deploys Move code"]
+      : []),
+    `Commands (${commands.length}):`,
+    ...commands.flatMap((command, index) => {
+      const [headline, ...details] = describeCommand(command);
+      return [`  ${index + 1}. ${headline}`, ...details.map(detail => `     ${detail}`)];
+    }),
+  ];
+}
+
+async function run(argv: string[]): Promise<number> {
+  const options = readCliOptions(argv);
+  if (!options) {
+    process.stderr.write(`${USAGE}\n`);
+    return 0;
+  }
+  const { file, mode, network, params } = options;
+  const review = (lines: string[]) => {
+    if (!options.quiet) {
+      process.stderr.write(`${lines.join("\n")}\n\n`);
+    }
+  };
+
+  const client = new SuiClient({ url: network.rpcUrl });
+  const source = await readFile(file, "utf8");
+
+  const problems = diagnosePtbJson(source, params).filter(diagnostic => diagnostic.severity === "error");
+  if (problems.length > 0) {
+    review(problems.map(problem => `${file}:${problem.range?.start.line ?? 1}:${problem.range?.start.column ?? 1}: ${problem.message}`));
+    print({
+      ok: false,
+      mode,
+      file,
+      diagnostics: problems.map(({ message, pointer, range }) => ({ message, pointer, line: range?.start.line, column: range?.start.column })),
+    });
+    return 1;
+  }
+  const document = parsePtbDocument(source, params);
+
+  let keypair: Keypair | undefined;
+  if (options.keystore) {
+    keypair = selectKeypair(readKeystore(await readFile(options.keystore, "utf8")), options.address);
+  }
+  const sender = resolveSender(mode, options.sender, keypair?.toSuiAddress());
+
+  review(reviewLines(document, network, sender));
+
+  const signatures = !options.abi
+    ? undefined
+    : await resolveMoveCallSignatures(document.commands, { client, network: network.name });
+  const gasPayment = document.gas?.payment
+    ? await resolveGasPayment(document.gas.payment, { client })
+    : undefined;
+  const build = (withBudget: boolean) => constructTransactionBlock(document.commands, {
+    signatures,
+    sender,
+    gas: document.gas && (withBudget ? document.gas : { ...document.gas, budget: undefined }),
+    gasPayment,
+  });
+
+  // Exported bytes are exactly what gets signed elsewhere, declared budget included
+  if (mode === "export") {
+    const envelope = await createTransactionEnvelope(build(true), {
+      client,
+      network: network.name,
+      source,
+      params,
+    });
+    if (options.exportFile !== "-") {
+      await writeFile(options.exportFile!, JSON.stringify(envelope, null, 2));
+    }
+    print({ ok: true, mode, network: network.name, sender, file: options.exportFile === "-" ? undefined : options.exportFile, envelope });
+    return 0;
+  }
+
+  // Dry-run without the declared budget so the estimate is not capped by it
+  const simulation = await simulateTransaction(build(false), { client, sender });
+  review(describeSimulation(simulation, document.gas));
+  if (mode === "dry-run" || !simulation.success) {
+    print({ ok: simulation.success, mode, network: network.name, sender, simulation });
+    return simulation.success ? 0 : 1;
+  }
+
+  const { digest } = await client.signAndExecuteTransaction({ transaction: build(true), signer: keypair });
+  const entry = await describeExecution(digest, { client, source, params, network: network.name, sender });
+  review([`Executed ${digest}: ${entry.status}`]);
+  print({ ok: entry.status === "success", mode, ...entry });
+  return entry.status === "success" ? 0 : 1;
+}
+
+run(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")) {
+      process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+      process.exitCode = 2;
+      return;
+    }
+    print({ ok: false, error: explainError(error, "The PTB could not be run") });
+    process.exitCode = 1;
+  }
+);
@@ -7,9 +7,12 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, Send } from 'lucide-react';
+import { explainError } from '@/lib/abort-codes';
+import { useWalletChainCheck } from '@/hooks/use-wallet-chain';
 
 export function BulkTransfer() {
   const { connected, account, signAndExecuteTransactionBlock } = useWallet();
+  const checkWalletChain = useWalletChainCheck();
   const [nftIds, setNftIds] = useState('');
   const [recipientAddresses, setRecipientAddresses] = useState('');
   const [senderKioskId, setSenderKioskId] = useState('');
@@ -82,15 +85,16 @@ export function BulkTransfer() {
         txb.transferObjects([newOwnerCap], txb.pure.address(recipient));
       }
 
+      checkWalletChain();
       const result = await signAndExecuteTransactionBlock({ transactionBlock: txb });
       setSuccess(`Transfer successful! Digest: ${result.digest}`);
     } catch (err: any) {
-      setError(err.message || 'An unknown error occurred during transfer.');
+      setError(explainError(err, 'An unknown error occurred during transfer.'));
       console.error(err);
     } finally {
       setLoading(false);
     }
-  }, [connected, account, nftIds, recipientAddresses, senderKioskId, senderOwnerCapId, nftType, signAndExecuteTransactionBlock]);
+  }, [connected, account, nftIds, recipientAddresses, senderKioskId, senderOwnerCapId, nftType, signAndExecuteTransactionBlock, checkWalletChain]);
 
   if (!connected) {
     return <p>Please connect your wallet to use the bulk transfer feature.</p>;
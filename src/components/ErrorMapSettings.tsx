@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  parseErrorConstants,
+  registerErrorMap,
+  registeredErrorMaps,
+  unregisterErrorMap,
+  type ModuleErrorMap,
+} from "@/lib/abort-codes";
+import { shortId } from "@/lib/utils";
+import { Trash2 } from "lucide-react";
+
+// Names for a package's abort codes, pasted from its Move source; kiosk and transfer_policy are built in
+export function ErrorMapSettings({ disabled }: { disabled?: boolean }) {
+  const [open, setOpen] = useState(false);
+  const [target, setTarget] = useState("");
+  const [constants, setConstants] = useState("");
+  const [problem, setProblem] = useState("");
+  const [maps, setMaps] = useState<ModuleErrorMap[]>(() => registeredErrorMaps());
+
+  const handleRegister = () => {
+    try {
+      const [packageId, module, ...rest] = target.trim().split("::");
+      if (!packageId || !module || rest.length > 0) {
+        throw new Error("Name the module as <package>::<module>, e.g. 0x...::governance_nfts");
+      }
+      registerErrorMap({ packageId, module, errors: parseErrorConstants(constants) });
+      setMaps(registeredErrorMaps());
+      setConstants("");
+      setProblem("");
+    } catch (err) {
+      setProblem(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleRemove = (map: ModuleErrorMap) => {
+    unregisterErrorMap(map.packageId, map.module);
+    setMaps(registeredErrorMaps());
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Switch id="error-maps" checked={open} onCheckedChange={setOpen} disabled={disabled} />
+        <Label htmlFor="error-maps" className="text-sm text-muted-foreground">
+          Abort code names for your packages{maps.length > 0 ? ` (${maps.length} registered)` : ""}
+        </Label>
+      </div>
+      {open && (
+        <div className="rounded-md border border-border/50 bg-muted/30 p-3 space-y-2">
+          <Label htmlFor="error-map-module" className="text-xs">Module</Label>
+          <Input
+            id="error-map-module"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder="0xbd672d1c...::governance_nfts"
+            disabled={disabled}
+            className="h-8 text-xs font-mono"
+          />
+          <Label htmlFor="error-map-constants" className="text-xs">Error constants, as in the Move source</Label>
+          <Textarea
+            id="error-map-constants"
+            value={constants}
+            onChange={(e) => setConstants(e.target.value)}
+            placeholder={"const ENotAdmin: u64 = 0;\nconst EMintingPaused: u64 = 1;"}
+            disabled={disabled}
+            className="min-h-[80px] text-xs font-mono"
+          />
+          <Button variant="outline" size="sm" onClick={handleRegister} disabled={disabled || !target.trim() || !constants.trim()}>
+            Register
+          </Button>
+          {problem && <p className="text-xs text-destructive">{problem}</p>}
+          {maps.map(map => (
+            <div key={`${map.packageId}::${map.module}`} className="flex items-center gap-2 text-xs text-muted-foreground">
+              <code className="bg-muted px-1 rounded">{shortId(map.packageId)}::{map.module}</code>
+              <span>{Object.keys(map.errors).length} codes</span>
+              <Button variant="ghost" size="sm" className="h-6 px-1 ml-auto" onClick={() => handleRemove(map)} disabled={disabled}>
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { type HistoryEntry, historyFileName, serializeHistoryEntry } from "@/lib/execution-history";
+import { explorerLink } from "@/lib/networks";
+import { downloadFile, formatMist, shortId } from "@/lib/utils";
+import { Download, ExternalLink, FolderOpen, History, Play, Trash2 } from "lucide-react";
+
+interface ExecutionHistoryProps {
+  entries: HistoryEntry[];
+  onOpen: (entry: HistoryEntry) => void; // Loads the entry's PTB JSON into the editor
+  onRerun: (entry: HistoryEntry) => void; // Loads it and starts the review
+  onDelete: (entry: HistoryEntry) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+const STATUS_VARIANTS = {
+  success: "secondary",
+  failure: "destructive",
+  unknown: "outline",
+} as const;
+
+function describeEffects(entry: HistoryEntry): string | undefined {
+  if (!entry.effects) {
+    return undefined;
+  }
+  const { created, mutated, transferred, deleted } = entry.effects.objectChanges;
+  const parts = [
+    created.length && `${created.length} created`,
+    mutated.length && `${mutated.length} mutated`,
+    transferred.length && `${transferred.length} transferred`,
+    deleted.length && `${deleted.length} deleted`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `Objects: ${parts.join(", ")}` : undefined;
+}
+
+export function ExecutionHistory({ entries, onOpen, onRerun, onDelete, onClear, disabled }: ExecutionHistoryProps) {
+  return (
+    <Card className="bg-gradient-card border-border/50 shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Execution History
+          <Badge variant="secondary">{entries.length}</Badge>
+          {entries.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={onClear} disabled={disabled} className="ml-auto">
+              Clear
+            </Button>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Runs are saved in this browser with their PTB JSON and effects
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No transactions run yet.</p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {entries.map(entry => {
+              const effects = describeEffects(entry);
+              return (
+                <div key={entry.id} className="rounded-md border border-border/50 bg-muted/30 p-3 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <Badge variant={STATUS_VARIANTS[entry.status]}>{entry.status}</Badge>
+                    <Badge variant="outline">{entry.network}</Badge>
+                    <span className="text-muted-foreground">{new Date(entry.timestamp).toLocaleString()}</span>
+                  </div>
+                  <div className="space-y-1 text-xs text-muted-foreground">
+                    <p>
+                      Digest:{" "}
+                      <a
+                        href={explorerLink(entry.network, entry.digest, "transaction")}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:text-primary-glow inline-flex items-center gap-1"
+                      >
+                        <code>{shortId(entry.digest)}</code>
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    </p>
+                    <p>Sender: <code className="bg-muted px-1 rounded">{shortId(entry.sender)}</code></p>
+                    {entry.gasUsed !== undefined && <p>Gas used: {formatMist(BigInt(entry.gasUsed))} SUI</p>}
+                    {effects && <p>{effects}</p>}
+                    {entry.effects?.error && <p className="text-destructive break-all">{entry.effects.error}</p>}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" onClick={() => onOpen(entry)} disabled={disabled}>
+                      <FolderOpen className="w-4 h-4 mr-1" /> Open
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => onRerun(entry)} disabled={disabled}>
+                      <Play className="w-4 h-4 mr-1" /> Re-run
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadFile(historyFileName(entry), serializeHistoryEntry(entry))}
+                    >
+                      <Download className="w-4 h-4 mr-1" /> Export
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => onDelete(entry)} disabled={disabled}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
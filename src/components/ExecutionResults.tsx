@@ -0,0 +1,153 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { type NewHistoryEntry } from "@/lib/execution-history";
+import { explorerLink } from "@/lib/networks";
+import { formatMist, shortId } from "@/lib/utils";
+import { describeAbort } from "@/lib/abort-codes";
+import { CheckCircle2, Copy, ExternalLink, ListPlus, Radio, X, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+interface ExecutionResultsProps {
+  run: NewHistoryEntry;
+  onUseObject: (objectId: string) => void; // Adds the object as an argument to the PTB in the editor
+  onClose: () => void;
+}
+
+// Struct name without its package, e.g. 0x2::kiosk::Kiosk becomes kiosk::Kiosk
+function shortType(type: string): string {
+  return type.replace(/0x[0-9a-fA-F]{16,}::/g, match => `${shortId(match.slice(0, -2))}::`);
+}
+
+export function ExecutionResults({ run, onUseObject, onClose }: ExecutionResultsProps) {
+  const { effects, events = [] } = run;
+  const explorerUrl = explorerLink(run.network, run.digest, "transaction");
+
+  const handleCopy = async (objectId: string) => {
+    await navigator.clipboard.writeText(objectId);
+    toast.success("Object ID copied");
+  };
+
+  return (
+    <Card className="bg-gradient-card border-border/50 shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {run.status === "failure" ? (
+            <XCircle className="w-5 h-5 text-destructive" />
+          ) : (
+            <CheckCircle2 className="w-5 h-5 text-success" />
+          )}
+          Transaction Results
+          <Badge variant={run.status === "failure" ? "destructive" : "secondary"}>{run.status}</Badge>
+          <Button variant="ghost" size="sm" onClick={onClose} className="ml-auto">
+            <X className="w-4 h-4" />
+          </Button>
+        </CardTitle>
+        <CardDescription className="flex flex-wrap items-center gap-2">
+          <a
+            href={explorerUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:text-primary-glow inline-flex items-center gap-1"
+          >
+            <code>{shortId(run.digest)}</code>
+            <ExternalLink className="w-3 h-3" />
+          </a>
+          on {run.network}
+          {run.gasUsed !== undefined && <span>· gas used {formatMist(BigInt(run.gasUsed))} SUI</span>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!effects ? (
+          <p className="text-sm text-muted-foreground">
+            The effects could not be fetched from the network; check the transaction in the explorer.
+          </p>
+        ) : (
+          <>
+            {!effects.success && (
+              <Alert variant="destructive">
+                <XCircle className="h-4 w-4" />
+                <AlertDescription className="space-y-1">
+                  {effects.abort ? (
+                    <>
+                      <p><strong>{describeAbort(effects.abort)}</strong></p>
+                      <p className="text-xs">
+                        Abort code {effects.abort.code}
+                        {effects.abort.packageId && <> in package <code>{shortId(effects.abort.packageId)}</code></>}
+                        {effects.abort.instruction !== undefined && <>, instruction {effects.abort.instruction}</>}
+                        {effects.abort.command !== undefined && <>, command {effects.abort.command + 1}</>}
+                      </p>
+                      <p className="text-xs break-all opacity-80">{effects.error}</p>
+                    </>
+                  ) : (
+                    <p className="break-all">{effects.error}</p>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <p className="text-sm font-semibold">Created objects ({effects.objectChanges.created.length})</p>
+              {effects.objectChanges.created.length === 0 ? (
+                <p className="text-xs text-muted-foreground">None</p>
+              ) : effects.objectChanges.created.map(object => (
+                <div key={object.objectId} className="flex flex-wrap items-center gap-2 text-xs">
+                  <code className="bg-muted px-1 rounded" title={object.objectId}>{shortId(object.objectId)}</code>
+                  <span className="text-muted-foreground break-all" title={object.objectType}>{shortType(object.objectType)}</span>
+                  {object.owner && <span className="text-muted-foreground">owned by {shortId(object.owner)}</span>}
+                  <div className="flex gap-1 ml-auto">
+                    <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => handleCopy(object.objectId)}>
+                      <Copy className="w-3 h-3" />
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-7 px-2" onClick={() => onUseObject(object.objectId)}>
+                      <ListPlus className="w-3 h-3 mr-1" /> Use in next PTB
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {(effects.objectChanges.mutated.length > 0 || effects.objectChanges.deleted.length > 0) && (
+                <p className="text-xs text-muted-foreground">
+                  Also {effects.objectChanges.mutated.length} mutated and {effects.objectChanges.deleted.length} deleted or wrapped
+                </p>
+              )}
+            </div>
+
+            {effects.balanceChanges.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-semibold">Balance changes</p>
+                {effects.balanceChanges.map(({ coinType, changes }) => changes.map(change => (
+                  <p key={`${coinType}-${change.owner}`} className="text-xs text-muted-foreground">
+                    <code className="bg-muted px-1 rounded">{shortId(change.owner)}</code>{" "}
+                    <span className={change.amount < 0n ? "text-destructive" : "text-success"}>
+                      {change.amount > 0n ? "+" : ""}{coinType === "0x2::sui::SUI" ? `${formatMist(change.amount)} SUI` : `${change.amount} ${shortType(coinType)}`}
+                    </span>
+                  </p>
+                )))}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm font-semibold flex items-center gap-1">
+            <Radio className="w-4 h-4" /> Events ({events.length})
+          </p>
+          {events.length === 0 ? (
+            <p className="text-xs text-muted-foreground">None</p>
+          ) : events.map((event, index) => (
+            <div key={index} className="rounded-md border border-border/50 bg-muted/30 p-2 space-y-1">
+              <p className="text-xs">
+                <code title={event.type}>{shortType(event.type)}</code>
+                <span className="text-muted-foreground"> from {shortType(event.emitter)}</span>
+              </p>
+              <pre className="max-h-40 overflow-auto text-[11px] font-mono whitespace-pre-wrap break-all">
+                {JSON.stringify(event.fields, null, 2)}
+              </pre>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
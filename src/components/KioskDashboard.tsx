@@ -14,12 +14,12 @@ import {
   discoverUserKiosksAndNFTs,
   discoverUserKiosksAndNFTsProgressive
 } from '@/lib/kiosk-discovery';
+import { createObjectCache } from '@/lib/object-cache';
 import { WalletConnection } from './WalletConnection';
 import { NFTGrid } from './NFTGrid';
 import { TransferInterface } from './TransferInterface';
 import { NetworkSwitcher } from './NetworkSwitcher';
 import { useNetwork } from '@/contexts/NetworkContext';
-import { switchNetwork } from '@/lib/simple-sui-client';
 import { RoyaltyManager } from './RoyaltyManager';
 import { MintInterface } from './MintInterface';
 import { useToast } from '@/hooks/use-toast';
@@ -27,7 +27,7 @@ import { BulkTransfer } from './BulkTransfer';
 
 export function KioskDashboard() {
   const { connected, account } = useWallet();
-  const { currentNetwork } = useNetwork();
+  const { currentNetwork, client } = useNetwork();
   const { toast } = useToast();
   const [kiosks, setKiosks] = useState<KioskInfo[]>([]);
   const [nfts, setNFTs] = useState<NFTInfo[]>([]);
@@ -37,6 +37,7 @@ export function KioskDashboard() {
   const [debugLogs, setDebugLogs] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [refreshCounter, setRefreshCounter] = useState(0);
+  const objectCache = useMemo(() => createObjectCache(currentNetwork), [currentNetwork]);
 
   const addDebugLog = useCallback((message: string) => {
     console.log(`[Kiosk Debug] ${message}`);
@@ -66,9 +67,14 @@ export function KioskDashboard() {
         await discoverUserKiosksAndNFTsProgressive(account.address, (update) => {
           if (cancelled) return;
           if (update.kiosks) setKiosks(update.kiosks);
-          if (update.nfts) setNFTs(prev => [...prev, ...update.nfts!]);
+          if (update.nfts) setNFTs(prev => (update.replace ? update.nfts! : [...prev, ...update.nfts!]));
+          if (update.replace && !update.done) {
+            // Cached objects are on screen; the rest of the refresh only swaps in what changed
+            setLoading(false);
+            addDebugLog(`Showing ${update.nfts?.length ?? 0} cached objects while refreshing`);
+          }
           if (update.done) addDebugLog('Progressive loading complete');
-        });
+        }, { client, cache: objectCache });
 
         if (!cancelled && kiosks.length === 0) {
           setError(`No kiosks found. Make sure you have kiosks on the current network (${currentNetwork}).`);
@@ -83,10 +89,9 @@ export function KioskDashboard() {
       }
     };
     
-    switchNetwork(currentNetwork);
     loadKioskData();
     return () => { cancelled = true; };
-  }, [connected, account, currentNetwork, addDebugLog, refreshCounter]);
+  }, [connected, account, currentNetwork, client, objectCache, addDebugLog, refreshCounter]);
 
   const nftTypeCount = useMemo(() => {
     return new Set(nfts.map(nft => nft.type)).size;
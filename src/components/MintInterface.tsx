@@ -10,6 +10,9 @@ import { Package, Wand2, Search, ClipboardCopy } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Transaction } from '@mysten/sui/transactions';
 import { getUserKiosks, KioskInfo } from '@/lib/kiosk-discovery';
+import { explainError } from '@/lib/abort-codes';
+import { useWalletChainCheck } from '@/hooks/use-wallet-chain';
+import { useNetwork } from '@/contexts/NetworkContext';
 
 const PACKAGE_ID = '0xbd672d1c158c963ade8549ae83bda75f29f6b3ce0c59480f3921407c4e8c6781';
 const MODULE = 'governance_nfts';
@@ -28,6 +31,8 @@ const TIER_TO_U8: Record<TierKey, number> = {
 
 export function MintInterface() {
   const { signAndExecuteTransaction } = useWallet();
+  const checkWalletChain = useWalletChainCheck();
+  const { client } = useNetwork();
   const { toast } = useToast();
 
   const [tier, setTier] = useState<TierKey>('voter');
@@ -47,7 +52,7 @@ export function MintInterface() {
     }
     setLookingUp(true);
     try {
-      const kiosks = await getUserKiosks(lookupAddress);
+      const kiosks = await getUserKiosks(lookupAddress, { client });
       setLookupResult(kiosks);
       if (kiosks.length === 0) {
         toast({ title: 'No kiosks found', description: 'This wallet has no kiosks on the current network' });
@@ -103,12 +108,13 @@ export function MintInterface() {
         ],
       });
 
+      checkWalletChain();
       await signAndExecuteTransaction({ transaction: tx });
       toast({ title: 'Mint submitted', description: `Minting ${countNum} ${tier} NFT(s) starting at ${startEditionNum}` });
       setCount('');
       setStartEdition('');
     } catch (e: any) {
-      toast({ title: 'Mint failed', description: e?.message || 'Transaction failed', variant: 'destructive' });
+      toast({ title: 'Mint failed', description: explainError(e), variant: 'destructive' });
     } finally {
       setExecuting(false);
     }
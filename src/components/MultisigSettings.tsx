@@ -0,0 +1,70 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+
+interface MultisigSettingsProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  members: string;
+  onMembersChange: (members: string) => void;
+  threshold: string;
+  onThresholdChange: (threshold: string) => void;
+  address?: string; // Multisig address when the configuration is valid
+  problem?: string;
+  disabled?: boolean;
+}
+
+export function MultisigSettings({
+  enabled,
+  onEnabledChange,
+  members,
+  onMembersChange,
+  threshold,
+  onThresholdChange,
+  address,
+  problem,
+  disabled,
+}: MultisigSettingsProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Switch id="multisig-sender" checked={enabled} onCheckedChange={onEnabledChange} disabled={disabled} />
+        <Label htmlFor="multisig-sender" className="text-sm text-muted-foreground">
+          Multisig sender: members sign the exported bytes, submitted once the threshold is met
+        </Label>
+      </div>
+      {enabled && (
+        <div className="rounded-md border border-border/50 bg-muted/30 p-3 space-y-2">
+          <Label htmlFor="multisig-members" className="text-xs">Members, one per line: public key and weight</Label>
+          <Textarea
+            id="multisig-members"
+            value={members}
+            onChange={(e) => onMembersChange(e.target.value)}
+            placeholder={"AO3x...base64 public key with flag... 1\nAQK9...base64 public key with flag... 2"}
+            disabled={disabled}
+            className="min-h-[80px] text-xs font-mono"
+          />
+          <div className="flex items-center gap-2">
+            <Label htmlFor="multisig-threshold" className="text-xs">Threshold</Label>
+            <Input
+              id="multisig-threshold"
+              value={threshold}
+              onChange={(e) => onThresholdChange(e.target.value)}
+              placeholder="2"
+              disabled={disabled}
+              className="h-8 w-24 text-xs font-mono"
+            />
+          </div>
+          {problem ? (
+            <p className="text-xs text-destructive">{problem}</p>
+          ) : address && (
+            <p className="text-xs text-muted-foreground">
+              Sender: <code className="bg-muted px-1 rounded break-all">{address}</code>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
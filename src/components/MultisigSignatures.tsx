@@ -0,0 +1,198 @@
+import { useRef, useState } from "react";
+import { useWallet } from "@suiet/wallet-kit";
+import { Transaction } from "@mysten/sui/transactions";
+import { type MultiSigPublicKey } from "@mysten/sui/multisig";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  collectedWeight,
+  combineMultisigSignatures,
+  readPartialSignature,
+  type PartialSignature,
+} from "@/lib/multisig";
+import { downloadFile, shortId } from "@/lib/utils";
+import { explainError } from "@/lib/abort-codes";
+import { useWalletChainCheck } from "@/hooks/use-wallet-chain";
+import { AlertCircle, Copy, Download, Upload, Users } from "lucide-react";
+import { toast } from "sonner";
+
+interface MultisigSignaturesProps {
+  multisig: MultiSigPublicKey;
+  bytes: string; // base64 transaction bytes every member signs
+  onSubmit: (signature: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function MultisigSignatures({ multisig, bytes, onSubmit, onCancel }: MultisigSignaturesProps) {
+  const [signatures, setSignatures] = useState<PartialSignature[]>([]);
+  const [pasted, setPasted] = useState("");
+  const [error, setError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { connected, account, signTransaction } = useWallet();
+  const checkWalletChain = useWalletChainCheck();
+
+  const weight = collectedWeight(signatures);
+  const threshold = multisig.getThreshold();
+  const members = multisig.getPublicKeys().map(({ publicKey, weight }) => ({ address: publicKey.toSuiAddress(), weight }));
+  const walletIsMember = !!account?.address && members.some(member => member.address === account.address);
+
+  // Verifies each whitespace-separated signature; one bad entry does not drop the others
+  const addSignatures = async (text: string) => {
+    const entries = text.split(/\s+/).filter(Boolean);
+    const problems: string[] = [];
+    const added: PartialSignature[] = [];
+    for (const entry of entries) {
+      try {
+        added.push(await readPartialSignature(multisig, bytes, entry));
+      } catch (err) {
+        problems.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+    setSignatures(current => [
+      ...current,
+      ...added.filter(signature => !current.some(existing => existing.signer === signature.signer)),
+    ]);
+    setError(problems.join("; "));
+  };
+
+  const handleAddPasted = async () => {
+    await addSignatures(pasted);
+    setPasted("");
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (file) {
+      await addSignatures(await file.text());
+    }
+    if (fileInput.current) {
+      fileInput.current.value = "";
+    }
+  };
+
+  const handleWalletSign = async () => {
+    try {
+      checkWalletChain();
+      const signed = await signTransaction({ transaction: Transaction.from(bytes) });
+      if (signed.bytes !== bytes) {
+        throw new Error("The wallet changed the transaction; its signature would not match the other members'");
+      }
+      await addSignatures(signed.signature);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Wallet signing failed");
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(bytes);
+    toast.success("Transaction bytes copied");
+  };
+
+  const handleDownload = () => {
+    downloadFile(`multisig-${multisig.toSuiAddress().slice(0, 10)}.tx`, bytes, "text/plain");
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      await onSubmit(combineMultisigSignatures(multisig, signatures));
+    } catch (err) {
+      setError(explainError(err, "Submission failed"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-card border-border/50 shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Collect Multisig Signatures
+          <Badge variant={weight >= threshold ? "default" : "secondary"}>weight {weight} / {threshold}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Each member signs these unsigned bytes, for example with <code>sui keytool sign --address &lt;member&gt; --data &lt;bytes&gt;</code>,
+          and sends back the signature.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <pre className="max-h-24 overflow-y-auto rounded-md bg-muted p-2 text-xs font-mono break-all whitespace-pre-wrap">{bytes}</pre>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleCopy}>
+              <Copy className="w-4 h-4 mr-1" /> Copy bytes
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDownload}>
+              <Download className="w-4 h-4 mr-1" /> Download
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          {members.map(member => {
+            const signed = signatures.some(signature => signature.signer === member.address);
+            return (
+              <div key={member.address} className="flex items-center gap-2 text-xs">
+                <Badge variant={signed ? "default" : "outline"} className="text-[10px] px-1 py-0">
+                  {signed ? "signed" : "pending"}
+                </Badge>
+                <code className="bg-muted px-1 rounded">{shortId(member.address)}</code>
+                <span className="text-muted-foreground">weight {member.weight}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <Textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder="Paste one or more base64 signatures"
+            className="min-h-[60px] text-xs font-mono"
+          />
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={handleAddPasted} disabled={!pasted.trim()}>
+              Add signatures
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+              <Upload className="w-4 h-4 mr-1" /> Upload
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".txt,.sig,text/plain"
+              className="hidden"
+              onChange={(e) => handleUpload(e.target.files?.[0])}
+            />
+            {connected && walletIsMember && (
+              <Button variant="outline" size="sm" onClick={handleWalletSign}>
+                Sign with connected wallet
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex gap-2">
+          <Button onClick={handleSubmit} disabled={weight < threshold || submitting}>
+            {submitting ? "Submitting..." : "Combine & Submit"}
+          </Button>
+          <Button variant="outline" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,26 @@
+import { useState } from 'react';
+import { useWallet } from '@suiet/wallet-kit';
+import { requestSuiFromFaucetV2 } from '@mysten/sui/faucet';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Globe, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Droplets, Globe, Loader2, Settings2, Trash2 } from 'lucide-react';
 import { useNetwork, NetworkType } from '@/contexts/NetworkContext';
+import { LOCALNET_PRESET } from '@/lib/networks';
+import { toast } from 'sonner';
+
+const EMPTY_FORM = { name: '', rpcUrl: '', faucetUrl: '', explorerUrl: '', chain: '' };
 
 export function NetworkSwitcher() {
-  const { currentNetwork, setNetwork, isChangingNetwork } = useNetwork();
+  const { currentNetwork, currentConfig, networks, setNetwork, addNetwork, removeNetwork, isChangingNetwork } = useNetwork();
+  const { connected, account } = useWallet();
+  const [managing, setManaging] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [problem, setProblem] = useState('');
+  const [funding, setFunding] = useState(false);
 
   const getNetworkColor = (network: NetworkType) => {
     switch (network) {
@@ -19,13 +35,53 @@ export function NetworkSwitcher() {
     }
   };
 
+  const getDotColor = (network: NetworkType) => {
+    switch (network) {
+      case 'mainnet':
+        return 'bg-success';
+      case 'testnet':
+        return 'bg-warning';
+      case 'devnet':
+        return 'bg-destructive';
+      default:
+        return 'bg-muted-foreground';
+    }
+  };
+
+  const handleAdd = () => {
+    try {
+      addNetwork(form);
+      setForm(EMPTY_FORM);
+      setProblem('');
+    } catch (error) {
+      setProblem(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleFaucet = async () => {
+    if (!currentConfig.faucetUrl || !account?.address) {
+      return;
+    }
+    setFunding(true);
+    try {
+      await requestSuiFromFaucetV2({ host: currentConfig.faucetUrl, recipient: account.address });
+      toast.success(`Requested SUI from the ${currentNetwork} faucet`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Faucet request failed');
+    } finally {
+      setFunding(false);
+    }
+  };
+
+  const customNetworks = networks.filter(network => !network.builtin);
+
   return (
     <div className="flex items-center gap-3">
       <div className="flex items-center gap-2">
         <Globe className="w-4 h-4 text-muted-foreground" />
         <span className="text-sm text-muted-foreground">Network:</span>
       </div>
-      
+
       <div className="flex items-center gap-2">
         {isChangingNetwork ? (
           <div className="flex items-center gap-2">
@@ -37,8 +93,8 @@ export function NetworkSwitcher() {
             <Badge variant="outline" className={getNetworkColor(currentNetwork)}>
               {currentNetwork.charAt(0).toUpperCase() + currentNetwork.slice(1)}
             </Badge>
-            <Select 
-              value={currentNetwork} 
+            <Select
+              value={currentNetwork}
               onValueChange={(value) => setNetwork(value as NetworkType)}
               disabled={isChangingNetwork}
             >
@@ -46,29 +102,83 @@ export function NetworkSwitcher() {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="mainnet">
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 rounded-full bg-success"></div>
-                    Mainnet
-                  </div>
-                </SelectItem>
-                <SelectItem value="testnet">
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 rounded-full bg-warning"></div>
-                    Testnet
-                  </div>
-                </SelectItem>
-                <SelectItem value="devnet">
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 rounded-full bg-destructive"></div>
-                    Devnet
-                  </div>
-                </SelectItem>
+                {networks.map(network => (
+                  <SelectItem key={network.name} value={network.name}>
+                    <div className="flex items-center gap-2">
+                      <div className={`w-2 h-2 rounded-full ${getDotColor(network.name)}`}></div>
+                      {network.name.charAt(0).toUpperCase() + network.name.slice(1)}
+                    </div>
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            {currentConfig.faucetUrl && connected && (
+              <Button variant="ghost" size="sm" className="h-8 px-2" onClick={handleFaucet} disabled={funding} title="Request SUI from the faucet">
+                {funding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Droplets className="w-4 h-4" />}
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => setManaging(true)} title="Custom networks">
+              <Settings2 className="w-4 h-4" />
+            </Button>
           </>
         )}
       </div>
+
+      <Dialog open={managing} onOpenChange={setManaging}>
+        <DialogContent className="max-w-lg bg-gradient-card border-border/50">
+          <DialogHeader>
+            <DialogTitle>Custom networks</DialogTitle>
+            <DialogDescription>
+              Add an RPC endpoint, such as a local node from <code>sui start</code>. Wallets must report the chain
+              before they are asked to sign.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {customNetworks.length === 0 && (
+              <p className="text-sm text-muted-foreground">No custom networks yet.</p>
+            )}
+            {customNetworks.map(network => (
+              <div key={network.name} className="flex items-center gap-2 text-xs">
+                <Badge variant="outline">{network.name}</Badge>
+                <code className="text-muted-foreground truncate">{network.rpcUrl}</code>
+                <span className="text-muted-foreground">{network.chain}</span>
+                <Button variant="ghost" size="sm" className="h-6 px-1 ml-auto" onClick={() => removeNetwork(network.name)}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2 rounded-md border border-border/50 bg-muted/30 p-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="network-name" className="text-xs">Name</Label>
+                <Input id="network-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="localnet" className="h-8 text-xs" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="network-chain" className="text-xs">Chain</Label>
+                <Input id="network-chain" value={form.chain} onChange={(e) => setForm({ ...form, chain: e.target.value })} placeholder="sui:localnet" className="h-8 text-xs font-mono" />
+              </div>
+            </div>
+            <Label htmlFor="network-rpc" className="text-xs">RPC URL</Label>
+            <Input id="network-rpc" value={form.rpcUrl} onChange={(e) => setForm({ ...form, rpcUrl: e.target.value })} placeholder={LOCALNET_PRESET.rpcUrl} className="h-8 text-xs font-mono" />
+            <Label htmlFor="network-faucet" className="text-xs">Faucet URL (optional)</Label>
+            <Input id="network-faucet" value={form.faucetUrl} onChange={(e) => setForm({ ...form, faucetUrl: e.target.value })} placeholder={LOCALNET_PRESET.faucetUrl} className="h-8 text-xs font-mono" />
+            <Label htmlFor="network-explorer" className="text-xs">Explorer template (optional)</Label>
+            <Input id="network-explorer" value={form.explorerUrl} onChange={(e) => setForm({ ...form, explorerUrl: e.target.value })} placeholder="https://explorer.example/{kind}/{id}" className="h-8 text-xs font-mono" />
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleAdd} disabled={!form.name.trim() || !form.rpcUrl.trim() || !form.chain.trim()}>
+                Save network
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setForm({ ...LOCALNET_PRESET, faucetUrl: LOCALNET_PRESET.faucetUrl ?? '', explorerUrl: LOCALNET_PRESET.explorerUrl ?? '' })}>
+                Fill localnet preset
+              </Button>
+            </div>
+            {problem && <p className="text-xs text-destructive">{problem}</p>}
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
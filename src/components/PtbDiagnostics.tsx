@@ -0,0 +1,46 @@
+import { type PtbDiagnostic } from "@/lib/ptb-parser";
+import { type SourceRange } from "@/lib/json-source-map";
+import { AlertCircle, AlertTriangle } from "lucide-react";
+
+interface PtbDiagnosticsProps {
+  diagnostics: PtbDiagnostic[];
+  onSelect: (range: SourceRange) => void;
+}
+
+export function PtbDiagnostics({ diagnostics, onSelect }: PtbDiagnosticsProps) {
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === "error").length;
+  const warningCount = diagnostics.length - errorCount;
+
+  return (
+    <div className="rounded-md border border-border/50 bg-muted/30">
+      <div className="px-3 py-2 text-xs font-medium border-b border-border/50">
+        {errorCount} error(s), {warningCount} warning(s)
+      </div>
+      <ul className="max-h-48 overflow-y-auto text-xs">
+        {diagnostics.map((diagnostic, index) => (
+          <li key={index}>
+            <button
+              type="button"
+              onClick={() => diagnostic.range && onSelect(diagnostic.range)}
+              className="w-full flex items-start gap-2 px-3 py-1.5 text-left hover:bg-muted/50 transition-colors"
+            >
+              {diagnostic.severity === "error" ? (
+                <AlertCircle className="w-3 h-3 mt-0.5 shrink-0 text-destructive" />
+              ) : (
+                <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0 text-warning" />
+              )}
+              <span className="font-mono text-muted-foreground shrink-0">
+                {diagnostic.range ? `Ln ${diagnostic.range.start.line}, Col ${diagnostic.range.start.column}` : "—"}
+              </span>
+              <span className="break-words">{diagnostic.message}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
+import Editor, { type BeforeMount, type Monaco, type OnMount } from "@monaco-editor/react";
+import { type PtbDiagnostic } from "@/lib/ptb-parser";
+import { type SourceRange } from "@/lib/json-source-map";
+import { PTB_JSON_SCHEMA, PTB_SCHEMA_URI } from "@/lib/ptb-schema";
+
+const MODEL_PATH = "ptb.json";
+
+type CodeEditor = Parameters<OnMount>[0];
+type Disposable = { dispose(): void };
+
+export interface PtbEditorHandle {
+  selectRange: (range: SourceRange) => void;
+  insertText: (text: string) => boolean; // Replaces the selection; false when the editor has not loaded
+}
+
+interface PtbEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  diagnostics: PtbDiagnostic[];
+  readOnly?: boolean;
+  placeholder?: string;
+  // Resolves the on-chain type of an object ID for hovers
+  lookupObjectType?: (objectId: string) => Promise<string | undefined>;
+}
+
+// Assign names that appear in the text, in order; used for `ref` completion above the cursor
+function assignedNames(text: string): string[] {
+  const names: string[] = [];
+  const pattern = /"assign"\s*:\s*(?:"([^"\\]*)"|\[([^\]]*)\])/g;
+  for (const match of text.matchAll(pattern)) {
+    if (match[1]) {
+      names.push(match[1]);
+    } else if (match[2]) {
+      for (const name of match[2].matchAll(/"([^"\\]*)"/g)) {
+        names.push(name[1]);
+      }
+    }
+  }
+  return Array.from(new Set(names));
+}
+
+interface JsonLanguageDefaults {
+  setDiagnosticsOptions(options: {
+    validate?: boolean;
+    schemas?: { uri: string; fileMatch?: string[]; schema?: unknown }[];
+  }): void;
+}
+
+// The loader serves monaco 0.52 from the CDN, where JSON defaults live under `languages.json`;
+// newer releases moved them to a top-level `json` namespace
+function jsonDefaults(monaco: Monaco): JsonLanguageDefaults {
+  type JsonNamespace = { jsonDefaults?: JsonLanguageDefaults };
+  const api = monaco as unknown as { languages: { json?: JsonNamespace }; json?: JsonNamespace };
+  const defaults = api.languages.json?.jsonDefaults ?? api.json?.jsonDefaults;
+  if (!defaults) {
+    throw new Error("Monaco JSON language support is not loaded");
+  }
+  return defaults;
+}
+
+export const PtbEditor = forwardRef<PtbEditorHandle, PtbEditorProps>(function PtbEditor(
+  { value, onChange, diagnostics, readOnly, placeholder, lookupObjectType },
+  ref
+) {
+  const editorRef = useRef<CodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const providersRef = useRef<Disposable[]>([]);
+  const lookupRef = useRef(lookupObjectType);
+  const [mounted, setMounted] = useState(false);
+
+  lookupRef.current = lookupObjectType;
+
+  useImperativeHandle(ref, () => ({
+    selectRange(range: SourceRange) {
+      const editor = editorRef.current;
+      const monaco = monacoRef.current;
+      if (!editor || !monaco) return;
+      const selection = new monaco.Range(range.start.line, range.start.column, range.end.line, range.end.column);
+      editor.setSelection(selection);
+      editor.revealRangeInCenter(selection);
+      editor.focus();
+    },
+    insertText(text: string) {
+      const editor = editorRef.current;
+      const selection = editor?.getSelection();
+      if (!editor || !selection) return false;
+      editor.executeEdits("ptb-runner", [{ range: selection, text, forceMoveMarkers: true }]);
+      editor.focus();
+      return true;
+    },
+  }), []);
+
+  const handleBeforeMount: BeforeMount = (monaco) => {
+    jsonDefaults(monaco).setDiagnosticsOptions({
+      // Problems are reported by diagnosePtbJson; the schema only drives completion and hover
+      validate: false,
+      schemas: [{
+        uri: PTB_SCHEMA_URI,
+        fileMatch: [monaco.Uri.parse(MODEL_PATH).toString()],
+        schema: PTB_JSON_SCHEMA,
+      }],
+    });
+  };
+
+  const handleMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    const isPtbModel = (uri: { toString(): string }) => uri.toString() === editor.getModel()?.uri.toString();
+
+    providersRef.current.push(
+      monaco.languages.registerCompletionItemProvider("json", {
+        triggerCharacters: ['"'],
+        provideCompletionItems(model, position) {
+          const linePrefix = model.getValueInRange({
+            startLineNumber: position.lineNumber,
+            startColumn: 1,
+            endLineNumber: position.lineNumber,
+            endColumn: position.column,
+          });
+          const refMatch = /"ref"\s*:\s*"([^"]*)$/.exec(linePrefix);
+          if (!isPtbModel(model.uri) || !refMatch) {
+            return { suggestions: [] };
+          }
+
+          const textAbove = model.getValueInRange({
+            startLineNumber: 1,
+            startColumn: 1,
+            endLineNumber: position.lineNumber,
+            endColumn: position.column,
+          });
+          const range = {
+            startLineNumber: position.lineNumber,
+            startColumn: position.column - refMatch[1].length,
+            endLineNumber: position.lineNumber,
+            endColumn: position.column,
+          };
+          return {
+            suggestions: assignedNames(textAbove).map(name => ({
+              label: name,
+              kind: monaco.languages.CompletionItemKind.Variable,
+              detail: "Assigned result",
+              insertText: name,
+              range,
+            })),
+          };
+        },
+      }),
+      monaco.languages.registerHoverProvider("json", {
+        async provideHover(model, position) {
+          const word = model.getWordAtPosition(position);
+          if (!isPtbModel(model.uri) || !word || !/^0x[0-9a-fA-F]{1,64}$/.test(word.word) || !lookupRef.current) {
+            return null;
+          }
+          const objectType = await lookupRef.current(word.word);
+          if (!objectType) {
+            return null;
+          }
+          return {
+            range: new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn),
+            contents: [{ value: "**Object type**" }, { value: `\`${objectType}\`` }],
+          };
+        },
+      })
+    );
+
+    setMounted(true);
+  };
+
+  useEffect(() => () => {
+    providersRef.current.forEach(provider => provider.dispose());
+    providersRef.current = [];
+  }, []);
+
+  // Parser diagnostics become squiggles
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!mounted || !model || !monaco) return;
+
+    monaco.editor.setModelMarkers(model, "ptb", diagnostics.filter(diagnostic => diagnostic.range).map(diagnostic => ({
+      severity: diagnostic.severity === "error" ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+      message: diagnostic.message,
+      startLineNumber: diagnostic.range!.start.line,
+      startColumn: diagnostic.range!.start.column,
+      endLineNumber: diagnostic.range!.end.line,
+      endColumn: diagnostic.range!.end.column,
+    })));
+  }, [diagnostics, mounted]);
+
+  return (
+    <div className="relative min-h-[300px] sm:min-h-[400px] h-[400px] rounded-md border border-border/50 overflow-hidden bg-editor-background">
+      <Editor
+        path={MODEL_PATH}
+        language="json"
+        theme="vs-dark"
+        value={value}
+        onChange={(next) => onChange(next ?? "")}
+        beforeMount={handleBeforeMount}
+        onMount={handleMount}
+        options={{
+          readOnly,
+          minimap: { enabled: false },
+          fontSize: 14,
+          fontFamily: "'JetBrains Mono', 'Fira Code', 'SF Mono', Consolas, monospace",
+          scrollBeyondLastLine: false,
+          automaticLayout: true,
+          tabSize: 2,
+        }}
+      />
+      {!value && placeholder && (
+        <div className="pointer-events-none absolute left-16 top-1 text-sm text-muted-foreground code-editor">
+          {placeholder}
+        </div>
+      )}
+    </div>
+  );
+});
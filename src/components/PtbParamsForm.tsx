@@ -0,0 +1,59 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { type PtbParam, type PtbParamValues, validateParamValue } from "@/lib/ptb-params";
+
+interface PtbParamsFormProps {
+  params: PtbParam[];
+  values: PtbParamValues;
+  onChange: (values: PtbParamValues) => void;
+}
+
+const PLACEHOLDERS: Record<PtbParam["type"], string> = {
+  address: "0x...",
+  objectId: "0x...",
+  u64: "0",
+  typeTag: "0x2::sui::SUI",
+};
+
+export function PtbParamsForm({ params, values, onChange }: PtbParamsFormProps) {
+  if (params.length === 0) {
+    return null;
+  }
+
+  const missingCount = params.filter(param => !values[param.name]?.trim() && !param.default).length;
+
+  return (
+    <div className="rounded-md border border-border/50 bg-muted/30">
+      <div className="px-3 py-2 text-xs font-medium border-b border-border/50">
+        Params{missingCount > 0 ? ` (${missingCount} to fill in)` : ""}
+      </div>
+      <div className="p-3 grid gap-3 sm:grid-cols-2">
+        {params.map(param => {
+          const value = values[param.name] ?? "";
+          const problem = value.trim() ? validateParamValue(param.type, value.trim()) : undefined;
+          return (
+            <div key={param.name} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`param-${param.name}`} className="text-xs font-mono">{param.name}</Label>
+                <Badge variant="outline" className="text-[10px] px-1 py-0">{param.type}</Badge>
+              </div>
+              <Input
+                id={`param-${param.name}`}
+                value={value}
+                onChange={(e) => onChange({ ...values, [param.name]: e.target.value })}
+                placeholder={param.default ?? PLACEHOLDERS[param.type]}
+                className="h-8 text-xs font-mono"
+              />
+              {problem ? (
+                <p className="text-xs text-destructive">{problem}</p>
+              ) : param.description && (
+                <p className="text-xs text-muted-foreground">{param.description}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
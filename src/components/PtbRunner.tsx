@@ -1,20 +1,86 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useWallet } from "@suiet/wallet-kit";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { WalletConnection } from "./WalletConnection";
+import { NetworkSwitcher } from "./NetworkSwitcher";
 import { SecuritySummary } from "./SecuritySummary";
-import { parsePtbJson, type PtbCommand } from "@/lib/ptb-parser";
-import { constructTransactionBlock } from "@/lib/transaction-builder";
+import { PtbDiagnostics } from "./PtbDiagnostics";
+import { PtbEditor, type PtbEditorHandle } from "./PtbEditor";
+import { PtbParamsForm } from "./PtbParamsForm";
+import { SponsorSettings } from "./SponsorSettings";
+import { MultisigSettings } from "./MultisigSettings";
+import { MultisigSignatures } from "./MultisigSignatures";
+import { ErrorMapSettings } from "./ErrorMapSettings";
+import { ExecutionHistory } from "./ExecutionHistory";
+import { ExecutionResults } from "./ExecutionResults";
+import { parsePtbDocument, diagnosePtbJson, type PtbCommand, type PtbDocument, type PtbGasSettings } from "@/lib/ptb-parser";
+import { readPtbParams, type PtbParamValues } from "@/lib/ptb-params";
+import { type SourceRange } from "@/lib/json-source-map";
+import { constructTransactionBlock, resolveGasPayment } from "@/lib/transaction-builder";
+import { Transaction } from "@mysten/sui/transactions";
+import { type SuiObjectRef } from "@mysten/sui/client";
+import { simulateTransaction, summarizeDryRun, type SimulationResult } from "@/lib/transaction-simulator";
+import {
+  createHttpSponsor,
+  executeSponsoredTransaction,
+  sponsorTransaction,
+  type SponsoredTransaction,
+} from "@/lib/sponsored-transaction";
+import { createMultisig, executeMultisigTransaction, parseMultisigMembers } from "@/lib/multisig";
+import {
+  createTransactionEnvelope,
+  envelopeFileName,
+  executeEnvelope,
+  parseTransactionEnvelope,
+  signEnvelope,
+  verifyEnvelopeSource,
+  type TransactionEnvelope,
+} from "@/lib/transaction-envelope";
+import {
+  decodeTransaction,
+  decodeTransactionWithAbi,
+  fetchTransactionBytes,
+  type DecodedTransaction,
+} from "@/lib/transaction-decoder";
+import {
+  addHistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  describeExecution,
+  listHistoryEntries,
+  type HistoryEntry,
+  type NewHistoryEntry,
+} from "@/lib/execution-history";
+import { downloadFile } from "@/lib/utils";
+import { describeAbort, explainError } from "@/lib/abort-codes";
+import { fromBase64, isValidTransactionDigest, toBase64 } from "@mysten/sui/utils";
+import { resolveMoveCallSignatures, type MoveCallSignatures } from "@/lib/move-abi";
+import { explorerLink } from "@/lib/networks";
+import { useNetwork, type NetworkType } from "@/contexts/NetworkContext";
+import { useWalletChainCheck } from "@/hooks/use-wallet-chain";
 import { EXAMPLE_TEMPLATES } from "@/lib/examples";
-import { AlertCircle, Play, FileText, Copy, Check } from "lucide-react";
+import { AlertCircle, Play, FileText, Copy, Check, Download, Upload, FileSearch } from "lucide-react";
 import { toast } from "sonner";
 
-type ExecutionStatus = "idle" | "parsing" | "confirming" | "executing" | "success" | "error";
+type ExecutionStatus = "idle" | "parsing" | "simulating" | "confirming" | "collecting" | "executing" | "success" | "error";
+
+const MULTISIG_STORAGE_KEY = "ptb-multisig";
+
+function loadMultisigSettings(): { members: string; threshold: string } {
+  try {
+    const saved = JSON.parse(localStorage.getItem(MULTISIG_STORAGE_KEY) ?? "{}");
+    return { members: String(saved.members ?? ""), threshold: String(saved.threshold ?? "") };
+  } catch {
+    return { members: "", threshold: "" };
+  }
+}
 
 export function PtbRunner() {
   const [jsonInput, setJsonInput] = useState("");
@@ -22,70 +88,578 @@ export function PtbRunner() {
   const [status, setStatus] = useState<ExecutionStatus>("idle");
   const [error, setError] = useState<string>("");
   const [txResult, setTxResult] = useState<string>("");
+  const [txNetwork, setTxNetwork] = useState<NetworkType | undefined>(undefined);
   const [showSummary, setShowSummary] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [simulationError, setSimulationError] = useState<string>("");
+  const [useAbi, setUseAbi] = useState(true);
+  const [paramValues, setParamValues] = useState<PtbParamValues>({});
+  const [gas, setGas] = useState<PtbGasSettings | undefined>(undefined);
+  const [sponsored, setSponsored] = useState(false);
+  const [sponsorUrl, setSponsorUrl] = useState("");
+  const [sponsoredTx, setSponsoredTx] = useState<SponsoredTransaction | undefined>(undefined);
+  const [gasPayer, setGasPayer] = useState<{ label: string; address: string } | undefined>(undefined);
+  const [multisigEnabled, setMultisigEnabled] = useState(false);
+  const [multisigMembers, setMultisigMembers] = useState(() => loadMultisigSettings().members);
+  const [multisigThreshold, setMultisigThreshold] = useState(() => loadMultisigSettings().threshold);
+  const [multisigBytes, setMultisigBytes] = useState<string | undefined>(undefined);
+  const [importedEnvelope, setImportedEnvelope] = useState<TransactionEnvelope | undefined>(undefined);
+  const [decodeInput, setDecodeInput] = useState("");
+  const [decodedOnly, setDecodedOnly] = useState(false);
+  // The PTB JSON and params the open review was built from, and the bytes the wallet will sign
+  const [reviewed, setReviewed] = useState<{ source: string; params: PtbParamValues; bytes?: string } | undefined>(undefined);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [lastRun, setLastRun] = useState<NewHistoryEntry | undefined>(undefined);
 
-  const { connected, signAndExecuteTransaction } = useWallet();
+  const editorRef = useRef<PtbEditorHandle>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+  const objectTypes = useRef(new Map<string, Promise<string | undefined>>());
 
-  // Debug: Log available templates
-  console.log('Available templates:', Object.keys(EXAMPLE_TEMPLATES || {}));
-  console.log('Total templates:', Object.keys(EXAMPLE_TEMPLATES || {}).length);
+  const { connected, account, signAndExecuteTransaction, signTransaction } = useWallet();
+  const { currentNetwork, client } = useNetwork();
+  const checkWalletChain = useWalletChainCheck();
 
   const advancedTemplates = Object.entries(EXAMPLE_TEMPLATES || {})
-    .filter(([key]) => ['transferPolicyCreate', 'transferPolicyRule', 'transferPolicyCompleteFixed', 'splitObjectsExample', 'nftStakingStake', 'nftStakingUnstake', 'nftStakingClaimRewards', 'nftStakingComplex', 'nftStakingFromKiosk', 'shareObjectExample', 'witnessExample', 'complexNestedArgs', 'customFunctionExample', 'flexibleArgumentExample'].includes(key));
+    .filter(([key]) => ['transferPolicyCreate', 'transferPolicyRule', 'transferPolicyCompleteFixed', 'splitObjectsExample', 'nftStakingStake', 'nftStakingUnstake', 'nftStakingClaimRewards', 'nftStakingComplex', 'nftStakingFromKiosk', 'shareObjectExample', 'witnessExample', 'complexNestedArgs', 'customFunctionExample', 'flexibleArgumentExample', 'publishPackage', 'upgradePackage'].includes(key));
 
-  console.log('Advanced templates count:', advancedTemplates.length);
-  console.log('Advanced templates:', advancedTemplates.map(([key, template]) => ({ key, name: template.name })));
+  // Params the document declares, filled in through the form before parsing
+  const params = useMemo(() => readPtbParams(jsonInput), [jsonInput]);
+
+  // Every parse problem at once, listed under the editor while typing
+  const diagnostics = useMemo(
+    () => jsonInput.trim() ? diagnosePtbJson(jsonInput, paramValues) : [],
+    [jsonInput, paramValues]
+  );
 
-  const handleParse = () => {
+  // The multisig that sends the transaction, remembered across visits since it rarely changes
+  useEffect(() => {
+    if (multisigEnabled) {
+      localStorage.setItem(MULTISIG_STORAGE_KEY, JSON.stringify({ members: multisigMembers, threshold: multisigThreshold }));
+    }
+  }, [multisigEnabled, multisigMembers, multisigThreshold]);
+
+  const multisig = useMemo(() => {
+    if (!multisigEnabled) {
+      return {};
+    }
+    try {
+      const members = parseMultisigMembers(multisigMembers);
+      return { publicKey: createMultisig({ members, threshold: Number(multisigThreshold) }) };
+    } catch (err) {
+      return { problem: err instanceof Error ? err.message : String(err) };
+    }
+  }, [multisigEnabled, multisigMembers, multisigThreshold]);
+
+  const sender = multisigEnabled ? multisig.publicKey?.toSuiAddress() : account?.address;
+
+  // Editing the PTB or its params closes the review, so only what was simulated can be signed
+  useEffect(() => {
+    if (reviewed && (reviewed.source !== jsonInput || JSON.stringify(reviewed.params) !== JSON.stringify(paramValues))) {
+      setReviewed(undefined);
+      setSimulation(null);
+      setSponsoredTx(undefined);
+      setMultisigBytes(undefined);
+      setShowSummary(false);
+      setStatus(current => (current === "confirming" || current === "collecting" ? "idle" : current));
+    }
+  }, [jsonInput, paramValues, reviewed]);
+
+  useEffect(() => {
+    listHistoryEntries()
+      .then(setHistory)
+      .catch(err => console.warn("Execution history is unavailable:", err));
+  }, []);
+
+  // Waits for the transaction to finalize, shows its effects in place of the review and saves the run.
+  // Failing to save never fails the run itself.
+  const recordExecution = async (digest: string, run: { source: string; params?: PtbParamValues; sender: string }) => {
+    setTxResult(digest);
+    setTxNetwork(currentNetwork);
+    const entry = await describeExecution(digest, { ...run, network: currentNetwork, client });
+    setLastRun(entry);
+    setShowSummary(false);
+    if (entry.status === "failure") {
+      const reason = entry.effects?.abort ? describeAbort(entry.effects.abort) : entry.effects?.error ?? "unknown error";
+      const message = `Transaction failed on chain: ${reason}`;
+      setError(message);
+      setStatus("error");
+      toast.error(message);
+    } else {
+      setStatus("success");
+      toast.success("Transaction executed successfully!");
+    }
+
+    try {
+      await addHistoryEntry(entry);
+      setHistory(await listHistoryEntries());
+    } catch (err) {
+      console.warn("Failed to save execution history:", err);
+    }
+  };
+
+  const selectInEditor = (range: SourceRange) => {
+    editorRef.current?.selectRange(range);
+  };
+
+  // Object types for editor hovers, cached per network
+  const lookupObjectType = useCallback((objectId: string) => {
+    const key = `${currentNetwork}:${objectId}`;
+    let objectType = objectTypes.current.get(key);
+    if (!objectType) {
+      objectType = client
+        .getObject({ id: objectId, options: { showType: true } })
+        .then(response => response.data?.type ?? undefined)
+        .catch(() => undefined);
+      objectTypes.current.set(key, objectType);
+    }
+    return objectType;
+  }, [currentNetwork, client]);
+
+  // Takes the source explicitly so a history entry can be re-run before the editor state catches up
+  const handleParse = async (source = jsonInput, values = paramValues) => {
+    let parsedDocument: PtbDocument;
     try {
       setError("");
       setStatus("parsing");
+
+      if (diagnosePtbJson(source, values).some(diagnostic => diagnostic.severity === "error")) {
+        setStatus("error");
+        return;
+      }
       
-      const parsedCommands = parsePtbJson(jsonInput);
-      setCommands(parsedCommands);
-      setShowSummary(true);
-      setStatus("confirming");
+      parsedDocument = parsePtbDocument(source, values);
+      setCommands(parsedDocument.commands);
+      setGas(parsedDocument.gas);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to parse JSON");
       setStatus("error");
+      return;
+    }
+
+    // Build before opening the review so argument count and type mismatches surface here
+    let txb: Transaction;
+    try {
+      let resolvedSignatures: MoveCallSignatures | undefined;
+      if (useAbi) {
+        resolvedSignatures = await resolveMoveCallSignatures(parsedDocument.commands, {
+          client,
+          network: currentNetwork,
+        });
+      }
+      if (multisigEnabled && !multisig.publicKey) {
+        throw new Error(multisig.problem || "Define the multisig members and threshold");
+      }
+      if (multisigEnabled && sponsored) {
+        throw new Error("Multisig and sponsored transactions cannot be combined");
+      }
+      if (sponsored && parsedDocument.gas) {
+        throw new Error("Remove the 'gas' section to sponsor this transaction; the sponsor sets gas");
+      }
+      let resolvedPayment: SuiObjectRef[] | undefined;
+      if (parsedDocument.gas?.payment) {
+        resolvedPayment = await resolveGasPayment(parsedDocument.gas.payment, { client });
+      }
+      // Dry-run without the declared budget so the estimate is not capped by it
+      txb = constructTransactionBlock(parsedDocument.commands, {
+        signatures: resolvedSignatures,
+        sender,
+        gas: parsedDocument.gas && { ...parsedDocument.gas, budget: undefined },
+        gasPayment: resolvedPayment,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to build transaction");
+      setStatus("error");
+      return;
+    }
+
+    setSimulation(null);
+    setSimulationError("");
+    setSponsoredTx(undefined);
+    setGasPayer(undefined);
+    setMultisigBytes(undefined);
+    setImportedEnvelope(undefined);
+    setDecodedOnly(false);
+    setReviewed({ source, params: values });
+    setShowSummary(true);
+    setStatus("simulating");
+
+    try {
+      if (multisigEnabled) {
+        // Members sign the exact bytes that are dry-run here, so they carry the declared budget
+        if (parsedDocument.gas?.budget !== undefined) {
+          txb.setGasBudget(BigInt(parsedDocument.gas.budget));
+        }
+        const bytes = toBase64(await txb.build({ client }));
+        setMultisigBytes(bytes);
+        const response = await client.dryRunTransactionBlock({ transactionBlock: bytes });
+        setSimulation(summarizeDryRun(response));
+        return;
+      }
+
+      if (!account?.address) {
+        throw new Error("Connect a wallet to simulate as its address");
+      }
+
+      if (sponsored) {
+        // The sponsor signs the exact bytes, so those are what gets dry-run and later co-signed
+        const sponsor = createHttpSponsor(sponsorUrl.trim());
+        const result = await sponsorTransaction(txb, { sender: account.address, sponsor, client });
+        setSponsoredTx(result);
+        setGasPayer({ label: sponsor.label, address: result.sponsor });
+        const response = await client.dryRunTransactionBlock({ transactionBlock: result.bytes });
+        setSimulation(summarizeDryRun(response));
+        return;
+      }
+
+      const result = await simulateTransaction(txb, {
+        client,
+        sender: account.address,
+      });
+      // The wallet is handed these bytes: the simulated transaction with its declared budget
+      if (parsedDocument.gas?.budget !== undefined) {
+        txb.setGasBudget(BigInt(parsedDocument.gas.budget));
+      }
+      const bytes = toBase64(await txb.build({ client }));
+      setReviewed({ source, params: values, bytes });
+      setSimulation(result);
+    } catch (err) {
+      setSimulationError(err instanceof Error ? err.message : "Simulation failed");
+    } finally {
+      setStatus("confirming");
+    }
+  };
+
+  // Builds exactly what would be signed, declared budget included, and saves it for signing elsewhere
+  const handleExport = async () => {
+    setError("");
+    if (diagnostics.some(diagnostic => diagnostic.severity === "error")) {
+      return;
+    }
+    try {
+      if (sponsored) {
+        throw new Error("Sponsored transactions get their gas from the sponsor and cannot be exported");
+      }
+      if (!sender) {
+        throw new Error(multisigEnabled ? multisig.problem || "Define the multisig members and threshold" : "Connect a wallet to export as its address");
+      }
+
+      const document = parsePtbDocument(jsonInput, paramValues);
+      const resolvedSignatures = useAbi
+        ? await resolveMoveCallSignatures(document.commands, { client, network: currentNetwork })
+        : undefined;
+      const resolvedPayment = document.gas?.payment
+        ? await resolveGasPayment(document.gas.payment, { client })
+        : undefined;
+      const txb = constructTransactionBlock(document.commands, {
+        signatures: resolvedSignatures,
+        sender,
+        gas: document.gas,
+        gasPayment: resolvedPayment,
+      });
+
+      const envelope = await createTransactionEnvelope(txb, {
+        client,
+        network: currentNetwork,
+        source: jsonInput,
+        params: paramValues,
+      });
+      downloadFile(envelopeFileName(envelope), JSON.stringify(envelope, null, 2));
+      toast.success("Unsigned transaction exported");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export transaction");
+    }
+  };
+
+  // Reviews an exported envelope the same way as a transaction built here: summary plus a dry-run of its bytes
+  const handleImport = async (file: File | undefined) => {
+    if (importInput.current) {
+      importInput.current.value = "";
+    }
+    if (!file) {
+      return;
+    }
+
+    setError("");
+    let envelope: TransactionEnvelope;
+    try {
+      envelope = await parseTransactionEnvelope(await file.text());
+      if (envelope.network !== currentNetwork) {
+        throw new Error(`This transaction was built for ${envelope.network}; switch to ${envelope.network} to review it`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import transaction");
+      setStatus("error");
+      return;
+    }
+
+    // The bytes are what gets signed, so the command details always come from them; the file's PTB JSON
+    // is kept as a label only when it rebuilds to the same commands
+    let document: PtbDocument;
+    try {
+      document = decodeTransaction(envelope.bytes).ptb;
+      if (useAbi) {
+        try {
+          document = (await decodeTransactionWithAbi(envelope.bytes, { client, network: currentNetwork })).ptb;
+        } catch {
+          // Signatures could not be fetched; the untyped pure values still describe the transaction
+        }
+      }
+    } catch (err) {
+      setError(`Cannot show this transaction's commands: ${err instanceof Error ? err.message : String(err)}`);
+      setStatus("error");
+      return;
+    }
+    if (envelope.source !== undefined && !(await verifyEnvelopeSource(envelope, { client, network: currentNetwork }))) {
+      envelope = { ...envelope, source: undefined, params: undefined };
+      toast.warning("The PTB JSON in this file does not rebuild to its bytes, so it is ignored");
+    }
+    setCommands(document.commands);
+    setGas(document.gas);
+    setDecodedOnly(false);
+    setReviewed(undefined);
+    setImportedEnvelope(envelope);
+    setSponsoredTx(undefined);
+    setGasPayer(undefined);
+    setMultisigBytes(undefined);
+    setSimulation(null);
+    setSimulationError("");
+    setShowSummary(true);
+    setStatus("simulating");
+
+    try {
+      const response = await client.dryRunTransactionBlock({ transactionBlock: envelope.bytes });
+      setSimulation(summarizeDryRun(response));
+    } catch (err) {
+      setSimulationError(err instanceof Error ? err.message : "Simulation failed");
+    } finally {
+      setStatus("confirming");
+    }
+  };
+
+  // Loads a transaction's bytes, or an executed transaction by digest, into the editor and reviews it without signing
+  const handleDecode = async () => {
+    const input = decodeInput.trim();
+    const executed = isValidTransactionDigest(input);
+    setError("");
+
+    let bytes: string;
+    let decoded: DecodedTransaction;
+    try {
+      bytes = executed ? await fetchTransactionBytes(input, { client }) : input;
+      decoded = decodeTransaction(bytes);
+      if (useAbi) {
+        try {
+          decoded = await decodeTransactionWithAbi(bytes, { client, network: currentNetwork });
+        } catch {
+          // Signatures could not be fetched; the untyped pure values still describe the transaction
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to decode transaction");
+      setStatus("error");
+      return;
+    }
+
+    setJsonInput(JSON.stringify(decoded.ptb, null, 2));
+    setParamValues({});
+    setCommands(decoded.ptb.commands);
+    setGas(decoded.ptb.gas);
+    setDecodedOnly(true);
+    setReviewed(undefined);
+    setImportedEnvelope(undefined);
+    setSponsoredTx(undefined);
+    setGasPayer(undefined);
+    setMultisigBytes(undefined);
+    setSimulation(null);
+    setSimulationError("");
+    setShowSummary(true);
+
+    // An executed transaction's inputs have been consumed, so only raw bytes can be dry-run
+    if (executed) {
+      setStatus("confirming");
+      return;
+    }
+    setStatus("simulating");
+    try {
+      const response = await client.dryRunTransactionBlock({ transactionBlock: bytes });
+      setSimulation(summarizeDryRun(response));
+    } catch (err) {
+      setSimulationError(err instanceof Error ? err.message : "Simulation failed");
+    } finally {
+      setStatus("confirming");
+    }
+  };
+
+  const handleImportedEnvelope = async (action: "submit" | "export") => {
+    if (!importedEnvelope || !simulation?.success) {
+      toast.error("Transaction must pass simulation before signing");
+      return;
+    }
+
+    try {
+      setStatus("executing");
+      let envelope = importedEnvelope;
+      if (!envelope.signatures?.length || action === "export") {
+        if (!connected || account?.address !== envelope.sender) {
+          throw new Error(`Connect the sender's wallet (${envelope.sender}) to sign this transaction`);
+        }
+        checkWalletChain();
+        envelope = await signEnvelope(envelope, { signTransaction });
+      }
+
+      if (action === "export") {
+        downloadFile(envelopeFileName(envelope), JSON.stringify(envelope, null, 2));
+        setShowSummary(false);
+        setImportedEnvelope(undefined);
+        setStatus("idle");
+        toast.success("Signed transaction exported");
+        return;
+      }
+
+      const result = await executeEnvelope(envelope, { client });
+      setImportedEnvelope(undefined);
+      await recordExecution(result.digest, {
+        source: envelope.source ?? JSON.stringify(gas ? { gas, commands } : { commands }, null, 2),
+        params: envelope.params,
+        sender: envelope.sender,
+      });
+    } catch (err) {
+      const errorMessage = explainError(err);
+      setError(errorMessage);
+      setStatus("error");
+      toast.error(errorMessage);
     }
   };
 
   const handleExecute = async () => {
+    if (importedEnvelope) {
+      await handleImportedEnvelope("submit");
+      return;
+    }
+
+    if (multisigBytes) {
+      if (!simulation?.success) {
+        toast.error("Transaction must pass simulation before collecting signatures");
+        return;
+      }
+      setShowSummary(false);
+      setStatus("collecting");
+      return;
+    }
+
     if (!connected || !signAndExecuteTransaction) {
       toast.error("Please connect your wallet first");
       return;
     }
 
+    if (!simulation?.success) {
+      toast.error("Transaction must pass simulation before signing");
+      return;
+    }
+
     try {
       setStatus("executing");
-      
-      const txb = constructTransactionBlock(commands);
-      
-      const result = await signAndExecuteTransaction({
-        transaction: txb,
-      });
+      checkWalletChain();
+
+      if (!reviewed || (!sponsoredTx && !reviewed.bytes)) {
+        throw new Error("The transaction changed after it was reviewed; review it again before signing");
+      }
+
+      let result: { digest?: string };
+      if (sponsoredTx) {
+        result = await executeSponsoredTransaction(sponsoredTx, { signTransaction, client });
+      } else {
+        result = await signAndExecuteTransaction({
+          transaction: Transaction.from(fromBase64(reviewed.bytes!)),
+        });
+      }
+
+      if (result.digest) {
+        await recordExecution(result.digest, { source: reviewed.source, params: reviewed.params, sender: account!.address });
+      } else {
+        setTxResult("Transaction completed");
+        setStatus("success");
+        toast.success("Transaction executed successfully!");
+      }
 
-      setTxResult(result.digest || "Transaction completed");
-      setStatus("success");
-      toast.success("Transaction executed successfully!");
-      
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : "Transaction failed";
+      const errorMessage = explainError(err);
       setError(errorMessage);
       setStatus("error");
       toast.error(errorMessage);
     }
   };
 
+  const handleMultisigSubmit = async (signature: string) => {
+    setStatus("executing");
+    try {
+      const result = await executeMultisigTransaction(multisigBytes!, signature, { client });
+      setMultisigBytes(undefined);
+      await recordExecution(result.digest, { source: reviewed!.source, params: reviewed!.params, sender: sender! });
+    } catch (err) {
+      setStatus("collecting");
+      throw err;
+    }
+  };
+
+  const handleOpenEntry = (entry: HistoryEntry) => {
+    setJsonInput(entry.source);
+    setParamValues(entry.params ?? {});
+    setLastRun(entry);
+    toast.success("Run loaded into the editor");
+  };
+
+  // Inserts an object argument at the editor's cursor, or copies it when the editor is not ready
+  const handleUseObject = async (objectId: string) => {
+    const argument = JSON.stringify({ type: "object", value: objectId });
+    if (editorRef.current?.insertText(argument)) {
+      toast.success("Object inserted at the cursor");
+      return;
+    }
+    await navigator.clipboard.writeText(argument);
+    toast.success("Object argument copied");
+  };
+
+  const handleRerunEntry = async (entry: HistoryEntry) => {
+    if (entry.network !== currentNetwork) {
+      setError(`This run was on ${entry.network}; switch to ${entry.network} to run it again`);
+      return;
+    }
+    setJsonInput(entry.source);
+    setParamValues(entry.params ?? {});
+    await handleParse(entry.source, entry.params ?? {});
+  };
+
+  const handleDeleteEntry = async (entry: HistoryEntry) => {
+    try {
+      await deleteHistoryEntry(entry.id);
+      setHistory(current => current.filter(other => other.id !== entry.id));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete the run");
+    }
+  };
+
+  const handleClearHistory = async () => {
+    try {
+      await clearHistory();
+      setHistory([]);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to clear history");
+    }
+  };
+
   const handleCancel = () => {
+    setImportedEnvelope(undefined);
+    setDecodedOnly(false);
+    setReviewed(undefined);
     setShowSummary(false);
     setStatus("idle");
   };
 
   const handleCopyExample = (template: string) => {
     setJsonInput(template);
+    setParamValues({});
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
     toast.success("Template copied to editor");
@@ -95,7 +669,9 @@ export function PtbRunner() {
     const statusConfigs = {
       idle: { variant: "secondary" as const, text: "Ready", className: "" },
       parsing: { variant: "default" as const, text: "Parsing...", className: "" },
+      simulating: { variant: "default" as const, text: "Simulating...", className: "" },
       confirming: { variant: "default" as const, text: "Awaiting Confirmation", className: "" },
+      collecting: { variant: "default" as const, text: "Collecting Signatures", className: "" },
       executing: { variant: "default" as const, text: "Executing...", className: "" },
       success: { variant: "secondary" as const, text: "Success", className: "status-success" },
       error: { variant: "destructive" as const, text: "Error", className: "" },
@@ -133,7 +709,7 @@ export function PtbRunner() {
             {getStatusBadge()}
             {txResult && (
               <a
-                href={`https://suiexplorer.com/txblock/${txResult}?network=testnet`}
+                href={explorerLink(txNetwork ?? currentNetwork, txResult, "transaction")}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-primary hover:text-primary-glow transition-colors text-sm sm:text-base"
@@ -142,7 +718,10 @@ export function PtbRunner() {
               </a>
             )}
           </div>
-          <WalletConnection />
+          <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 sm:gap-4">
+            <NetworkSwitcher />
+            <WalletConnection />
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
@@ -158,24 +737,92 @@ export function PtbRunner() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <Textarea
+              <PtbEditor
+                ref={editorRef}
                 value={jsonInput}
-                onChange={(e) => setJsonInput(e.target.value)}
+                onChange={setJsonInput}
+                diagnostics={diagnostics}
                 placeholder="Paste your PTB JSON here..."
-                className="min-h-[300px] sm:min-h-[400px] code-editor bg-editor-background border-border/50 focus:border-primary/50 transition-colors text-sm sm:text-base"
-                disabled={status === "executing"}
+                readOnly={status === "executing"}
+                lookupObjectType={lookupObjectType}
               />
+
+              <PtbDiagnostics diagnostics={diagnostics} onSelect={selectInEditor} />
+
+              <PtbParamsForm params={params} values={paramValues} onChange={setParamValues} />
               
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="use-abi"
+                  checked={useAbi}
+                  onCheckedChange={setUseAbi}
+                  disabled={status === "executing"}
+                />
+                <Label htmlFor="use-abi" className="text-sm text-muted-foreground">
+                  Type arguments from on-chain function signatures
+                </Label>
+              </div>
+
+              <MultisigSettings
+                enabled={multisigEnabled}
+                onEnabledChange={setMultisigEnabled}
+                members={multisigMembers}
+                onMembersChange={setMultisigMembers}
+                threshold={multisigThreshold}
+                onThresholdChange={setMultisigThreshold}
+                address={multisig.publicKey?.toSuiAddress()}
+                problem={multisig.problem}
+                disabled={status === "executing" || status === "collecting"}
+              />
+
+              <SponsorSettings
+                id="ptb-sponsored"
+                enabled={sponsored}
+                onEnabledChange={setSponsored}
+                url={sponsorUrl}
+                onUrlChange={setSponsorUrl}
+                disabled={status === "executing"}
+              />
+
+              <ErrorMapSettings disabled={status === "executing"} />
+
               <div className="flex flex-col sm:flex-row gap-2">
                 <Button
-                  onClick={handleParse}
-                  disabled={!jsonInput.trim() || status === "executing" || !connected}
+                  onClick={() => handleParse()}
+                  disabled={!jsonInput.trim() || status === "executing" || status === "collecting" || !sender || (sponsored && !sponsorUrl.trim())}
                   className="flex items-center justify-center gap-2 bg-primary hover:bg-primary-glow transition-smooth w-full sm:w-auto"
                 >
                   <Play className="w-4 h-4" />
                   Execute PTB
                 </Button>
                 
+                <Button
+                  variant="outline"
+                  onClick={handleExport}
+                  disabled={!jsonInput.trim() || status === "executing" || status === "collecting" || !sender || sponsored}
+                  className="flex items-center justify-center gap-2 w-full sm:w-auto"
+                >
+                  <Download className="w-4 h-4" />
+                  Export
+                </Button>
+
+                <Button
+                  variant="outline"
+                  onClick={() => importInput.current?.click()}
+                  disabled={status === "executing" || status === "collecting"}
+                  className="flex items-center justify-center gap-2 w-full sm:w-auto"
+                >
+                  <Upload className="w-4 h-4" />
+                  Import
+                </Button>
+                <input
+                  ref={importInput}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => handleImport(e.target.files?.[0])}
+                />
+
                 <Button
                   variant="outline"
                   onClick={() => setJsonInput("")}
@@ -186,6 +833,25 @@ export function PtbRunner() {
                 </Button>
               </div>
 
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  value={decodeInput}
+                  onChange={(e) => setDecodeInput(e.target.value)}
+                  placeholder="Transaction bytes (base64) or digest to decode"
+                  disabled={status === "executing" || status === "collecting"}
+                  className="text-xs font-mono"
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleDecode}
+                  disabled={!decodeInput.trim() || status === "executing" || status === "collecting"}
+                  className="flex items-center justify-center gap-2 w-full sm:w-auto"
+                >
+                  <FileSearch className="w-4 h-4" />
+                  Decode
+                </Button>
+              </div>
+
               {error && (
                 <Alert variant="destructive">
                   <AlertCircle className="h-4 w-4" />
@@ -215,7 +881,7 @@ export function PtbRunner() {
                   <h3 className="text-sm font-semibold mb-2">Basic Operations</h3>
                   {(() => {
                     const basicTemplates = Object.entries(EXAMPLE_TEMPLATES || {})
-                      .filter(([key]) => !['transferPolicyCreate', 'transferPolicyRule', 'transferPolicyCompleteFixed', 'splitObjectsExample', 'nftStakingStake', 'nftStakingUnstake', 'nftStakingClaimRewards', 'nftStakingComplex', 'nftStakingFromKiosk', 'shareObjectExample', 'witnessExample', 'complexNestedArgs', 'customFunctionExample', 'flexibleArgumentExample'].includes(key));
+                      .filter(([key]) => !['transferPolicyCreate', 'transferPolicyRule', 'transferPolicyCompleteFixed', 'splitObjectsExample', 'nftStakingStake', 'nftStakingUnstake', 'nftStakingClaimRewards', 'nftStakingComplex', 'nftStakingFromKiosk', 'shareObjectExample', 'witnessExample', 'complexNestedArgs', 'customFunctionExample', 'flexibleArgumentExample', 'publishPackage', 'upgradePackage'].includes(key));
 
                     return basicTemplates.length > 0 ? (
                       basicTemplates.map(([key, template]) => (
@@ -295,6 +961,8 @@ export function PtbRunner() {
                         <li>• <code>mergeCoins</code> - Merge coins together</li>
                         <li>• <code>shareObject</code> - Make objects shared on the network</li>
                         <li>• <code>splitObjects</code> - Split multi-object results into individual variables</li>
+                        <li>• <code>publish</code> - Publish base64 modules with their dependency IDs</li>
+                        <li>• <code>upgrade</code> - Upgrade a package with an authorized upgrade ticket</li>
                       </ul>
                     </div>
                     
@@ -303,17 +971,21 @@ export function PtbRunner() {
                       <ul className="text-xs space-y-1 text-muted-foreground">
                         <li>• <code>pure</code> - Literal values (string, number, boolean, bigint, u8-u256)</li>
                         <li>• <code>object</code> - Object IDs</li>
-                        <li>• <code>result</code> - Reference to previous command results</li>
-                        <li>• <code>vector</code> - Arrays of objects or values</li>
-                        <li>• <code>option</code> - Optional values (some/none)</li>
+                        <li>• <code>result</code> - Reference to previous command results; add <code>index</code> to pick one value of a multi-value result</li>
+                        <li>• <code>vector</code> - Arrays of objects or values; set <code>elementType</code> for empty vectors</li>
+                        <li>• <code>option</code> - Optional values (some/none) with an <code>elementType</code></li>
                         <li>• <code>witness</code> - One-time witness objects</li>
+                        <li>• <code>gas</code> - The gas coin, e.g. as the <code>splitCoins</code> coin</li>
+                        <li>• <code>sender</code> - The connected wallet's address</li>
+                        <li>• <code>param</code> - A value declared in <code>params</code> and filled in through the form</li>
+                        <li>• <code>system</code> - Shared system objects by name: <code>clock</code> (0x6), <code>random</code> (0x8), <code>system</code> (0x5), <code>denyList</code> (0x403)</li>
                       </ul>
                     </div>
 
                     <div className="p-3 bg-muted/50 rounded-lg">
                       <h4 className="font-semibold mb-2">Pure Argument Options:</h4>
                       <ul className="text-xs space-y-1 text-muted-foreground">
-                        <li>• <code>encoding</code> - "utf8", "ascii", "hex" for string encoding</li>
+                        <li>• <code>encoding</code> - "utf8", "ascii", "hex" for string encoding, or "bcs" for already serialized hex bytes</li>
                         <li>• <code>moveType</code> - Explicit type specification for pure values</li>
                       </ul>
                     </div>
@@ -323,7 +995,7 @@ export function PtbRunner() {
                       <ul className="text-xs space-y-1 text-muted-foreground">
                         <li>• Works with <strong>ANY</strong> Sui Move function</li>
                         <li>• Supports <strong>ANY</strong> argument pattern or type signature</li>
-                        <li>• Handles multi-object returns with <code>splitObjects</code></li>
+                        <li>• Handles multi-object returns with <code>assign</code> arrays, <code>index</code> or <code>splitObjects</code></li>
                         <li>• No hardcoded function limitations</li>
                         <li>• Extensible to any future Sui features</li>
                       </ul>
@@ -349,13 +1021,49 @@ export function PtbRunner() {
           </Card>
         </div>
 
+        {lastRun && (
+          <ExecutionResults run={lastRun} onUseObject={handleUseObject} onClose={() => setLastRun(undefined)} />
+        )}
+
+        <ExecutionHistory
+          entries={history}
+          onOpen={handleOpenEntry}
+          onRerun={handleRerunEntry}
+          onDelete={handleDeleteEntry}
+          onClear={handleClearHistory}
+          disabled={status === "executing" || status === "collecting"}
+        />
+
         {/* Security Summary Modal */}
+        {status === "collecting" && multisig.publicKey && multisigBytes && (
+          <MultisigSignatures
+            multisig={multisig.publicKey}
+            bytes={multisigBytes}
+            onSubmit={handleMultisigSubmit}
+            onCancel={handleCancel}
+          />
+        )}
+
         <SecuritySummary
           open={showSummary}
           commands={commands}
+          gas={gas}
+          sponsor={gasPayer}
+          imported={importedEnvelope}
+          reviewOnly={decodedOnly}
           onConfirm={handleExecute}
+          confirmLabel={
+            importedEnvelope?.signatures?.length ? "Submit Signed Transaction"
+              : importedEnvelope ? "Approve, Sign & Submit"
+              : multisigBytes ? "Approve & Collect Signatures"
+              : undefined
+          }
+          secondaryAction={importedEnvelope ? { label: "Sign & Export", onClick: () => handleImportedEnvelope("export") } : undefined}
           onCancel={handleCancel}
           loading={status === "executing"}
+          simulation={simulation}
+          simulating={status === "simulating"}
+          simulationError={simulationError}
         />
       </div>
     </div>
@@ -7,9 +7,13 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { RefreshCw, HandCoins } from 'lucide-react';
 import { getUserTransferPolicies, TransferPolicyInfo } from '@/lib/royalty-discovery';
 import { Alert, AlertDescription } from './ui/alert';
+import { useWalletChainCheck } from '@/hooks/use-wallet-chain';
+import { useNetwork } from '@/contexts/NetworkContext';
 
 export function RoyaltyManager() {
   const { connected, account, signAndExecuteTransactionBlock } = useWallet();
+  const checkWalletChain = useWalletChainCheck();
+  const { client } = useNetwork();
   const [policies, setPolicies] = useState<TransferPolicyInfo[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -23,7 +27,7 @@ export function RoyaltyManager() {
     setError(null);
     
     try {
-      const userPolicies = await getUserTransferPolicies(account.address);
+      const userPolicies = await getUserTransferPolicies(account.address, { client });
       setPolicies(userPolicies);
       if (userPolicies.length === 0) {
         setError("No royalty policies found for your account.");
@@ -34,7 +38,7 @@ export function RoyaltyManager() {
     } finally {
       setLoading(false);
     }
-  }, [connected, account?.address]);
+  }, [connected, account?.address, client]);
 
   useEffect(() => {
     if (connected && account?.address) {
@@ -64,6 +68,7 @@ export function RoyaltyManager() {
 
       txb.transferObjects([withdrawnCoin], txb.pure.address(account.address));
       
+      checkWalletChain();
       const result = await signAndExecuteTransactionBlock({
           transactionBlock: txb,
       });
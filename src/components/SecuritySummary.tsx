@@ -3,18 +3,111 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { type PtbCommand } from "@/lib/ptb-parser";
-import { Shield, AlertTriangle, ArrowRight, Code2, Send, Scissors, Merge } from "lucide-react";
+import { type PtbCommand, type PtbGasSettings } from "@/lib/ptb-parser";
+import { deploysCode, describeCommand, summarizeSimulation } from "@/lib/ptb-summary";
+import { type SimulationResult } from "@/lib/transaction-simulator";
+import { type TransactionEnvelope } from "@/lib/transaction-envelope";
+import { formatMist, plural, shortId } from "@/lib/utils";
+import { Shield, AlertTriangle, ArrowRight, Code2, Send, Scissors, Merge, FlaskConical, CheckCircle2, XCircle, Loader2, Package, PackagePlus, FileInput } from "lucide-react";
 
 interface SecuritySummaryProps {
   open: boolean;
   commands: PtbCommand[];
+  gas?: PtbGasSettings;
+  sponsor?: { label: string; address: string }; // Set when a sponsor pays for gas instead of the wallet
+  imported?: TransactionEnvelope; // Set when reviewing a transaction built on another machine
+  reviewOnly?: boolean; // Set when the transaction was decoded for inspection and is not signed from here
   onConfirm: () => void;
+  confirmLabel?: string;
+  secondaryAction?: { label: string; onClick: () => void }; // Another way to approve, e.g. sign without submitting
   onCancel: () => void;
   loading: boolean;
+  simulation?: SimulationResult | null;
+  simulating?: boolean;
+  simulationError?: string;
 }
 
-export function SecuritySummary({ open, commands, onConfirm, onCancel, loading }: SecuritySummaryProps) {
+export function SecuritySummary({
+  open,
+  commands,
+  gas,
+  sponsor,
+  imported,
+  reviewOnly = false,
+  onConfirm,
+  confirmLabel = "Approve & Sign Transaction",
+  secondaryAction,
+  onCancel,
+  loading,
+  simulation,
+  simulating = false,
+  simulationError,
+}: SecuritySummaryProps) {
+  const canSign = !loading && !simulating && !!simulation?.success;
+  const simulationSummary = simulation ? summarizeSimulation(simulation, gas) : undefined;
+  const deploysPackage = deploysCode(commands);
+
+  const renderSimulation = () => {
+    if (simulating) {
+      return (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Running dry-run against the selected network...
+        </div>
+      );
+    }
+
+    if (simulationError) {
+      return (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertDescription>Simulation could not run: {simulationError}</AlertDescription>
+        </Alert>
+      );
+    }
+
+    if (!simulationSummary) {
+      return <p className="text-sm text-muted-foreground">No simulation result yet.</p>;
+    }
+
+    return (
+      <div className="space-y-4">
+        {simulationSummary.success ? (
+          <div className="flex items-center gap-2 text-sm text-success">
+            <CheckCircle2 className="w-4 h-4" />
+            {simulationSummary.outcome}
+          </div>
+        ) : (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertDescription className="break-all">{simulationSummary.outcome}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-1">
+          <p className="text-xs font-semibold">Gas</p>
+          <p className="text-xs text-muted-foreground">{simulationSummary.gas}</p>
+        </div>
+
+        {simulationSummary.budgetWarning && (
+          <Alert className="status-warning">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{simulationSummary.budgetWarning}.</AlertDescription>
+          </Alert>
+        )}
+
+        {simulationSummary.sections.map(({ title, lines }) => (
+          <div key={title} className="space-y-1">
+            <p className="text-xs font-semibold break-all">{title}</p>
+            {lines.map((line, i) => (
+              <div key={i} className="pl-2 text-xs text-muted-foreground break-all">{line}</div>
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const getCommandIcon = (type: string) => {
     switch (type) {
       case "moveCall":
@@ -25,67 +118,25 @@ export function SecuritySummary({ open, commands, onConfirm, onCancel, loading }
         return <Scissors className="w-4 h-4" />;
       case "mergeCoins":
         return <Merge className="w-4 h-4" />;
+      case "publish":
+        return <PackagePlus className="w-4 h-4 text-destructive" />;
+      case "upgrade":
+        return <Package className="w-4 h-4 text-destructive" />;
       default:
         return <Code2 className="w-4 h-4" />;
     }
   };
 
   const getCommandDescription = (command: PtbCommand) => {
-    switch (command.type) {
-      case "moveCall":
-        return (
-          <div className="space-y-1">
-            <p className="text-sm">
-              Call function <code className="bg-muted px-1 rounded text-xs">{command.target}</code>
-            </p>
-            {command.arguments && command.arguments.length > 0 && (
-              <p className="text-xs text-muted-foreground">
-                with {command.arguments.length} argument{command.arguments.length !== 1 ? 's' : ''}
-              </p>
-            )}
-            {command.typeArguments && command.typeArguments.length > 0 && (
-              <p className="text-xs text-muted-foreground">
-                Type arguments: {command.typeArguments.join(', ')}
-              </p>
-            )}
-          </div>
-        );
-      
-      case "transferObjects":
-        return (
-          <div className="space-y-1">
-            <p className="text-sm">
-              Transfer {command.objects.length} object{command.objects.length !== 1 ? 's' : ''}
-            </p>
-            <p className="text-xs text-muted-foreground">
-              to recipient: <code className="bg-muted px-1 rounded">{command.recipient}</code>
-            </p>
-          </div>
-        );
-      
-      case "splitCoins":
-        return (
-          <div className="space-y-1">
-            <p className="text-sm">Split coins into {command.amounts.length} amount{command.amounts.length !== 1 ? 's' : ''}</p>
-            <p className="text-xs text-muted-foreground">
-              Amounts: {command.amounts.join(', ')}
-            </p>
-          </div>
-        );
-      
-      case "mergeCoins":
-        return (
-          <div className="space-y-1">
-            <p className="text-sm">Merge {command.sources.length} coin{command.sources.length !== 1 ? 's' : ''} into destination</p>
-            <p className="text-xs text-muted-foreground">
-              Consolidating coin objects
-            </p>
-          </div>
-        );
-      
-      default:
-        return <p className="text-sm">Unknown command type: {command.type}</p>;
-    }
+    const [headline, ...details] = describeCommand(command);
+    return (
+      <div className="space-y-1">
+        <p className="text-sm break-all">{headline}</p>
+        {details.map((detail, i) => (
+          <p key={i} className="text-xs text-muted-foreground break-all">{detail}</p>
+        ))}
+      </div>
+    );
   };
 
   return (
@@ -99,18 +150,32 @@ export function SecuritySummary({ open, commands, onConfirm, onCancel, loading }
             <div>
               <DialogTitle className="text-xl">Transaction Security Review</DialogTitle>
               <DialogDescription>
-                Please review the following transaction details before signing
+                {reviewOnly
+                  ? "Decoded from transaction bytes for inspection; nothing is signed from this review"
+                  : "Please review the following transaction details before signing"}
               </DialogDescription>
             </div>
           </div>
 
-          <Alert className="status-warning">
-            <AlertTriangle className="h-4 w-4" />
-            <AlertDescription>
-              <strong>Security Notice:</strong> This transaction will be executed on the Sui blockchain and cannot be reversed. 
-              Please verify all details carefully before proceeding.
-            </AlertDescription>
-          </Alert>
+          {!reviewOnly && (
+            <Alert className="status-warning">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                <strong>Security Notice:</strong> This transaction will be executed on the Sui blockchain and cannot be reversed. 
+                Please verify all details carefully before proceeding.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {deploysPackage && (
+            <Alert variant="destructive">
+              <PackagePlus className="h-4 w-4" />
+              <AlertDescription>
+                <strong>This transaction deploys code.</strong> It publishes or upgrades a Move package that will run with
+                access to any objects passed to it. Only sign if you built these modules yourself or trust their source.
+              </AlertDescription>
+            </Alert>
+          )}
         </DialogHeader>
 
         <div className="space-y-6">
@@ -119,19 +184,80 @@ export function SecuritySummary({ open, commands, onConfirm, onCancel, loading }
             <CardHeader>
               <CardTitle className="text-lg flex items-center gap-2">
                 Transaction Overview
-                <Badge variant="secondary">{commands.length} command{commands.length !== 1 ? 's' : ''}</Badge>
+                <Badge variant="secondary">{plural(commands.length, "command")}</Badge>
               </CardTitle>
             </CardHeader>
             <CardContent>
               <p className="text-sm text-muted-foreground">
-                This transaction will execute {commands.length} command{commands.length !== 1 ? 's' : ''} in sequence on the Sui network.
+                This transaction will execute {plural(commands.length, "command")} in sequence on the Sui network.
               </p>
+              <p className="mt-3 text-xs text-muted-foreground">
+                Gas paid by:{' '}
+                {sponsor ? (
+                  <>{sponsor.label} <code className="bg-muted px-1 rounded">{shortId(sponsor.address)}</code>; you co-sign as sender</>
+                ) : gas?.sponsor ? (
+                  <code className="bg-muted px-1 rounded">{shortId(gas.sponsor)}</code>
+                ) : (
+                  "your wallet"
+                )}
+              </p>
+              {gas && (
+                <div className="mt-1 space-y-1 text-xs text-muted-foreground">
+                  {gas.budget !== undefined && <p>Gas budget: {formatMist(BigInt(gas.budget))} SUI</p>}
+                  {gas.price !== undefined && <p>Gas price: {gas.price.toString()} MIST per unit</p>}
+                  {gas.payment && <p>Paid with: {gas.payment.map(shortId).join(', ')}</p>}
+                  {gas.expiration !== undefined && <p>Expires after epoch {gas.expiration}</p>}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {imported && (
+            <Card className="bg-muted/50 border-border/50">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <FileInput className="w-5 h-5" />
+                  Imported Transaction
+                  {imported.signatures?.length ? (
+                    <Badge variant="secondary">{plural(imported.signatures.length, "signature")}</Badge>
+                  ) : (
+                    <Badge variant="outline">unsigned</Badge>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="space-y-1 text-xs text-muted-foreground">
+                  <p>Network: {imported.network}</p>
+                  <p>Sender: <code className="bg-muted px-1 rounded break-all">{imported.sender}</code></p>
+                  {imported.createdAt && <p>Exported: {new Date(imported.createdAt).toLocaleString()}</p>}
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {imported.summary.map((line, index) => <li key={index}>{line}</li>)}
+                </ul>
+                <p className="text-xs text-muted-foreground">
+                  The summary and command details are decoded from the file's bytes, which are what gets signed and what the simulation below runs.
+                  {imported.source && ' The PTB JSON in the file rebuilds to the same commands.'}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Dry-run Simulation */}
+          <Card className="bg-muted/50 border-border/50">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <FlaskConical className="w-5 h-5" />
+                Simulation
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {renderSimulation()}
             </CardContent>
           </Card>
 
           {/* Command Details */}
           <div className="space-y-3">
-            <h3 className="text-lg font-semibold">Command Details</h3>
+            {commands.length > 0 && <h3 className="text-lg font-semibold">Command Details</h3>}
             
             {commands.map((command, index) => (
               <Card key={index} className="bg-card/50 border-border/30">
@@ -149,7 +275,7 @@ export function SecuritySummary({ open, commands, onConfirm, onCancel, loading }
                     {command.assign && (
                       <div className="flex items-center gap-1 text-xs text-muted-foreground">
                         <ArrowRight className="w-3 h-3" />
-                        <code className="bg-muted px-1 rounded">{command.assign}</code>
+                        <code className="bg-muted px-1 rounded">{Array.isArray(command.assign) ? command.assign.join(", ") : command.assign}</code>
                       </div>
                     )}
                   </div>
@@ -169,25 +295,42 @@ export function SecuritySummary({ open, commands, onConfirm, onCancel, loading }
               disabled={loading}
               className="flex-1"
             >
-              Cancel
-            </Button>
-            <Button
-              onClick={onConfirm}
-              disabled={loading}
-              className="flex-1 bg-primary hover:bg-primary-glow transition-smooth"
-            >
-              {loading ? (
-                <>
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-foreground mr-2" />
-                  Executing...
-                </>
-              ) : (
-                <>
-                  <Shield className="w-4 h-4 mr-2" />
-                  Approve & Sign Transaction
-                </>
-              )}
+              {reviewOnly ? "Close" : "Cancel"}
             </Button>
+            {secondaryAction && !reviewOnly && (
+              <Button
+                variant="outline"
+                onClick={secondaryAction.onClick}
+                disabled={!canSign}
+                className="flex-1"
+              >
+                {secondaryAction.label}
+              </Button>
+            )}
+            {!reviewOnly && (
+              <Button
+                onClick={onConfirm}
+                disabled={!canSign}
+                className="flex-1 bg-primary hover:bg-primary-glow transition-smooth"
+              >
+                {loading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-foreground mr-2" />
+                    Executing...
+                  </>
+                ) : simulating ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Simulating...
+                  </>
+                ) : (
+                  <>
+                    <Shield className="w-4 h-4 mr-2" />
+                    {confirmLabel}
+                  </>
+                )}
+              </Button>
+            )}
           </div>
         </div>
       </DialogContent>
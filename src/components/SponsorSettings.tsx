@@ -0,0 +1,53 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Fuel } from "lucide-react";
+
+interface SponsorSettingsProps {
+  id: string;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  url: string;
+  onUrlChange: (url: string) => void;
+  disabled?: boolean;
+}
+
+function sponsorHost(url: string): string | undefined {
+  try {
+    return new URL(url).host || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function SponsorSettings({ id, enabled, onEnabledChange, url, onUrlChange, disabled }: SponsorSettingsProps) {
+  const host = sponsorHost(url.trim());
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Switch id={id} checked={enabled} onCheckedChange={onEnabledChange} disabled={disabled} />
+        <Label htmlFor={id} className="text-sm text-muted-foreground">
+          Sponsored: a gas station pays for gas, you co-sign
+        </Label>
+      </div>
+      {enabled && (
+        <Input
+          value={url}
+          onChange={(e) => onUrlChange(e.target.value)}
+          placeholder="https://sponsor.example.com/sponsor"
+          disabled={disabled}
+          className="h-8 text-xs font-mono"
+        />
+      )}
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Fuel className="w-3 h-3" />
+        Gas paid by
+        <Badge variant={enabled ? "default" : "secondary"} className="text-[10px] px-1 py-0">
+          {enabled ? host ?? "sponsor (enter an endpoint URL)" : "your wallet"}
+        </Badge>
+      </div>
+    </div>
+  );
+}
@@ -8,16 +8,24 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ArrowRightLeft, Package, Code, AlertCircle, Users, Loader2 } from 'lucide-react';
+import { ArrowRightLeft, Package, Code, AlertCircle, Users, Loader2, Download } from 'lucide-react';
 import { NFTInfo, KioskInfo } from '@/lib/kiosk-discovery';
 import { NFTGrid } from './NFTGrid';
-import { constructTransactionBlock } from '@/lib/transaction-builder';
-import { parsePtbJson } from '@/lib/ptb-parser';
+import { constructTransactionBlock, resolveGasPayment } from '@/lib/transaction-builder';
+import { parsePtbDocument } from '@/lib/ptb-parser';
+import { resolveMoveCallSignatures } from '@/lib/move-abi';
 import { parseWalletAddresses, prepareBulkTransferRecipients, createBulkTransferTransaction } from '@/lib/kiosk-discovery';
 import { Transaction } from '@mysten/sui/transactions';
 import { useToast } from '@/hooks/use-toast';
 import { discoverRecipient, createSmartKioskTransferTransaction, RecipientInfo } from '@/lib/smart-kiosk';
 import { getUserKiosks, getKioskNFTs } from '@/lib/kiosk-discovery';
+import { createHttpSponsor, executeSponsoredTransaction, sponsorTransaction } from '@/lib/sponsored-transaction';
+import { SponsorSettings } from './SponsorSettings';
+import { createTransactionEnvelope, envelopeFileName } from '@/lib/transaction-envelope';
+import { downloadFile } from '@/lib/utils';
+import { explainError } from '@/lib/abort-codes';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { useWalletChainCheck } from '@/hooks/use-wallet-chain';
 
 // Allowed NFT type for bulk transfers (match by suffix to avoid address normalization issues)
 const ALLOWED_NFT_SUFFIX = '::governance_nfts::SuiLFG_NFT';
@@ -30,8 +38,10 @@ interface TransferInterfaceProps {
 }
 
 export function TransferInterface({ nfts, kiosks, onTransferComplete }: TransferInterfaceProps) {
-  const { signAndExecuteTransaction, account } = useWallet();
+  const { signAndExecuteTransaction, signTransaction, account } = useWallet();
   const { toast } = useToast();
+  const { currentNetwork, client } = useNetwork();
+  const checkWalletChain = useWalletChainCheck();
   const [selectedNFTs, setSelectedNFTs] = useState<NFTInfo[]>([]);
   const [sourceNFTs, setSourceNFTs] = useState<NFTInfo[]>(nfts);
   const [kioskLoadId, setKioskLoadId] = useState('');
@@ -44,6 +54,8 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
   const [executing, setExecuting] = useState(false);
   const [recipientKiosks, setRecipientKiosks] = useState<{ id: string; ownerCapId: string }[] | null>(null);
   const [bulkAmount, setBulkAmount] = useState('');
+  const [sponsored, setSponsored] = useState(false);
+  const [sponsorUrl, setSponsorUrl] = useState('');
 
   useEffect(() => {
     setSourceNFTs(nfts);
@@ -60,11 +72,11 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
 
       setLoadingRecipient(true);
       try {
-        const info = await discoverRecipient(recipientAddress);
+        const info = await discoverRecipient(recipientAddress, { client });
         setRecipientInfo(info);
         // mirror Mint lookup logic here to show kiosks for transfer
         try {
-          const kiosks = await getUserKiosks(recipientAddress);
+          const kiosks = await getUserKiosks(recipientAddress, { client });
           setRecipientKiosks(kiosks.map(k => ({ id: k.id, ownerCapId: k.ownerCapId })));
         } catch {
           setRecipientKiosks([]);
@@ -80,7 +92,7 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
 
     const timeoutId = setTimeout(discoverRecipientInfo, 500); // Debounce
     return () => clearTimeout(timeoutId);
-  }, [recipientAddress]);
+  }, [recipientAddress, client]);
 
   // Removed direct address transfer (kiosk-only policy)
 
@@ -109,9 +121,22 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
         nftTypes
       );
 
-      const result = await signAndExecuteTransaction({
-        transaction: transaction,
-      });
+      checkWalletChain();
+      if (sponsored) {
+        if (!account?.address) {
+          throw new Error('Connect your wallet to co-sign the sponsored transfer');
+        }
+        const sponsoredTx = await sponsorTransaction(transaction, {
+          sender: account.address,
+          sponsor: createHttpSponsor(sponsorUrl.trim()),
+          client,
+        });
+        await executeSponsoredTransaction(sponsoredTx, { signTransaction, client });
+      } else {
+        await signAndExecuteTransaction({
+          transaction: transaction,
+        });
+      }
 
       toast({
         title: "Kiosk Transfer Successful",
@@ -126,7 +151,7 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
       console.error('Kiosk transfer error:', error);
       toast({
         title: "Kiosk Transfer Failed",
-        description: error.message || "Failed to transfer NFTs to kiosk",
+        description: explainError(error, "Failed to transfer NFTs to kiosk"),
         variant: "destructive"
       });
     } finally {
@@ -134,6 +159,73 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
     }
   };
 
+  // Saves the unsigned transaction so it can be reviewed and signed on another machine
+  const exportTransaction = async (transaction: Transaction, details: { description?: string[]; source?: string }) => {
+    if (!account?.address) {
+      toast({ title: "No Wallet", description: "Connect your wallet to export as its address", variant: "destructive" });
+      return;
+    }
+    try {
+      transaction.setSenderIfNotSet(account.address);
+      const envelope = await createTransactionEnvelope(transaction, {
+        client,
+        network: currentNetwork,
+        ...details,
+      });
+      downloadFile(envelopeFileName(envelope), JSON.stringify(envelope, null, 2));
+      toast({ title: "Transaction Exported", description: "Import it in the PTB Runner to sign and submit" });
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to build the transaction",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleExportKioskTransfer = () => {
+    if (!selectedNFTs.length || !recipientInfo) {
+      return;
+    }
+    const { transaction, description } = createSmartKioskTransferTransaction(
+      recipientInfo,
+      selectedNFTs.map(nft => nft.id),
+      selectedNFTs.map(nft => nft.type)
+    );
+    return exportTransaction(transaction, { description: [description] });
+  };
+
+  // Builds the custom PTB as the connected wallet, with its declared gas settings, as the PTB Runner does
+  const buildCustomPtb = async (sender: string): Promise<Transaction> => {
+    const document = parsePtbDocument(customPtb);
+    const signatures = await resolveMoveCallSignatures(document.commands, { client, network: currentNetwork });
+    const gasPayment = document.gas?.payment
+      ? await resolveGasPayment(document.gas.payment, { client })
+      : undefined;
+    return constructTransactionBlock(document.commands, { signatures, sender, gas: document.gas, gasPayment });
+  };
+
+  const handleExportCustomPtb = async () => {
+    const validationError = validateCustomPtb(customPtb);
+    if (validationError) {
+      toast({ title: "Invalid PTB", description: validationError, variant: "destructive" });
+      return;
+    }
+    if (!account?.address) {
+      toast({ title: "No Wallet", description: "Connect your wallet to export as its address", variant: "destructive" });
+      return;
+    }
+    try {
+      return await exportTransaction(await buildCustomPtb(account.address), { source: customPtb });
+    } catch (error) {
+      toast({
+        title: "Invalid PTB",
+        description: error instanceof Error ? error.message : "Failed to build the transaction",
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleBulkKioskTransfer = async () => {
     if (!selectedNFTs.length || !bulkAddresses.trim()) {
       toast({
@@ -197,7 +289,7 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
         throw new Error(`You selected ${workingSelection.length} NFTs but provided ${addresses.length} addresses`);
       }
 
-      const recipients = await prepareBulkTransferRecipients(addresses as string[]);
+      const recipients = await prepareBulkTransferRecipients(addresses as string[], { client });
       const nftIds = workingSelection.map(n => n.id).slice(0, recipients.length) as string[];
       const senderAddress: string = account?.address ? account.address : '';
       if (!senderAddress) {
@@ -206,6 +298,7 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const transaction: any = createBulkTransferTransaction(senderAddress as string, recipients as any, nftType as string, nftIds as string[]);
 
+      checkWalletChain();
       await (signAndExecuteTransaction as any)({ transaction });
 
       toast({
@@ -222,7 +315,7 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
       console.error('Bulk kiosk transfer error:', error);
       toast({
         title: "Bulk Transfer Failed",
-        description: error.message || "Failed to prepare bulk kiosk transfer",
+        description: explainError(error, "Failed to prepare bulk kiosk transfer"),
         variant: "destructive"
       });
     } finally {
@@ -273,9 +366,12 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
 
     setExecuting(true);
     try {
-      const commands = parsePtbJson(customPtb);
-      const txb = constructTransactionBlock(commands);
+      if (!account?.address) {
+        throw new Error("Connect your wallet to execute the PTB");
+      }
+      const txb = await buildCustomPtb(account.address);
 
+      checkWalletChain();
       const result = await signAndExecuteTransaction({
         transaction: txb,
       });
@@ -291,7 +387,7 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
       console.error('Custom PTB error:', error);
       toast({
         title: "PTB Execution Failed",
-        description: error.message || "Failed to execute custom PTB",
+        description: explainError(error, "Failed to execute custom PTB"),
         variant: "destructive"
       });
     } finally {
@@ -306,7 +402,7 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
     }
     setExecuting(true);
     try {
-      const loaded = await getKioskNFTs(kioskLoadId);
+      const loaded = await getKioskNFTs(kioskLoadId, { client });
       if (!loaded || loaded.length === 0) {
         toast({ title: 'No Items Found', description: 'This kiosk appears empty or inaccessible' });
       }
@@ -427,9 +523,18 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
                 </AlertDescription>
               </Alert>
 
+              <SponsorSettings
+                id="kiosk-sponsored"
+                enabled={sponsored}
+                onEnabledChange={setSponsored}
+                url={sponsorUrl}
+                onUrlChange={setSponsorUrl}
+                disabled={executing}
+              />
+
               <Button 
                 onClick={handleKioskTransfer}
-                disabled={!selectedNFTs.length || !recipientInfo || executing || loadingRecipient}
+                disabled={!selectedNFTs.length || !recipientInfo || executing || loadingRecipient || (sponsored && !sponsorUrl.trim())}
                 className="w-full"
               >
                 <Package className="w-4 h-4 mr-2" />
@@ -437,6 +542,15 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
                  loadingRecipient ? 'Checking recipient...' : 
                  recipientInfo?.hasKiosk ? 'Transfer to Kiosk' : 'Create Kiosk & Transfer'}
               </Button>
+              <Button
+                variant="outline"
+                onClick={handleExportKioskTransfer}
+                disabled={!selectedNFTs.length || !recipientInfo || executing || loadingRecipient || !account?.address}
+                className="w-full"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export Unsigned Transfer
+              </Button>
             </TabsContent>
 
             <TabsContent value="bulk" className="space-y-4">
@@ -529,6 +643,15 @@ export function TransferInterface({ nfts, kiosks, onTransferComplete }: Transfer
                 <Code className="w-4 h-4 mr-2" />
                 {executing ? 'Executing...' : 'Execute Custom PTB'}
               </Button>
+              <Button
+                variant="outline"
+                onClick={handleExportCustomPtb}
+                disabled={!customPtb.trim() || executing || !account?.address}
+                className="w-full"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export Unsigned PTB
+              </Button>
             </TabsContent>
           </Tabs>
         </CardContent>
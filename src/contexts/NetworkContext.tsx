@@ -1,10 +1,26 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import type { SuiClient } from '@mysten/sui/client';
+import {
+  getNetworkConfig,
+  listNetworks,
+  removeNetwork as forgetNetwork,
+  saveNetwork,
+  type NetworkConfig,
+  type NetworkType,
+} from '@/lib/networks';
+import { forgetSuiClient, getSuiClient } from '@/lib/sui-client';
+import { clearMoveAbiCache } from '@/lib/move-abi';
 
-export type NetworkType = 'mainnet' | 'testnet' | 'devnet';
+export type { NetworkConfig, NetworkType };
 
 interface NetworkContextType {
   currentNetwork: NetworkType;
+  currentConfig: NetworkConfig;
+  client: SuiClient; // Client for the current network; pass it to every query so a switch reaches them all
+  networks: NetworkConfig[];
   setNetwork: (network: NetworkType) => void;
+  addNetwork: (config: NetworkConfig) => void; // Throws NetworkConfigError when the config is invalid
+  removeNetwork: (network: NetworkType) => void;
   isChangingNetwork: boolean;
 }
 
@@ -16,13 +32,14 @@ interface NetworkProviderProps {
 
 export function NetworkProvider({ children }: NetworkProviderProps) {
   const [currentNetwork, setCurrentNetwork] = useState<NetworkType>('mainnet');
+  const [networks, setNetworks] = useState<NetworkConfig[]>(() => listNetworks());
   const [isChangingNetwork, setIsChangingNetwork] = useState(false);
 
   useEffect(() => {
     // Load saved network preference or default to mainnet
     const savedNetwork = localStorage.getItem('sui-network');
-    if (savedNetwork && ['mainnet', 'testnet', 'devnet'].includes(savedNetwork)) {
-      setCurrentNetwork(savedNetwork as NetworkType);
+    if (savedNetwork && getNetworkConfig(savedNetwork)) {
+      setCurrentNetwork(savedNetwork);
     }
   }, []);
 
@@ -36,11 +53,44 @@ export function NetworkProvider({ children }: NetworkProviderProps) {
     }
   };
 
+  const addNetwork = (config: NetworkConfig) => {
+    // An edited network may point at another chain, where the same package IDs mean other packages
+    clearMoveAbiCache(saveNetwork(config).name);
+    setNetworks(listNetworks());
+  };
+
+  const removeNetwork = (network: NetworkType) => {
+    forgetNetwork(network);
+    forgetSuiClient(network);
+    clearMoveAbiCache(network);
+    setNetworks(listNetworks());
+    if (network === currentNetwork) {
+      setNetwork('mainnet');
+    }
+  };
+
+  const selectedConfig = networks.find(network => network.name === currentNetwork);
+  const currentConfig = selectedConfig ?? networks[0];
+  const client = useMemo(() => getSuiClient(currentConfig), [currentConfig]);
+
+  // An unknown or removed network falls back to the first one; the selection follows so name and config agree
+  useEffect(() => {
+    if (!selectedConfig) {
+      setCurrentNetwork(currentConfig.name);
+      localStorage.setItem('sui-network', currentConfig.name);
+    }
+  }, [selectedConfig, currentConfig]);
+
   return (
-    <NetworkContext.Provider value={{ 
-      currentNetwork, 
-      setNetwork, 
-      isChangingNetwork 
+    <NetworkContext.Provider value={{
+      currentNetwork: currentConfig.name,
+      currentConfig,
+      client,
+      networks,
+      setNetwork,
+      addNetwork,
+      removeNetwork,
+      isChangingNetwork
     }}>
       {children}
     </NetworkContext.Provider>
@@ -0,0 +1,13 @@
+import { useCallback } from "react";
+import { useWallet } from "@suiet/wallet-kit";
+import { useNetwork } from "@/contexts/NetworkContext";
+import { assertWalletChain } from "@/lib/networks";
+
+// Call before asking the wallet to sign; throws WrongChainError when the wallet is on another chain than the selected network
+export function useWalletChainCheck() {
+  const { account } = useWallet();
+  const { currentConfig } = useNetwork();
+  return useCallback(() => assertWalletChain(currentConfig, account?.chains, () => window.confirm(
+    `Your wallet does not say which network it is on. Sign only if it is set to ${currentConfig.name} (${currentConfig.chain}). Continue?`
+  )), [account, currentConfig]);
+}
@@ -0,0 +1,23 @@
+// RPC Fixtures - SuiClients for tests that replay the JSON fixtures in this folder, or re-record them from a live node
+import { readFileSync, writeFileSync } from "node:fs";
+import { afterAll } from "vitest";
+import { SuiClient, SuiHTTPTransport } from "@mysten/sui/client";
+import { RecordingTransport, ReplayTransport, type RpcFixture } from "../recorded-transport";
+
+// A fullnode URL to record from instead of replaying, e.g. SUI_RECORD_RPC=https://fullnode.testnet.sui.io:443
+const RECORD_RPC = process.env.SUI_RECORD_RPC;
+
+/**
+ * Returns a client that answers from `<name>.json`. With SUI_RECORD_RPC set, the client talks to that node instead
+ * and the fixture is rewritten with its responses once the test file finishes.
+ */
+export function fixtureClient(name: string): { client: SuiClient; transport: ReplayTransport | RecordingTransport } {
+  const file = new URL(`./${name}.json`, import.meta.url);
+  if (RECORD_RPC) {
+    const transport = new RecordingTransport(new SuiHTTPTransport({ url: RECORD_RPC }));
+    afterAll(() => writeFileSync(file, `${JSON.stringify(transport.fixture, null, 2)}\n`));
+    return { client: new SuiClient({ transport }), transport };
+  }
+  const transport = new ReplayTransport(JSON.parse(readFileSync(file, "utf8")) as RpcFixture);
+  return { client: new SuiClient({ transport }), transport };
+}
@@ -0,0 +1,156 @@
+// Abort Codes - Names Move abort codes after the error constants of the module that aborted
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { parseMoveAbort, type MoveAbort } from "./transaction-simulator";
+
+export type ErrorMap = Record<number, string>; // Abort code to error constant name
+
+export interface ModuleErrorMap {
+  packageId: string;
+  module: string;
+  errors: ErrorMap;
+}
+
+export class ErrorMapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ErrorMapError";
+  }
+}
+
+// Error constants of the framework modules kiosk transfers go through
+export const FRAMEWORK_ERROR_MAPS: ModuleErrorMap[] = [
+  {
+    packageId: "0x2",
+    module: "kiosk",
+    errors: {
+      0: "ENotOwner",
+      1: "EIncorrectAmount",
+      2: "ENotEnough",
+      3: "ENotEmpty",
+      4: "EListedExclusively",
+      5: "EWrongKiosk",
+      6: "EAlreadyListed",
+      7: "EUidAccessNotAllowed",
+      8: "EItemLocked",
+      9: "EItemIsListed",
+      10: "EItemMismatch",
+      11: "EItemNotFound",
+      12: "ENotListed",
+    },
+  },
+  {
+    packageId: "0x2",
+    module: "transfer_policy",
+    errors: {
+      0: "EPolicyNotSatisfied",
+      1: "EIllegalRule",
+      2: "EUnknownRequirement",
+      3: "ERuleAlreadySet",
+      4: "ENotOwner",
+      5: "ENotEnough",
+    },
+  },
+];
+
+const STORAGE_KEY = "ptb-error-maps";
+
+function moduleKey(packageId: string, module: string): string {
+  return `${normalizeSuiAddress(packageId)}::${module}`;
+}
+
+function loadUserMaps(): Map<string, ModuleErrorMap> {
+  const maps = new Map<string, ModuleErrorMap>();
+  try {
+    const saved: ModuleErrorMap[] = JSON.parse(globalThis.localStorage?.getItem(STORAGE_KEY) ?? "[]");
+    for (const map of saved) {
+      maps.set(moduleKey(map.packageId, map.module), map);
+    }
+  } catch {
+    // A corrupt entry only loses the user's names; codes are still shown
+  }
+  return maps;
+}
+
+const userMaps = loadUserMaps();
+
+function saveUserMaps(): void {
+  globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(Array.from(userMaps.values())));
+}
+
+/**
+ * Reads error constants pasted from Move source (`const ENotAdmin: u64 = 0;`) or written as `ENotAdmin = 0`,
+ * one per line. Lines without a constant, such as doc comments, are skipped.
+ */
+export function parseErrorConstants(text: string): ErrorMap {
+  const errors: ErrorMap = {};
+  for (const line of text.split("\n")) {
+    const match = line.match(/^\s*(?:const\s+)?([A-Za-z_]\w*)\s*(?::\s*u64\s*)?=\s*(\d+)/);
+    if (match) {
+      errors[Number(match[2])] = match[1];
+    }
+  }
+  if (Object.keys(errors).length === 0) {
+    throw new ErrorMapError("No error constants found; write one per line, e.g. `const ENotAdmin: u64 = 0;`");
+  }
+  return errors;
+}
+
+/**
+ * Adds or replaces the names for one module's abort codes and remembers them in the browser.
+ */
+export function registerErrorMap({ packageId, module, errors }: ModuleErrorMap): void {
+  if (!/^[A-Za-z_]\w*$/.test(module)) {
+    throw new ErrorMapError(`'${module}' is not a Move module name`);
+  }
+  const normalized = { packageId: normalizeSuiAddress(packageId), module, errors };
+  userMaps.set(moduleKey(packageId, module), normalized);
+  saveUserMaps();
+}
+
+export function unregisterErrorMap(packageId: string, module: string): void {
+  userMaps.delete(moduleKey(packageId, module));
+  saveUserMaps();
+}
+
+export function registeredErrorMaps(): ModuleErrorMap[] {
+  return Array.from(userMaps.values());
+}
+
+/**
+ * The constant name for an abort, from the user's maps first and then the framework's.
+ */
+export function abortName(abort: MoveAbort): string | undefined {
+  if (!abort.packageId || !abort.module) {
+    return undefined;
+  }
+  const key = moduleKey(abort.packageId, abort.module);
+  const map = userMaps.get(key)
+    ?? FRAMEWORK_ERROR_MAPS.find(framework => moduleKey(framework.packageId, framework.module) === key);
+  return map?.errors[abort.code];
+}
+
+/**
+ * Describes an abort as a readable reason, e.g. "ENotOwner in kiosk::take".
+ */
+export function describeAbort(abort: MoveAbort): string {
+  const reason = abortName(abort) ?? `Abort code ${abort.code}`;
+  if (!abort.module) {
+    return reason;
+  }
+  return `${reason} in ${abort.module}${abort.function ? `::${abort.function}` : ""}`;
+}
+
+/**
+ * Turns a failed transaction's error into a message, naming the abort when the error is a Move abort.
+ */
+export function explainError(error: unknown, fallback = "Transaction failed"): string {
+  // Wallets reject with Errors, plain strings or objects that carry a message
+  const message = typeof error === "string" ? error
+    : typeof (error as { message?: unknown } | null)?.message === "string" ? (error as { message: string }).message
+    : "";
+  const abort = message ? parseMoveAbort(message) : undefined;
+  if (abort) {
+    return `${describeAbort(abort)}${abort.command !== undefined ? ` (command ${abort.command + 1})` : ""}`;
+  }
+  return message || fallback;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { readCliOptions, readParams, resolveSender, UsageError } from "./cli-options";
+import { getNetworkConfig } from "./networks";
+
+const SENDER = "0x" + "0".repeat(62) + "ab";
+
+describe("readCliOptions", () => {
+  it("dry-runs on mainnet by default", () => {
+    const options = readCliOptions(["ptb.json"]);
+    expect(options).toMatchObject({ file: "ptb.json", mode: "dry-run", params: {}, abi: true, quiet: false });
+    expect(options!.network.rpcUrl).toBe(getNetworkConfig("mainnet")!.rpcUrl);
+  });
+
+  it("takes the mode from --export and --execute", () => {
+    expect(readCliOptions(["ptb.json", "--export", "-"])).toMatchObject({ mode: "export", exportFile: "-" });
+    expect(readCliOptions(["ptb.json", "--execute", "--keystore", "sui.keystore"]))
+      .toMatchObject({ mode: "execute", keystore: "sui.keystore" });
+  });
+
+  it("returns null for --help without checking the other options", () => {
+    expect(readCliOptions(["--help"])).toBeNull();
+  });
+
+  it("rejects combinations that cannot run", () => {
+    expect(() => readCliOptions([])).toThrow("Give exactly one PTB JSON file");
+    expect(() => readCliOptions(["a.json", "b.json"])).toThrow("Give exactly one PTB JSON file");
+    expect(() => readCliOptions(["ptb.json", "--export", "out.json", "--execute", "--keystore", "k"]))
+      .toThrow("--export and --execute cannot be combined");
+    expect(() => readCliOptions(["ptb.json", "--execute"])).toThrow("--execute needs a --keystore to sign with");
+  });
+
+  it("names a custom --rpc endpoint and rejects unknown networks", () => {
+    expect(readCliOptions(["ptb.json", "--rpc", "http://localhost:9000"])!.network)
+      .toEqual({ name: "custom", rpcUrl: "http://localhost:9000" });
+    expect(readCliOptions(["ptb.json", "--network", "local", "--rpc", "http://localhost:9000"])!.network.name).toBe("local");
+    expect(() => readCliOptions(["ptb.json", "--network", "nowhere"])).toThrow(UsageError);
+  });
+
+  it("leaves unknown flags to parseArgs", () => {
+    expect(() => readCliOptions(["ptb.json", "--nope"])).toThrow(expect.objectContaining({ code: "ERR_PARSE_ARGS_UNKNOWN_OPTION" }));
+  });
+});
+
+describe("readParams", () => {
+  it("splits each pair at its first '='", () => {
+    expect(readParams(["amount=5", "memo=a=b", "empty="])).toEqual({ amount: "5", memo: "a=b", empty: "" });
+  });
+
+  it("rejects pairs without a name", () => {
+    expect(() => readParams(["amount"])).toThrow("--param 'amount' should be written as name=value");
+    expect(() => readParams(["=5"])).toThrow("--param '=5' should be written as name=value");
+  });
+});
+
+describe("resolveSender", () => {
+  it("falls back to the keystore key's address", () => {
+    expect(resolveSender("dry-run", undefined, SENDER)).toBe(SENDER);
+    expect(() => resolveSender("dry-run", undefined, undefined)).toThrow("Pass --sender, or a --keystore whose key is the sender");
+  });
+
+  it("accepts the key's address in any form when executing", () => {
+    expect(resolveSender("execute", "0xab", SENDER)).toBe("0xab");
+    expect(resolveSender("execute", SENDER.toUpperCase().replace("0X", "0x"), SENDER)).toBe(SENDER.toUpperCase().replace("0X", "0x"));
+  });
+
+  it("rejects a different sender only when executing", () => {
+    expect(resolveSender("export", "0x2", SENDER)).toBe("0x2");
+    expect(() => resolveSender("execute", "0x2", SENDER)).toThrow(`--sender 0x2 is not the keystore key's address ${SENDER}`);
+  });
+});
@@ -0,0 +1,112 @@
+// CLI Options - Reads the ptb command's arguments and checks how they combine
+import { parseArgs } from "node:util";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { getNetworkConfig, listNetworks } from "./networks";
+import { type PtbParamValues } from "./ptb-params";
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export type CliMode = "dry-run" | "export" | "execute";
+
+export interface CliOptions {
+  file: string;
+  mode: CliMode;
+  network: { name: string; rpcUrl: string };
+  params: PtbParamValues;
+  sender?: string;
+  // File the envelope is written to; "-" prints it only
+  exportFile?: string;
+  keystore?: string;
+  address?: string;
+  abi: boolean;
+  quiet: boolean;
+}
+
+export function readParams(pairs: string[]): PtbParamValues {
+  const params: PtbParamValues = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf("=");
+    if (separator < 1) {
+      throw new UsageError(`--param '${pair}' should be written as name=value`);
+    }
+    params[pair.slice(0, separator)] = pair.slice(separator + 1);
+  }
+  return params;
+}
+
+/**
+ * Reads the command line, or returns null for --help. Throws UsageError, or parseArgs' ERR_PARSE_ARGS
+ * errors, on bad usage.
+ */
+export function readCliOptions(argv: string[]): CliOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      network: { type: "string" },
+      rpc: { type: "string" },
+      param: { type: "string", multiple: true, default: [] },
+      sender: { type: "string" },
+      export: { type: "string" },
+      execute: { type: "boolean", default: false },
+      keystore: { type: "string" },
+      address: { type: "string" },
+      "no-abi": { type: "boolean", default: false },
+      quiet: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    return null;
+  }
+  if (positionals.length !== 1) {
+    throw new UsageError("Give exactly one PTB JSON file");
+  }
+  if (values.export !== undefined && values.execute) {
+    throw new UsageError("--export and --execute cannot be combined");
+  }
+  if (values.execute && !values.keystore) {
+    throw new UsageError("--execute needs a --keystore to sign with");
+  }
+
+  const network = values.rpc
+    ? { name: values.network ?? "custom", rpcUrl: values.rpc }
+    : getNetworkConfig(values.network ?? "mainnet");
+  if (!network) {
+    throw new UsageError(`Unknown network '${values.network}'; use one of ${listNetworks().map(known => known.name).join(", ")} or --rpc`);
+  }
+
+  return {
+    file: positionals[0],
+    mode: values.execute ? "execute" : values.export !== undefined ? "export" : "dry-run",
+    network: { name: network.name, rpcUrl: network.rpcUrl },
+    params: readParams(values.param),
+    sender: values.sender,
+    exportFile: values.export,
+    keystore: values.keystore,
+    address: values.address,
+    abi: !values["no-abi"],
+    quiet: values.quiet,
+  };
+}
+
+/**
+ * The address to review and send as: --sender, or else the keystore key's. Executing signs with the key,
+ * so there the two must be the same address, however either is written.
+ */
+export function resolveSender(mode: CliMode, sender: string | undefined, keyAddress: string | undefined): string {
+  const resolved = sender ?? keyAddress;
+  if (!resolved) {
+    throw new UsageError("Pass --sender, or a --keystore whose key is the sender");
+  }
+  if (mode === "execute" && normalizeSuiAddress(resolved) !== normalizeSuiAddress(keyAddress!)) {
+    throw new UsageError(`--sender ${resolved} is not the keystore key's address ${keyAddress}`);
+  }
+  return resolved;
+}
@@ -5,17 +5,44 @@ export const EXAMPLE_TEMPLATES = {
     name: "Split & Transfer Coins",
     description: "Split SUI coins and transfer to recipient",
     json: JSON.stringify({
+      "params": {
+        "coin": { "type": "objectId", "description": "Coin to split" },
+        "recipient": { "type": "address", "description": "Address receiving the objects" }
+      },
       "commands": [
         {
           "type": "splitCoins",
-          "coin": { "type": "object", "value": "0x123...abc" },
+          "coin": { "type": "param", "name": "coin" },
           "amounts": [1000000000],
           "assign": "split_result"
         },
         {
           "type": "transferObjects",
           "objects": [{ "type": "result", "ref": "split_result" }],
-          "recipient": "0x456...def"
+          "recipient": { "type": "param", "name": "recipient" }
+        }
+      ]
+    }, null, 2)
+  },
+
+  splitFromGas: {
+    name: "Split from Gas & Transfer",
+    description: "Split 1 SUI off the gas coin and send it",
+    json: JSON.stringify({
+      "params": {
+        "recipient": { "type": "address", "description": "Address receiving the objects" }
+      },
+      "commands": [
+        {
+          "type": "splitCoins",
+          "coin": { "type": "gas" },
+          "amounts": [1000000000],
+          "assign": "payment"
+        },
+        {
+          "type": "transferObjects",
+          "objects": [{ "type": "result", "ref": "payment" }],
+          "recipient": { "type": "param", "name": "recipient" }
         }
       ]
     }, null, 2)
@@ -25,13 +52,16 @@ export const EXAMPLE_TEMPLATES = {
     name: "Move Call Example",
     description: "Call a Sui Move function with arguments",
     json: JSON.stringify({
+      "params": {
+        "recipient": { "type": "address", "description": "Address receiving the coins" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0x2::coin::mint_and_transfer",
           "arguments": [
             { "type": "pure", "value": 1000000 },
-            { "type": "pure", "value": "0x789...ghi" }
+            { "type": "param", "name": "recipient" }
           ],
           "typeArguments": ["0x2::sui::SUI"],
           "assign": "minted_coin"
@@ -61,10 +91,14 @@ export const EXAMPLE_TEMPLATES = {
     name: "Complex Multi-Step",
     description: "Multiple commands with result chaining",
     json: JSON.stringify({
+      "params": {
+        "coin": { "type": "objectId", "description": "Coin to split" },
+        "recipient": { "type": "address", "description": "Address receiving the coins" }
+      },
       "commands": [
         {
           "type": "splitCoins",
-          "coin": { "type": "object", "value": "0x111...222" },
+          "coin": { "type": "param", "name": "coin" },
           "amounts": [500000000, 300000000],
           "assign": "split_coins"
         },
@@ -72,15 +106,48 @@ export const EXAMPLE_TEMPLATES = {
           "type": "moveCall",
           "target": "0x2::pay::split_and_transfer",
           "arguments": [
-            { "type": "result", "ref": "split_coins" },
-            { "type": "pure", "value": "0x333...444" }
+            { "type": "result", "ref": "split_coins", "index": 0 },
+            { "type": "param", "name": "recipient" }
           ],
           "typeArguments": ["0x2::sui::SUI"]
         },
         {
           "type": "transferObjects",
-          "objects": [{ "type": "result", "ref": "split_coins" }],
-          "recipient": "0x555...666"
+          "objects": [{ "type": "result", "ref": "split_coins", "index": 1 }],
+          "recipient": { "type": "param", "name": "recipient" }
+        }
+      ]
+    }, null, 2)
+  },
+
+  kioskCreate: {
+    name: "Kiosk: Create",
+    description: "Create a kiosk, share it and keep the owner cap",
+    json: JSON.stringify({
+      "params": {
+        "recipient": { "type": "address", "description": "Address receiving the objects" }
+      },
+      "commands": [
+        {
+          "type": "moveCall",
+          "target": "0x2::kiosk::new",
+          "arguments": [],
+          "assign": ["kiosk", "kiosk_cap"]
+        },
+        {
+          "type": "moveCall",
+          "target": "0x2::transfer::public_share_object",
+          "arguments": [
+            { "type": "result", "ref": "kiosk" }
+          ],
+          "typeArguments": ["0x2::kiosk::Kiosk"]
+        },
+        {
+          "type": "transferObjects",
+          "objects": [
+            { "type": "result", "ref": "kiosk_cap" }
+          ],
+          "recipient": { "type": "param", "name": "recipient" }
         }
       ]
     }, null, 2)
@@ -90,27 +157,34 @@ export const EXAMPLE_TEMPLATES = {
     name: "Kiosk: Place & List",
     description: "Place item in kiosk and list for sale",
     json: JSON.stringify({
+      "params": {
+        "kiosk": { "type": "objectId", "description": "Kiosk" },
+        "kiosk_cap": { "type": "objectId", "description": "KioskOwnerCap of the kiosk" },
+        "item": { "type": "objectId", "description": "Item to place in the kiosk" },
+        "item_id": { "type": "address", "description": "ID of the item" },
+        "item_type": { "type": "typeTag", "description": "Item type, e.g. 0xPACKAGE::module::Item" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0x2::kiosk::place",
           "arguments": [
-            { "type": "object", "value": "0xKIOSK_ID" },
-            { "type": "object", "value": "0xKIOSK_CAP" },
-            { "type": "object", "value": "0xITEM_TO_PLACE" }
+            { "type": "param", "name": "kiosk" },
+            { "type": "param", "name": "kiosk_cap" },
+            { "type": "param", "name": "item" }
           ],
-          "typeArguments": ["0xPACKAGE::module::ItemType"]
+          "typeArguments": [{ "type": "param", "name": "item_type" }]
         },
         {
           "type": "moveCall",
           "target": "0x2::kiosk::list",
           "arguments": [
-            { "type": "object", "value": "0xKIOSK_ID" },
-            { "type": "object", "value": "0xKIOSK_CAP" },
-            { "type": "pure", "value": "0xITEM_ID" },
+            { "type": "param", "name": "kiosk" },
+            { "type": "param", "name": "kiosk_cap" },
+            { "type": "param", "name": "item_id" },
             { "type": "pure", "value": 1000000000 }
           ],
-          "typeArguments": ["0xPACKAGE::module::ItemType"]
+          "typeArguments": [{ "type": "param", "name": "item_type" }]
         }
       ]
     }, null, 2)
@@ -120,22 +194,29 @@ export const EXAMPLE_TEMPLATES = {
     name: "Kiosk: Purchase Item",
     description: "Purchase an item from a kiosk",
     json: JSON.stringify({
+      "params": {
+        "kiosk": { "type": "objectId", "description": "Kiosk" },
+        "item_id": { "type": "address", "description": "ID of the item" },
+        "payment": { "type": "objectId", "description": "Coin paying for the item" },
+        "buyer": { "type": "address", "description": "Address receiving the purchased item" },
+        "item_type": { "type": "typeTag", "description": "Item type, e.g. 0xPACKAGE::module::Item" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0x2::kiosk::purchase",
           "arguments": [
-            { "type": "object", "value": "0xKIOSK_ID" },
-            { "type": "pure", "value": "0xITEM_ID" },
-            { "type": "object", "value": "0xPAYMENT_COIN" }
+            { "type": "param", "name": "kiosk" },
+            { "type": "param", "name": "item_id" },
+            { "type": "param", "name": "payment" }
           ],
-          "typeArguments": ["0xPACKAGE::module::ItemType"],
+          "typeArguments": [{ "type": "param", "name": "item_type" }],
           "assign": "purchased_item"
         },
         {
           "type": "transferObjects",
           "objects": [{ "type": "result", "ref": "purchased_item" }],
-          "recipient": "0xBUYER_ADDRESS"
+          "recipient": { "type": "param", "name": "buyer" }
         }
       ]
     }, null, 2)
@@ -145,16 +226,22 @@ export const EXAMPLE_TEMPLATES = {
     name: "Kiosk: Delist Item",
     description: "Remove item from kiosk listing",
     json: JSON.stringify({
+      "params": {
+        "kiosk": { "type": "objectId", "description": "Kiosk" },
+        "kiosk_cap": { "type": "objectId", "description": "KioskOwnerCap of the kiosk" },
+        "item_id": { "type": "address", "description": "ID of the item" },
+        "item_type": { "type": "typeTag", "description": "Item type, e.g. 0xPACKAGE::module::Item" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0x2::kiosk::delist",
           "arguments": [
-            { "type": "object", "value": "0xKIOSK_ID" },
-            { "type": "object", "value": "0xKIOSK_CAP" },
-            { "type": "pure", "value": "0xITEM_ID" }
+            { "type": "param", "name": "kiosk" },
+            { "type": "param", "name": "kiosk_cap" },
+            { "type": "param", "name": "item_id" }
           ],
-          "typeArguments": ["0xPACKAGE::module::ItemType"]
+          "typeArguments": [{ "type": "param", "name": "item_type" }]
         }
       ]
     }, null, 2)
@@ -164,13 +251,18 @@ export const EXAMPLE_TEMPLATES = {
     name: "Kiosk: Withdraw Profits",
     description: "Withdraw profits from kiosk sales",
     json: JSON.stringify({
+      "params": {
+        "kiosk": { "type": "objectId", "description": "Kiosk" },
+        "kiosk_cap": { "type": "objectId", "description": "KioskOwnerCap of the kiosk" },
+        "owner": { "type": "address", "description": "Address receiving the unstaked NFT" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0x2::kiosk::withdraw",
           "arguments": [
-            { "type": "object", "value": "0xKIOSK_ID" },
-            { "type": "object", "value": "0xKIOSK_CAP" },
+            { "type": "param", "name": "kiosk" },
+            { "type": "param", "name": "kiosk_cap" },
             { "type": "pure", "value": 1000000000 }
           ],
           "typeArguments": ["0x2::sui::SUI"],
@@ -179,7 +271,7 @@ export const EXAMPLE_TEMPLATES = {
         {
           "type": "transferObjects",
           "objects": [{ "type": "result", "ref": "withdrawn_profits" }],
-          "recipient": "0xOWNER_ADDRESS"
+          "recipient": { "type": "param", "name": "owner" }
         }
       ]
     }, null, 2)
@@ -189,14 +281,18 @@ export const EXAMPLE_TEMPLATES = {
     name: "Transfer Policy: Create",
     description: "Create a transfer policy for an NFT collection",
     json: JSON.stringify({
+      "params": {
+        "publisher": { "type": "objectId", "description": "Publisher of the item type" },
+        "nft_type": { "type": "typeTag", "description": "NFT type, e.g. 0xPACKAGE::nft::NFT" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0x2::transfer_policy::new",
           "arguments": [
-            { "type": "pure", "value": "0xPUBLISHER_OBJECT_ID" }
+            { "type": "param", "name": "publisher" }
           ],
-          "typeArguments": ["0xPACKAGE::module::NFTType"],
+          "typeArguments": [{ "type": "param", "name": "nft_type" }],
           "assign": "policy"
         },
         {
@@ -205,7 +301,7 @@ export const EXAMPLE_TEMPLATES = {
           "arguments": [
             { "type": "result", "ref": "policy" }
           ],
-          "typeArguments": ["0xPACKAGE::module::NFTType"]
+          "typeArguments": [{ "type": "param", "name": "nft_type" }]
         }
       ]
     }, null, 2)
@@ -215,17 +311,23 @@ export const EXAMPLE_TEMPLATES = {
     name: "Transfer Policy: Add Rule",
     description: "Add a royalty rule to transfer policy",
     json: JSON.stringify({
+      "params": {
+        "policy": { "type": "objectId", "description": "TransferPolicy of the item type" },
+        "policy_cap": { "type": "objectId", "description": "TransferPolicyCap of the policy" },
+        "rule_config": { "type": "address", "description": "Rule configuration" },
+        "nft_type": { "type": "typeTag", "description": "NFT type, e.g. 0xPACKAGE::nft::NFT" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0x2::transfer_policy::add_rule",
           "arguments": [
             { "type": "pure", "value": "0x2::royalty_rule::Rule" },
-            { "type": "object", "value": "0xPOLICY_ID" },
-            { "type": "object", "value": "0xPOLICY_CAP" },
-            { "type": "pure", "value": "0xCONFIG_OBJECT" }
+            { "type": "param", "name": "policy" },
+            { "type": "param", "name": "policy_cap" },
+            { "type": "param", "name": "rule_config" }
           ],
-          "typeArguments": ["0xPACKAGE::module::NFTType", "0x2::royalty_rule::Rule"]
+          "typeArguments": [{ "type": "param", "name": "nft_type" }, "0x2::royalty_rule::Rule"]
         }
       ]
     }, null, 2)
@@ -235,18 +337,25 @@ export const EXAMPLE_TEMPLATES = {
     name: "NFT Staking: Stake NFT",
     description: "Stake NFT from kiosk into staking contract vault",
     json: JSON.stringify({
+      "params": {
+        "vault": { "type": "objectId", "description": "Staking vault" },
+        "kiosk": { "type": "objectId", "description": "Your kiosk" },
+        "kiosk_cap": { "type": "objectId", "description": "KioskOwnerCap of your kiosk" },
+        "nft": { "type": "objectId", "description": "NFT to stake" },
+        "nft_type": { "type": "typeTag", "description": "NFT type, e.g. 0xPACKAGE::nft::NFT" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0xSTAKING_PACKAGE::staking::stake_nft",
           "arguments": [
-            { "type": "object", "value": "0xSTAKING_VAULT" },
-            { "type": "object", "value": "0xUSER_KIOSK" },
-            { "type": "object", "value": "0xUSER_KIOSK_CAP" },
-            { "type": "object", "value": "0xNFT_TO_STAKE" },
+            { "type": "param", "name": "vault" },
+            { "type": "param", "name": "kiosk" },
+            { "type": "param", "name": "kiosk_cap" },
+            { "type": "param", "name": "nft" },
             { "type": "pure", "value": 30 }
           ],
-          "typeArguments": ["0xNFT_PACKAGE::nft::NFT"],
+          "typeArguments": [{ "type": "param", "name": "nft_type" }],
           "assign": "stake_position"
         }
       ]
@@ -257,28 +366,35 @@ export const EXAMPLE_TEMPLATES = {
     name: "NFT Staking: Unstake NFT",
     description: "Unstake NFT from staking contract vault",
     json: JSON.stringify({
+      "params": {
+        "vault": { "type": "objectId", "description": "Staking vault" },
+        "kiosk": { "type": "objectId", "description": "Your kiosk" },
+        "kiosk_cap": { "type": "objectId", "description": "KioskOwnerCap of your kiosk" },
+        "stake_position": { "type": "objectId", "description": "Your stake position" },
+        "nft_type": { "type": "typeTag", "description": "NFT type, e.g. 0xPACKAGE::nft::NFT" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0xSTAKING_PACKAGE::staking::unstake_nft",
           "arguments": [
-            { "type": "object", "value": "0xSTAKING_VAULT" },
-            { "type": "object", "value": "0xUSER_KIOSK" },
-            { "type": "object", "value": "0xUSER_KIOSK_CAP" },
-            { "type": "object", "value": "0xSTAKE_POSITION" }
+            { "type": "param", "name": "vault" },
+            { "type": "param", "name": "kiosk" },
+            { "type": "param", "name": "kiosk_cap" },
+            { "type": "param", "name": "stake_position" }
           ],
-          "typeArguments": ["0xNFT_PACKAGE::nft::NFT"],
+          "typeArguments": [{ "type": "param", "name": "nft_type" }],
           "assign": "unstaked_nft"
         },
         {
           "type": "moveCall",
           "target": "0x2::kiosk::place",
           "arguments": [
-            { "type": "object", "value": "0xUSER_KIOSK" },
-            { "type": "object", "value": "0xUSER_KIOSK_CAP" },
+            { "type": "param", "name": "kiosk" },
+            { "type": "param", "name": "kiosk_cap" },
             { "type": "result", "ref": "unstaked_nft" }
           ],
-          "typeArguments": ["0xNFT_PACKAGE::nft::NFT"]
+          "typeArguments": [{ "type": "param", "name": "nft_type" }]
         }
       ]
     }, null, 2)
@@ -288,21 +404,27 @@ export const EXAMPLE_TEMPLATES = {
     name: "NFT Staking: Claim Rewards",
     description: "Claim rewards from NFT staking",
     json: JSON.stringify({
+      "params": {
+        "vault": { "type": "objectId", "description": "Staking vault" },
+        "stake_position": { "type": "objectId", "description": "Your stake position" },
+        "recipient": { "type": "address", "description": "Address receiving the objects" },
+        "nft_type": { "type": "typeTag", "description": "NFT type, e.g. 0xPACKAGE::nft::NFT" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0xSTAKING_PACKAGE::staking::claim_rewards",
           "arguments": [
-            { "type": "object", "value": "0xSTAKING_VAULT" },
-            { "type": "object", "value": "0xSTAKE_POSITION" }
+            { "type": "param", "name": "vault" },
+            { "type": "param", "name": "stake_position" }
           ],
-          "typeArguments": ["0xNFT_PACKAGE::nft::NFT"],
+          "typeArguments": [{ "type": "param", "name": "nft_type" }],
           "assign": "rewards"
         },
         {
           "type": "transferObjects",
           "objects": [{ "type": "result", "ref": "rewards" }],
-          "recipient": "0xUSER_ADDRESS"
+          "recipient": { "type": "param", "name": "recipient" }
         }
       ]
     }, null, 2)
@@ -312,56 +434,64 @@ export const EXAMPLE_TEMPLATES = {
     name: "NFT Staking: Complete Flow",
     description: "Stake NFT, claim rewards, and unstake in one transaction",
     json: JSON.stringify({
+      "params": {
+        "vault": { "type": "objectId", "description": "Staking vault" },
+        "kiosk": { "type": "objectId", "description": "Your kiosk" },
+        "kiosk_cap": { "type": "objectId", "description": "KioskOwnerCap of your kiosk" },
+        "nft": { "type": "objectId", "description": "NFT to stake" },
+        "recipient": { "type": "address", "description": "Address receiving the objects" },
+        "nft_type": { "type": "typeTag", "description": "NFT type, e.g. 0xPACKAGE::nft::NFT" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0xSTAKING_PACKAGE::staking::stake_nft",
           "arguments": [
-            { "type": "object", "value": "0xSTAKING_VAULT" },
-            { "type": "object", "value": "0xUSER_KIOSK" },
-            { "type": "object", "value": "0xUSER_KIOSK_CAP" },
-            { "type": "object", "value": "0xNFT_TO_STAKE" },
+            { "type": "param", "name": "vault" },
+            { "type": "param", "name": "kiosk" },
+            { "type": "param", "name": "kiosk_cap" },
+            { "type": "param", "name": "nft" },
             { "type": "pure", "value": 30 }
           ],
-          "typeArguments": ["0xNFT_PACKAGE::nft::NFT"],
+          "typeArguments": [{ "type": "param", "name": "nft_type" }],
           "assign": "stake_position"
         },
         {
           "type": "moveCall",
           "target": "0xSTAKING_PACKAGE::staking::claim_rewards",
           "arguments": [
-            { "type": "object", "value": "0xSTAKING_VAULT" },
+            { "type": "param", "name": "vault" },
             { "type": "result", "ref": "stake_position" }
           ],
-          "typeArguments": ["0xNFT_PACKAGE::nft::NFT"],
+          "typeArguments": [{ "type": "param", "name": "nft_type" }],
           "assign": "staking_rewards"
         },
         {
           "type": "transferObjects",
           "objects": [{ "type": "result", "ref": "staking_rewards" }],
-          "recipient": "0xUSER_ADDRESS"
+          "recipient": { "type": "param", "name": "recipient" }
         },
         {
           "type": "moveCall",
           "target": "0xSTAKING_PACKAGE::staking::unstake_nft",
           "arguments": [
-            { "type": "object", "value": "0xSTAKING_VAULT" },
-            { "type": "object", "value": "0xUSER_KIOSK" },
-            { "type": "object", "value": "0xUSER_KIOSK_CAP" },
+            { "type": "param", "name": "vault" },
+            { "type": "param", "name": "kiosk" },
+            { "type": "param", "name": "kiosk_cap" },
             { "type": "result", "ref": "stake_position" }
           ],
-          "typeArguments": ["0xNFT_PACKAGE::nft::NFT"],
+          "typeArguments": [{ "type": "param", "name": "nft_type" }],
           "assign": "unstaked_nft"
         },
         {
           "type": "moveCall",
           "target": "0x2::kiosk::place",
           "arguments": [
-            { "type": "object", "value": "0xUSER_KIOSK" },
-            { "type": "object", "value": "0xUSER_KIOSK_CAP" },
+            { "type": "param", "name": "kiosk" },
+            { "type": "param", "name": "kiosk_cap" },
             { "type": "result", "ref": "unstaked_nft" }
           ],
-          "typeArguments": ["0xNFT_PACKAGE::nft::NFT"]
+          "typeArguments": [{ "type": "param", "name": "nft_type" }]
         }
       ]
     }, null, 2)
@@ -371,18 +501,25 @@ export const EXAMPLE_TEMPLATES = {
     name: "NFT Staking: From Kiosk",
     description: "Stake NFT directly from user's kiosk into staking vault",
     json: JSON.stringify({
+      "params": {
+        "vault": { "type": "objectId", "description": "Staking vault" },
+        "kiosk": { "type": "objectId", "description": "Your kiosk" },
+        "kiosk_cap": { "type": "objectId", "description": "KioskOwnerCap of your kiosk" },
+        "nft": { "type": "objectId", "description": "NFT in your kiosk" },
+        "nft_type": { "type": "typeTag", "description": "NFT type, e.g. 0xPACKAGE::nft::NFT" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0xSTAKING_PACKAGE::staking::stake_nft_from_kiosk",
           "arguments": [
-            { "type": "object", "value": "0xSTAKING_VAULT" },
-            { "type": "object", "value": "0xUSER_KIOSK" },
-            { "type": "object", "value": "0xUSER_KIOSK_CAP" },
-            { "type": "object", "value": "0xNFT_IN_KIOSK" },
+            { "type": "param", "name": "vault" },
+            { "type": "param", "name": "kiosk" },
+            { "type": "param", "name": "kiosk_cap" },
+            { "type": "param", "name": "nft" },
             { "type": "pure", "value": 90 }
           ],
-          "typeArguments": ["0xNFT_PACKAGE::nft::NFT"],
+          "typeArguments": [{ "type": "param", "name": "nft_type" }],
           "assign": "stake_position"
         }
       ]
@@ -393,20 +530,25 @@ export const EXAMPLE_TEMPLATES = {
     name: "Transfer Policy: Batch Rules",
     description: "Add multiple royalty rules to transfer policy using vectors",
     json: JSON.stringify({
+      "params": {
+        "policy": { "type": "objectId", "description": "TransferPolicy of the item type" },
+        "policy_cap": { "type": "objectId", "description": "TransferPolicyCap of the policy" },
+        "nft_type": { "type": "typeTag", "description": "NFT type, e.g. 0xPACKAGE::nft::NFT" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0x2::transfer_policy::add_rule",
           "arguments": [
             { "type": "pure", "value": "0x2::royalty_rule::Rule" },
-            { "type": "object", "value": "0xPOLICY_ID" },
-            { "type": "object", "value": "0xPOLICY_CAP" },
-            { "type": "vector", "elements": [
+            { "type": "param", "name": "policy" },
+            { "type": "param", "name": "policy_cap" },
+            { "type": "vector", "elementType": "address", "elements": [
               { "type": "pure", "value": "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef" },
               { "type": "pure", "value": "0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890" }
             ]}
           ],
-          "typeArguments": ["0xPACKAGE::module::NFTType", "0x2::royalty_rule::Rule"]
+          "typeArguments": [{ "type": "param", "name": "nft_type" }, "0x2::royalty_rule::Rule"]
         }
       ]
     }, null, 2)
@@ -416,6 +558,9 @@ export const EXAMPLE_TEMPLATES = {
     name: "One-Time Witness",
     description: "Create a collection using one-time witness pattern",
     json: JSON.stringify({
+      "params": {
+        "nft_type": { "type": "typeTag", "description": "NFT type, e.g. 0xPACKAGE::nft::NFT" }
+      },
       "commands": [
         {
           "type": "moveCall",
@@ -423,7 +568,7 @@ export const EXAMPLE_TEMPLATES = {
           "arguments": [
             { "type": "witness", "value": "0xPUBLISHER_ID", "structType": "WITNESS_TYPE" }
           ],
-          "typeArguments": ["0xPACKAGE::module::NFTType"],
+          "typeArguments": [{ "type": "param", "name": "nft_type" }],
           "assign": "witness"
         },
         {
@@ -434,7 +579,7 @@ export const EXAMPLE_TEMPLATES = {
             { "type": "pure", "value": "My Collection", "encoding": "utf8" },
             { "type": "pure", "value": "A sample NFT collection", "encoding": "utf8" }
           ],
-          "typeArguments": ["0xPACKAGE::module::NFTType"]
+          "typeArguments": [{ "type": "param", "name": "nft_type" }]
         }
       ]
     }, null, 2)
@@ -444,6 +589,9 @@ export const EXAMPLE_TEMPLATES = {
     name: "Complex Nested Arguments",
     description: "Use complex nested structures and options",
     json: JSON.stringify({
+      "params": {
+        "complex_type": { "type": "typeTag", "description": "Element type of the vector" }
+      },
       "commands": [
         {
           "type": "moveCall",
@@ -451,6 +599,7 @@ export const EXAMPLE_TEMPLATES = {
           "arguments": [
             {
               "type": "vector",
+              "elementType": "u64",
               "elements": [
                 { "type": "pure", "value": 100 },
                 { "type": "pure", "value": 200 },
@@ -459,14 +608,21 @@ export const EXAMPLE_TEMPLATES = {
             },
             {
               "type": "option",
-              "some": { "type": "pure", "value": "optional_value", "encoding": "ascii" }
+              "elementType": "0x1::ascii::String",
+              "some": { "type": "pure", "value": "optional_value" }
             },
             {
               "type": "option",
+              "elementType": "u64",
               "none": true
+            },
+            {
+              "type": "vector",
+              "elementType": { "type": "param", "name": "complex_type" },
+              "elements": []
             }
           ],
-          "typeArguments": ["0xPACKAGE::module::ComplexType"]
+          "typeArguments": [{ "type": "param", "name": "complex_type" }]
         }
       ]
     }, null, 2)
@@ -486,6 +642,7 @@ export const EXAMPLE_TEMPLATES = {
             { "type": "pure", "value": 42, "moveType": "u64" },
             {
               "type": "vector",
+              "elementType": "address",
               "elements": [
                 { "type": "pure", "value": "0x1111111111111111111111111111111111111111111111111111111111111111" },
                 { "type": "pure", "value": "0x2222222222222222222222222222222222222222222222222222222222222222" }
@@ -493,6 +650,7 @@ export const EXAMPLE_TEMPLATES = {
             },
             {
               "type": "option",
+              "elementType": "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef::my_types::MyType",
               "some": { "type": "object", "value": "0xoptional_object_id" }
             }
           ],
@@ -519,6 +677,9 @@ export const EXAMPLE_TEMPLATES = {
     name: "Flexible Arguments Demo",
     description: "Demonstrates all argument types in one function call",
     json: JSON.stringify({
+      "params": {
+        "my_type": { "type": "typeTag", "description": "Type argument of the call" }
+      },
       "commands": [
         {
           "type": "moveCall",
@@ -530,6 +691,7 @@ export const EXAMPLE_TEMPLATES = {
             { "type": "object", "value": "0xobject_id" },
             {
               "type": "vector",
+              "elementType": "u8",
               "elements": [
                 { "type": "pure", "value": 1 },
                 { "type": "pure", "value": 2 },
@@ -538,11 +700,12 @@ export const EXAMPLE_TEMPLATES = {
             },
             {
               "type": "option",
+              "elementType": "0x1::string::String",
               "some": { "type": "pure", "value": "has_value" }
             },
             { "type": "witness", "value": "0xwitness_type" }
           ],
-          "typeArguments": ["0xPACKAGE::types::MyType"],
+          "typeArguments": [{ "type": "param", "name": "my_type" }],
           "assign": "flexible_result"
         }
       ]
@@ -553,33 +716,33 @@ export const EXAMPLE_TEMPLATES = {
     name: "Transfer Policy: Complete Setup",
     description: "Create, share, and transfer a transfer policy",
     json: JSON.stringify({
+      "params": {
+        "publisher": { "type": "objectId", "description": "Publisher of the item type" },
+        "recipient": { "type": "address", "description": "Address receiving the objects" },
+        "nft_type": { "type": "typeTag", "description": "NFT type, e.g. 0xPACKAGE::nft::NFT" },
+        "policy_type": { "type": "typeTag", "description": "The policy's type, e.g. 0x2::transfer_policy::TransferPolicy<0xPACKAGE::nft::NFT>" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0x2::transfer_policy::new",
           "arguments": [
-            { "type": "object", "value": "0xPUBLISHER_ID" }
-          ],
-          "typeArguments": ["0xPACKAGE::module::NFTType"],
-          "assign": "policyAndCap"
-        },
-        {
-          "type": "splitObjects",
-          "objects": [
-            { "type": "result", "ref": "policyAndCap" }
+            { "type": "param", "name": "publisher" }
           ],
+          "typeArguments": [{ "type": "param", "name": "nft_type" }],
           "assign": ["policy", "cap"]
         },
         {
           "type": "shareObject",
-          "object": { "type": "result", "ref": "policy" }
+          "object": { "type": "result", "ref": "policy" },
+          "objectType": { "type": "param", "name": "policy_type" }
         },
         {
           "type": "transferObjects",
           "objects": [
             { "type": "result", "ref": "cap" }
           ],
-          "recipient": "0xUSER_ADDRESS"
+          "recipient": { "type": "param", "name": "recipient" }
         }
       ]
     }, null, 2)
@@ -589,14 +752,20 @@ export const EXAMPLE_TEMPLATES = {
     name: "Split Objects Example",
     description: "Split multi-object results into individual variables",
     json: JSON.stringify({
+      "params": {
+        "publisher": { "type": "objectId", "description": "Publisher of the item type" },
+        "recipient": { "type": "address", "description": "Address receiving the objects" },
+        "nft_type": { "type": "typeTag", "description": "NFT type, e.g. 0xPACKAGE::nft::NFT" },
+        "policy_type": { "type": "typeTag", "description": "The policy's type, e.g. 0x2::transfer_policy::TransferPolicy<0xPACKAGE::nft::NFT>" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0x2::transfer_policy::new",
           "arguments": [
-            { "type": "object", "value": "0xPUBLISHER_ID" }
+            { "type": "param", "name": "publisher" }
           ],
-          "typeArguments": ["0xPACKAGE::module::NFTType"],
+          "typeArguments": [{ "type": "param", "name": "nft_type" }],
           "assign": "policyAndCap"
         },
         {
@@ -608,14 +777,15 @@ export const EXAMPLE_TEMPLATES = {
         },
         {
           "type": "shareObject",
-          "object": { "type": "result", "ref": "policy" }
+          "object": { "type": "result", "ref": "policy" },
+          "objectType": { "type": "param", "name": "policy_type" }
         },
         {
           "type": "transferObjects",
           "objects": [
             { "type": "result", "ref": "cap" }
           ],
-          "recipient": "0xUSER_ADDRESS"
+          "recipient": { "type": "param", "name": "recipient" }
         }
       ]
     }, null, 2)
@@ -625,10 +795,15 @@ export const EXAMPLE_TEMPLATES = {
     name: "Share Object",
     description: "Make an object shared on the Sui network",
     json: JSON.stringify({
+      "params": {
+        "object": { "type": "objectId", "description": "Object to share" },
+        "object_type": { "type": "typeTag", "description": "Its full type, which must have store, e.g. 0xPACKAGE::nft::NFT" }
+      },
       "commands": [
         {
           "type": "shareObject",
-          "object": { "type": "object", "value": "0xOBJECT_TO_SHARE" }
+          "object": { "type": "param", "name": "object" },
+          "objectType": { "type": "param", "name": "object_type" }
         }
       ]
     }, null, 2)
@@ -638,28 +813,105 @@ export const EXAMPLE_TEMPLATES = {
     name: "Transfer Policy: Complete (Fixed)",
     description: "Create, share, and transfer a transfer policy with correct result referencing",
     json: JSON.stringify({
+      "params": {
+        "publisher": { "type": "objectId", "description": "Publisher of the item type" },
+        "recipient": { "type": "address", "description": "Address receiving the objects" },
+        "nft_type": { "type": "typeTag", "description": "NFT type, e.g. 0xPACKAGE::nft::NFT" },
+        "policy_type": { "type": "typeTag", "description": "The policy's type, e.g. 0x2::transfer_policy::TransferPolicy<0xPACKAGE::nft::NFT>" }
+      },
       "commands": [
         {
           "type": "moveCall",
           "target": "0x2::transfer_policy::new",
           "arguments": [
-            { "type": "object", "value": "0xPUBLISHER_ID" }
+            { "type": "param", "name": "publisher" }
           ],
-          "typeArguments": ["0xPACKAGE::module::NFTType"],
-          "assign": "policy"
+          "typeArguments": [{ "type": "param", "name": "nft_type" }],
+          "assign": ["policy", "cap"]
         },
         {
           "type": "shareObject",
-          "object": { "type": "result", "ref": "policy" }
+          "object": { "type": "result", "ref": "policy" },
+          "objectType": { "type": "param", "name": "policy_type" }
         },
         {
           "type": "transferObjects",
           "objects": [
-            { "type": "result", "ref": "policy" }
+            { "type": "result", "ref": "cap" }
+          ],
+          "recipient": { "type": "param", "name": "recipient" }
+        }
+      ]
+    }, null, 2)
+  },
+
+  publishPackage: {
+    name: "Package: Publish",
+    description: "Publish a Move package and keep its UpgradeCap",
+    json: JSON.stringify({
+      "params": {
+        "recipient": { "type": "address", "description": "Address receiving the objects" }
+      },
+      "commands": [
+        {
+          "type": "publish",
+          "modules": ["oRzrCwYAAAA="],
+          "dependencies": ["0x1", "0x2"],
+          "assign": "upgrade_cap"
+        },
+        {
+          "type": "transferObjects",
+          "objects": [
+            { "type": "result", "ref": "upgrade_cap" }
           ],
-          "recipient": "0xUSER_ADDRESS"
+          "recipient": { "type": "param", "name": "recipient" }
+        }
+      ]
+    }, null, 2)
+  },
+
+  upgradePackage: {
+    name: "Package: Upgrade",
+    description: "Authorize, run and commit a compatible package upgrade",
+    json: JSON.stringify({
+      "params": {
+        "upgrade_cap": { "type": "objectId", "description": "UpgradeCap of the package" },
+        "package": { "type": "objectId", "description": "Package to upgrade" }
+      },
+      "commands": [
+        {
+          "type": "moveCall",
+          "target": "0x2::package::authorize_upgrade",
+          "arguments": [
+            { "type": "param", "name": "upgrade_cap" },
+            { "type": "pure", "value": 0, "moveType": "u8" },
+            {
+              "type": "pure",
+              "value": "0xc5f23cb39a62fbe27c8b1cd7082837daef85d7ba9be47c753cf66dadd088a361",
+              "moveType": "vector<u8>",
+              "encoding": "hex"
+            }
+          ],
+          "assign": "ticket"
+        },
+        {
+          "type": "upgrade",
+          "modules": ["oRzrCwYAAAA="],
+          "dependencies": ["0x1", "0x2"],
+          "package": { "type": "param", "name": "package" },
+          "ticket": { "type": "result", "ref": "ticket" },
+          "digest": "0xc5f23cb39a62fbe27c8b1cd7082837daef85d7ba9be47c753cf66dadd088a361",
+          "assign": "receipt"
+        },
+        {
+          "type": "moveCall",
+          "target": "0x2::package::commit_upgrade",
+          "arguments": [
+            { "type": "param", "name": "upgrade_cap" },
+            { "type": "result", "ref": "receipt" }
+          ]
         }
       ]
     }, null, 2)
   }
-};
\ No newline at end of file
+};
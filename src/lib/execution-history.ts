@@ -0,0 +1,146 @@
+// Execution History - Past runs kept in the browser's IndexedDB, with their source and effects
+import type { SuiClient } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { type PtbParamValues } from "./ptb-params";
+import { summarizeDryRun, type SimulationResult } from "./transaction-simulator";
+
+export interface ExecutedEvent {
+  type: string; // Full event struct type
+  emitter: string; // Package and module of the function that emitted it, e.g. 0x2::kiosk
+  sender: string;
+  fields: unknown; // The event's fields as JSON
+}
+
+export interface HistoryEntry {
+  id: number; // Assigned by IndexedDB when the entry is added
+  source: string; // PTB JSON that was run
+  params?: PtbParamValues; // Param values the source was run with
+  network: string;
+  sender: string;
+  digest: string;
+  status: "success" | "failure" | "unknown"; // Unknown when the effects could not be fetched
+  gasUsed?: string; // Net MIST: computation plus storage minus rebate
+  effects?: SimulationResult;
+  events?: ExecutedEvent[];
+  timestamp: string;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, "id">;
+
+export class HistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HistoryError";
+  }
+}
+
+const DB_NAME = "sui-ptb-runner";
+const DB_VERSION = 1;
+const STORE = "executions";
+const MAX_ENTRIES = 200;
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(new HistoryError(req.error?.message ?? "IndexedDB request failed"));
+  });
+}
+
+function openHistory(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new HistoryError("This browser has no IndexedDB; history is not saved"));
+  }
+  const open = indexedDB.open(DB_NAME, DB_VERSION);
+  open.onupgradeneeded = () => {
+    open.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+  };
+  return request(open);
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openHistory();
+  try {
+    return await request(run(db.transaction(STORE, mode).objectStore(STORE)));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Lists saved runs, newest first.
+ */
+export async function listHistoryEntries(): Promise<HistoryEntry[]> {
+  const entries = await withStore("readonly", store => store.getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.sort((a, b) => b.id - a.id);
+}
+
+/**
+ * Saves a run and returns it with its ID. The oldest runs are dropped past MAX_ENTRIES.
+ */
+export async function addHistoryEntry(entry: NewHistoryEntry): Promise<HistoryEntry> {
+  const id = await withStore("readwrite", store => store.add(entry) as IDBRequest<number>);
+  const stale = (await listHistoryEntries()).slice(MAX_ENTRIES);
+  for (const old of stale) {
+    await deleteHistoryEntry(old.id);
+  }
+  return { ...entry, id };
+}
+
+export async function deleteHistoryEntry(id: number): Promise<void> {
+  await withStore("readwrite", store => store.delete(id));
+}
+
+export async function clearHistory(): Promise<void> {
+  await withStore("readwrite", store => store.clear());
+}
+
+/**
+ * Waits for an executed transaction and builds its history entry from the effects and events on chain.
+ * The entry is still returned, with status "unknown", when the effects cannot be fetched.
+ */
+export async function describeExecution(
+  digest: string,
+  { client, params, ...entry }: Pick<HistoryEntry, "source" | "params" | "network" | "sender"> & { client: SuiClient }
+): Promise<NewHistoryEntry> {
+  const base = {
+    ...entry,
+    ...(params && Object.keys(params).length > 0 && { params }),
+    digest,
+    timestamp: new Date().toISOString(),
+  };
+  try {
+    const response = await client.waitForTransaction({
+      digest,
+      options: { showEffects: true, showEvents: true, showBalanceChanges: true, showObjectChanges: true },
+    });
+    if (!response.effects) {
+      return { ...base, status: "unknown" };
+    }
+    const effects = summarizeDryRun({ ...response, effects: response.effects });
+    return {
+      ...base,
+      status: effects.success ? "success" : "failure",
+      gasUsed: effects.gas.totalCost.toString(),
+      effects,
+      events: (response.events ?? []).map(event => ({
+        type: event.type,
+        emitter: `${normalizeSuiAddress(event.packageId)}::${event.transactionModule}`,
+        sender: event.sender,
+        fields: event.parsedJson,
+      })),
+    };
+  } catch {
+    return { ...base, status: "unknown" };
+  }
+}
+
+/**
+ * Writes an entry as JSON; the effects' MIST amounts become strings.
+ */
+export function serializeHistoryEntry(entry: HistoryEntry): string {
+  return JSON.stringify(entry, (_key, value) => typeof value === "bigint" ? value.toString() : value, 2);
+}
+
+export function historyFileName(entry: HistoryEntry): string {
+  return `run-${entry.network}-${entry.digest.slice(0, 10)}.json`;
+}
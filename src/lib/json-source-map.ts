@@ -0,0 +1,200 @@
+// JSON Source Map - Parses JSON text while recording where each value sits, keyed by JSON pointer
+
+export interface SourcePosition {
+  line: number; // 1-based
+  column: number; // 1-based
+  offset: number; // 0-based index into the text
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition; // exclusive
+}
+
+export interface JsonSourceMap {
+  value: unknown;
+  // Range of every value in the document, keyed by JSON pointer ("" is the root)
+  ranges: Map<string, SourceRange>;
+}
+
+export class JsonSyntaxError extends Error {
+  constructor(message: string, public readonly range: SourceRange) {
+    super(message);
+    this.name = "JsonSyntaxError";
+  }
+}
+
+export function escapePointerSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+export function joinPointer(pointer: string, ...segments: (string | number)[]): string {
+  return segments.reduce<string>((path, segment) => `${path}/${escapePointerSegment(segment)}`, pointer);
+}
+
+/**
+ * Returns the range of the value at `pointer`, or of its closest ancestor that exists in the document,
+ * so that a missing property is reported on the object that should contain it.
+ */
+export function rangeForPointer(map: JsonSourceMap, pointer: string): SourceRange | undefined {
+  let path = pointer;
+  while (!map.ranges.has(path) && path !== "") {
+    path = path.slice(0, path.lastIndexOf("/"));
+  }
+  return map.ranges.get(path);
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/**
+ * Parses JSON like JSON.parse, additionally returning the source range of every value.
+ * Throws JsonSyntaxError with the position of the first syntax error.
+ */
+export function parseJsonWithSourceMap(text: string): JsonSourceMap {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const position = (offset: number): SourcePosition => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1, offset };
+  };
+
+  const ranges = new Map<string, SourceRange>();
+  let index = 0;
+
+  const fail = (message: string, start = index, end = Math.min(index + 1, text.length)): never => {
+    throw new JsonSyntaxError(message, { start: position(start), end: position(Math.max(end, start)) });
+  };
+
+  const skipWhitespace = () => {
+    while (index < text.length && /\s/.test(text[index])) {
+      index++;
+    }
+  };
+
+  const expect = (char: string) => {
+    if (text[index] !== char) {
+      fail(index >= text.length ? `Expected '${char}' but reached the end of the input` : `Expected '${char}'`);
+    }
+    index++;
+  };
+
+  const parseString = (): string => {
+    const start = index;
+    index++; // opening quote
+    while (index < text.length && text[index] !== '"') {
+      if (text[index] === "\\") {
+        index++;
+      } else if (text[index] === "\n") {
+        fail("Unterminated string", start, index);
+      }
+      index++;
+    }
+    if (index >= text.length) {
+      fail("Unterminated string", start, index);
+    }
+    index++; // closing quote
+    try {
+      return JSON.parse(text.slice(start, index));
+    } catch {
+      return fail("Invalid escape sequence in string", start, index);
+    }
+  };
+
+  const parseValue = (pointer: string): unknown => {
+    skipWhitespace();
+    const start = index;
+    let value: unknown;
+
+    const char = text[index];
+    if (char === "{") {
+      index++;
+      const object: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[index] === "}") {
+        index++;
+      } else {
+        for (;;) {
+          skipWhitespace();
+          if (text[index] !== '"') {
+            fail("Expected a property name in double quotes");
+          }
+          const key = parseString();
+          skipWhitespace();
+          expect(":");
+          object[key] = parseValue(joinPointer(pointer, key));
+          skipWhitespace();
+          if (text[index] === ",") {
+            index++;
+            continue;
+          }
+          expect("}");
+          break;
+        }
+      }
+      value = object;
+    } else if (char === "[") {
+      index++;
+      const array: unknown[] = [];
+      skipWhitespace();
+      if (text[index] === "]") {
+        index++;
+      } else {
+        for (;;) {
+          array.push(parseValue(joinPointer(pointer, array.length)));
+          skipWhitespace();
+          if (text[index] === ",") {
+            index++;
+            continue;
+          }
+          expect("]");
+          break;
+        }
+      }
+      value = array;
+    } else if (char === '"') {
+      value = parseString();
+    } else if (text.startsWith("true", index)) {
+      index += 4;
+      value = true;
+    } else if (text.startsWith("false", index)) {
+      index += 5;
+      value = false;
+    } else if (text.startsWith("null", index)) {
+      index += 4;
+      value = null;
+    } else {
+      NUMBER_PATTERN.lastIndex = index;
+      const match = NUMBER_PATTERN.exec(text);
+      if (!match) {
+        fail(index >= text.length ? "Unexpected end of input" : `Unexpected character '${char}'`);
+      }
+      index += match[0].length;
+      value = Number(match[0]);
+    }
+
+    ranges.set(pointer, { start: position(start), end: position(index) });
+    return value;
+  };
+
+  const value = parseValue("");
+  skipWhitespace();
+  if (index < text.length) {
+    fail("Unexpected content after the JSON value", index, text.length);
+  }
+
+  return { value, ranges };
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Secp256k1Keypair } from "@mysten/sui/keypairs/secp256k1";
+import { toBase64 } from "@mysten/sui/utils";
+import { KeystoreError, readKeystore, selectKeypair } from "./keystore";
+
+const secret = (seed: number) => new Uint8Array(32).fill(seed);
+const ed25519 = Ed25519Keypair.fromSecretKey(secret(1));
+const secp256k1 = Secp256k1Keypair.fromSecretKey(secret(2));
+
+// A sui.keystore entry: the scheme's flag byte, then the secret key
+const entry = (flag: number, key: Uint8Array) => toBase64(new Uint8Array([flag, ...key]));
+const addresses = (contents: string) => readKeystore(contents).map(keypair => keypair.toSuiAddress());
+
+describe("readKeystore", () => {
+  it("reads sui.keystore entries by their flag byte", () => {
+    expect(addresses(JSON.stringify([entry(0, secret(1)), entry(1, secret(2))])))
+      .toEqual([ed25519.toSuiAddress(), secp256k1.toSuiAddress()]);
+  });
+
+  it("reads suiprivkey strings one per line", () => {
+    expect(addresses(`${ed25519.getSecretKey()}\n\n${secp256k1.getSecretKey()}\n`))
+      .toEqual([ed25519.toSuiAddress(), secp256k1.toSuiAddress()]);
+  });
+
+  it("rejects unknown flags and secret keys of the wrong length", () => {
+    expect(() => readKeystore(JSON.stringify([entry(0, secret(1)), entry(9, secret(1))])))
+      .toThrow("Key 2 is not a flag byte followed by a 32-byte secret key");
+    expect(() => readKeystore(JSON.stringify([entry(0, new Uint8Array(31))])))
+      .toThrow("Key 1 is not a flag byte followed by a 32-byte secret key");
+  });
+
+  it("rejects empty and malformed keystores", () => {
+    expect(() => readKeystore("[]")).toThrow("The keystore holds no keys");
+    expect(() => readKeystore("  \n")).toThrow("The keystore holds no keys");
+    expect(() => readKeystore("[1, 2]")).toThrow("The keystore holds no keys");
+    expect(() => readKeystore("[\"unclosed")).toThrow("The keystore is not a JSON array of keys");
+  });
+});
+
+describe("selectKeypair", () => {
+  const keypairs = [ed25519, secp256k1];
+
+  it("picks the key for an address, however it is written", () => {
+    expect(selectKeypair(keypairs, secp256k1.toSuiAddress())).toBe(secp256k1);
+    expect(selectKeypair(keypairs, secp256k1.toSuiAddress().toUpperCase().replace("0X", "0x"))).toBe(secp256k1);
+  });
+
+  it("takes the only key when no address is given", () => {
+    expect(selectKeypair([ed25519])).toBe(ed25519);
+  });
+
+  it("asks for an address when the keystore holds several keys", () => {
+    expect(() => selectKeypair(keypairs)).toThrow("The keystore holds 2 keys; choose one by address");
+  });
+
+  it("rejects an address with no key", () => {
+    expect(() => selectKeypair(keypairs, "0x2")).toThrow(KeystoreError);
+  });
+});
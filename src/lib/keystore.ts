@@ -0,0 +1,84 @@
+// Keystore - Keypairs from a Sui CLI keystore file, for signing without a browser wallet
+import { decodeSuiPrivateKey, type Keypair, type SignatureScheme } from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Secp256k1Keypair } from "@mysten/sui/keypairs/secp256k1";
+import { Secp256r1Keypair } from "@mysten/sui/keypairs/secp256r1";
+import { fromBase64, normalizeSuiAddress } from "@mysten/sui/utils";
+
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KeystoreError";
+  }
+}
+
+// Flag byte the CLI keystore puts before each 32-byte secret key
+const FLAG_SCHEMES: Record<number, SignatureScheme> = { 0: "ED25519", 1: "Secp256k1", 2: "Secp256r1" };
+
+function toKeypair(scheme: SignatureScheme, secretKey: Uint8Array): Keypair {
+  switch (scheme) {
+    case "ED25519":
+      return Ed25519Keypair.fromSecretKey(secretKey);
+    case "Secp256k1":
+      return Secp256k1Keypair.fromSecretKey(secretKey);
+    case "Secp256r1":
+      return Secp256r1Keypair.fromSecretKey(secretKey);
+    default:
+      throw new KeystoreError(`${scheme} keys cannot sign from a keystore`);
+  }
+}
+
+function readKey(entry: string, index: number): Keypair {
+  if (entry.startsWith("suiprivkey")) {
+    const { schema, secretKey } = decodeSuiPrivateKey(entry);
+    return toKeypair(schema, secretKey);
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64(entry);
+  } catch {
+    throw new KeystoreError(`Key ${index + 1} is neither base64 nor a suiprivkey string`);
+  }
+  const scheme = FLAG_SCHEMES[bytes[0]];
+  if (bytes.length !== 33 || !scheme) {
+    throw new KeystoreError(`Key ${index + 1} is not a flag byte followed by a 32-byte secret key`);
+  }
+  return toKeypair(scheme, bytes.slice(1));
+}
+
+/**
+ * Reads the keys of a keystore: the CLI's sui.keystore (a JSON array of base64 `flag || secret key`),
+ * or `suiprivkey` strings, one per line.
+ */
+export function readKeystore(contents: string): Keypair[] {
+  const trimmed = contents.trim();
+  let entries: unknown;
+  try {
+    entries = trimmed.startsWith("[") ? JSON.parse(trimmed) : trimmed.split(/\s+/).filter(Boolean);
+  } catch {
+    throw new KeystoreError("The keystore is not a JSON array of keys");
+  }
+  if (!Array.isArray(entries) || entries.length === 0 || !entries.every(entry => typeof entry === "string")) {
+    throw new KeystoreError("The keystore holds no keys");
+  }
+  return entries.map((entry, index) => readKey(entry, index));
+}
+
+/**
+ * Picks the key for an address, or the only key when no address is given.
+ */
+export function selectKeypair(keypairs: Keypair[], address?: string): Keypair {
+  if (address) {
+    const match = keypairs.find(keypair => keypair.toSuiAddress() === normalizeSuiAddress(address));
+    if (!match) {
+      throw new KeystoreError(`The keystore has no key for ${address}`);
+    }
+    return match;
+  }
+  if (keypairs.length > 1) {
+    throw new KeystoreError(
+      `The keystore holds ${keypairs.length} keys; choose one by address (${keypairs.map(keypair => keypair.toSuiAddress()).join(", ")})`
+    );
+  }
+  return keypairs[0];
+}
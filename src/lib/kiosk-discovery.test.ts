@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  discoverUserKiosksAndNFTs,
+  discoverUserKiosksAndNFTsProgressive,
+  getKioskNFTs,
+  getUserKiosks,
+  prepareBulkKioskTransfer,
+  validateBulkTransfer,
+  ValidationError,
+  type DiscoveryProgress,
+} from "./kiosk-discovery";
+import { CACHED_OBJECT_OPTIONS, createMemoryObjectCache } from "./object-cache";
+import { fixtureClient } from "./__fixtures__/rpc";
+
+const id = (byte: string) => "0x" + byte.repeat(32);
+const OWNER = "0x" + "a".repeat(64);
+const RECIPIENT_WITH_KIOSK = "0x" + "b".repeat(64);
+const RECIPIENT_WITHOUT_KIOSK = "0x" + "c".repeat(64);
+const OWNER_CAP = id("11");
+const KIOSK = id("12");
+const KIOSK_NFTS = [id("13"), id("14")];
+const KIOSK_ITEMS = [...KIOSK_NFTS, id("15")];
+const WALLET_NFTS = [id("16"), id("17")];
+const RECIPIENT_CAP = id("21");
+const RECIPIENT_KIOSK = id("22");
+const PACKAGE = "0x" + "e".repeat(64);
+const NFT_TYPE = `${PACKAGE}::collection::Nft`;
+
+// Answers from __fixtures__/kiosk-discovery.json: the owner has one kiosk holding two Comet NFTs and a ticket,
+// and two more Comets, a coin and the kiosk's owner cap in their wallet
+const { client } = fixtureClient("kiosk-discovery");
+
+describe("getUserKiosks", () => {
+  it("finds kiosks through their owner caps and reads each kiosk's item count", async () => {
+    expect(await getUserKiosks(OWNER, { client })).toEqual([{ id: KIOSK, ownerCapId: OWNER_CAP, itemCount: 3 }]);
+  });
+
+  it("returns no kiosks for an address without owner caps", async () => {
+    expect(await getUserKiosks(RECIPIENT_WITHOUT_KIOSK, { client })).toEqual([]);
+  });
+
+  it("rejects a malformed address before querying", async () => {
+    const getOwnedObjects = vi.spyOn(client, "getOwnedObjects");
+    await expect(getUserKiosks("not-an-address", { client })).rejects.toThrow(ValidationError);
+    expect(getOwnedObjects).not.toHaveBeenCalled();
+  });
+});
+
+describe("getKioskNFTs", () => {
+  it("resolves the kiosk's items and keeps those that look like NFTs", async () => {
+    const nfts = await getKioskNFTs(KIOSK, { client });
+    expect(nfts.map(nft => nft.id)).toEqual(KIOSK_NFTS);
+    expect(nfts[0]).toEqual({
+      id: KIOSK_NFTS[0],
+      type: NFT_TYPE,
+      display: { name: "Comet #1", description: "First of the comets", image_url: "https://example.com/comet/1.png" },
+      kioskId: KIOSK,
+    });
+  });
+});
+
+describe("discoverUserKiosksAndNFTs", () => {
+  it("pages through every object the wallet owns", async () => {
+    const { kiosks, nfts } = await discoverUserKiosksAndNFTs(OWNER, { client });
+    expect(nfts).toHaveLength(4);
+    expect(nfts.filter(nft => nft.type === NFT_TYPE).map(nft => nft.id)).toEqual(WALLET_NFTS);
+    expect(kiosks).toEqual([{ id: "wallet", ownerCapId: "wallet", itemCount: 4 }]);
+  });
+});
+
+describe("discoverUserKiosksAndNFTsProgressive with a cache", () => {
+  // Answers from __fixtures__/kiosk-discovery-cache.json: the same wallet, discovered twice; between the two,
+  // the second wallet Comet is renamed and its version bumped
+  const cached = fixtureClient("kiosk-discovery-cache");
+
+  it("shows the cached result first and then fetches only the objects whose version changed", async () => {
+    const cache = createMemoryObjectCache("testnet");
+    const options = { client: cached.client, cache };
+
+    const first: DiscoveryProgress[] = [];
+    const initial = await discoverUserKiosksAndNFTsProgressive(OWNER, update => first.push(update), options);
+    expect(first).toEqual([{ ...initial, replace: true, done: true }]);
+    expect(initial.kiosks).toEqual([{ id: KIOSK, ownerCapId: OWNER_CAP, itemCount: 3 }]);
+    expect(initial.nfts.filter(nft => nft.type === NFT_TYPE).map(nft => nft.id)).toEqual([...WALLET_NFTS, ...KIOSK_NFTS]);
+
+    const multiGetObjects = vi.spyOn(cached.client, "multiGetObjects");
+    const getDynamicFields = vi.spyOn(cached.client, "getDynamicFields");
+    const second: DiscoveryProgress[] = [];
+    const refreshed = await discoverUserKiosksAndNFTsProgressive(OWNER, update => second.push(update), options);
+    expect(second).toEqual([
+      { ...initial, replace: true },
+      { ...refreshed, replace: true, done: true },
+    ]);
+    expect(refreshed.nfts.find(nft => nft.id === WALLET_NFTS[1])?.display?.name).toBe("Comet #4 (signed)");
+
+    expect(multiGetObjects.mock.calls.map(([input]) => input)).toEqual([
+      { ids: [WALLET_NFTS[1]], options: CACHED_OBJECT_OPTIONS }, // The renamed Comet, in full
+      { ids: [KIOSK] }, // The kiosk's version only: unchanged, so its items are not listed again
+      { ids: KIOSK_ITEMS }, // The items' versions only
+    ]);
+    expect(getDynamicFields).not.toHaveBeenCalled();
+  });
+});
+
+describe("bulk transfer planning", () => {
+  it("places one NFT in each recipient's kiosk, creating a kiosk for recipients without one", async () => {
+    const { transaction, recipients, nftIds } = await prepareBulkKioskTransfer(
+      OWNER,
+      `${RECIPIENT_WITH_KIOSK}, ${RECIPIENT_WITHOUT_KIOSK}`,
+      NFT_TYPE,
+      { client }
+    );
+
+    expect(nftIds).toEqual(WALLET_NFTS);
+    expect(recipients).toEqual([
+      { walletAddress: RECIPIENT_WITH_KIOSK, kioskId: RECIPIENT_KIOSK, ownerCapId: RECIPIENT_CAP, hasKiosk: true, status: "pending" },
+      { walletAddress: RECIPIENT_WITHOUT_KIOSK, kioskId: undefined, ownerCapId: undefined, hasKiosk: false, status: "pending" },
+    ]);
+
+    const targets = transaction.getData().commands.map(command =>
+      command.MoveCall ? `${command.MoveCall.module}::${command.MoveCall.function}` : command.$kind
+    );
+    expect(targets).toEqual(["kiosk::place", "kiosk::new", "TransferObjects", "kiosk::place"]);
+  });
+
+  it("reports when the sender holds fewer NFTs of the type than there are recipients", async () => {
+    const validation = await validateBulkTransfer(
+      OWNER,
+      `${RECIPIENT_WITH_KIOSK}, ${RECIPIENT_WITHOUT_KIOSK}, ${OWNER}`,
+      NFT_TYPE,
+      { client }
+    );
+    expect(validation).toMatchObject({
+      isValid: false,
+      errors: ["Not enough NFTs available. Required: 3, Available: 2"],
+      recipientCount: 3,
+      availableNFTs: 2,
+    });
+  });
+});
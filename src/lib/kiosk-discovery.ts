@@ -1,7 +1,7 @@
 // Kiosk Discovery and NFT Management Utilities
-import { suiClient } from './simple-sui-client';
-import type { SuiObjectData, SuiObjectResponse } from '@mysten/sui/client';
-declare const require: any;
+import type { MoveValue, SuiClient, SuiObjectData, SuiObjectResponse, SuiParsedData } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { loadObjects, loadObjectVersions, type ObjectCache, type ObjectVersion } from './object-cache';
 
 // Simple, local type definitions to match API responses, avoiding import issues.
 interface PaginatedObjectsResponse {
@@ -76,6 +76,23 @@ export class ValidationError extends KioskDiscoveryError {
 }
 
 // Main interfaces
+// The client discovery reads from, usually the current network's from useNetwork()
+export interface DiscoveryOptions {
+  client: SuiClient;
+}
+
+// With a cache, progressive discovery reports the cached result first and then fetches only objects that changed
+export interface CachedDiscoveryOptions extends DiscoveryOptions {
+  cache?: ObjectCache;
+}
+
+export interface DiscoveryProgress {
+  kiosks?: KioskInfo[];
+  nfts?: NFTInfo[];
+  replace?: boolean; // nfts is the complete list so far rather than a batch to append
+  done?: boolean;
+}
+
 export interface KioskInfo {
   id: string;
   ownerCapId: string;
@@ -128,7 +145,8 @@ async function withRetry<T>(
   throw lastError!;
 }
 
-function log(level: 'debug' | 'info' | 'warn' | 'error', message: string, context?: Record<string, unknown>): void {
+// Only problems are logged; successful discovery is silent
+function log(level: 'warn' | 'error', message: string, context?: Record<string, unknown>): void {
   const timestamp = new Date().toISOString();
   const logMessage = `[${timestamp}] [${level.toUpperCase()}] ${message}`;
   
@@ -142,38 +160,23 @@ function log(level: 'debug' | 'info' | 'warn' | 'error', message: string, contex
 /**
  * Discovers user's kiosks by finding KioskOwnerCap objects
  * @param walletAddress - The wallet address to search for kiosks
+ * @param options - The client to read from
  * @returns Promise resolving to array of KioskInfo objects
  * @throws ValidationError if wallet address is invalid
  * @throws KioskDiscoveryError if kiosk discovery fails
  */
-export async function getUserKiosks(walletAddress: string): Promise<KioskInfo[]> {
+export async function getUserKiosks(walletAddress: string, { client }: DiscoveryOptions): Promise<KioskInfo[]> {
   // Input validation
   if (!isValidWalletAddress(walletAddress)) {
     throw new ValidationError('Invalid wallet address format', 'walletAddress');
   }
 
-  log('info', 'Starting kiosk discovery', { walletAddress });
-  
 	try {
-    console.log('Starting kiosk discovery for:', walletAddress);
-    
-    const ownedObjects = await fetchKioskOwnerCaps(walletAddress);
-    console.log('Fetch result:', { foundObjects: ownedObjects.data.length });
-    
-    const kiosks = await processKioskOwnerCaps(ownedObjects);
-    
-    console.log('Kiosk discovery completed:', { 
-      walletAddress, 
-      kiosksFound: kiosks.length 
-    });
-    
-    return kiosks;
+    const ownedObjects = await fetchKioskOwnerCaps(walletAddress, client);
+    return await processKioskOwnerCaps(ownedObjects, client);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error('Kiosk discovery failed:', { 
-      walletAddress, 
-      error: errorMessage 
-    });
+    log('error', 'Kiosk discovery failed', { walletAddress, error: errorMessage });
     
     throw new KioskDiscoveryError(
       `Failed to fetch kiosks: ${errorMessage}`,
@@ -186,13 +189,11 @@ export async function getUserKiosks(walletAddress: string): Promise<KioskInfo[]>
 /**
  * Fetches KioskOwnerCap objects using multiple strategies
  */
-async function fetchKioskOwnerCaps(walletAddress: string): Promise<PaginatedObjectsResponse> {
+async function fetchKioskOwnerCaps(walletAddress: string, client: SuiClient): Promise<PaginatedObjectsResponse> {
   try {
     // Strategy 1: Try specific KioskOwnerCap filter
-    log('debug', 'Attempting specific KioskOwnerCap filter');
-    
     const rawResponse = await withRetry(async () => {
-      return await suiClient.getOwnedObjects({
+      return await client.getOwnedObjects({
         owner: walletAddress,
         filter: {
           StructType: CONFIG.KIOSK_OWNER_CAP_TYPE
@@ -208,10 +209,6 @@ async function fetchKioskOwnerCaps(walletAddress: string): Promise<PaginatedObje
       .map((entry: any) => entry?.data)
       .filter(Boolean) as SuiObjectData[];
 
-    log('info', 'Specific filter successful', { 
-      objectsFound: unwrapped.length 
-    });
-
     return { data: unwrapped, nextCursor: rawResponse.nextCursor, hasNextPage: rawResponse.hasNextPage } as unknown as PaginatedObjectsResponse;
   } catch (specificError) {
     log('warn', 'Specific filter failed, trying broader search', { 
@@ -219,14 +216,14 @@ async function fetchKioskOwnerCaps(walletAddress: string): Promise<PaginatedObje
     });
     
     // Strategy 2: Get all objects and filter manually
-    return await fetchAllObjectsWithFilter(walletAddress);
+    return await fetchAllObjectsWithFilter(walletAddress, client);
   }
 }
 
 /**
  * Fetches all objects and filters for kiosk-related ones
  */
-async function fetchAllObjectsWithFilter(walletAddress: string): Promise<PaginatedObjectsResponse> {
+async function fetchAllObjectsWithFilter(walletAddress: string, client: SuiClient): Promise<PaginatedObjectsResponse> {
   const allObjects: SuiObjectData[] = [];
   let cursor: string | null = null;
   let paginationCount = 0;
@@ -238,7 +235,7 @@ async function fetchAllObjectsWithFilter(walletAddress: string): Promise<Paginat
     }
     
     const batch = await withRetry(async () => {
-      return await suiClient.getOwnedObjects({
+      return await client.getOwnedObjects({
         owner: walletAddress,
         cursor: cursor || undefined,
         options: {
@@ -260,24 +257,8 @@ async function fetchAllObjectsWithFilter(walletAddress: string): Promise<Paginat
     if (cursor) {
       await delay(CONFIG.RATE_LIMIT_DELAY);
     }
-    
-    log('debug', 'Fetched batch of objects', { 
-      batchSize: unwrapped.length, 
-      totalSoFar: allObjects.length 
-    });
   } while (cursor);
   
-  // Debug: Log all object types found
-  const allTypes = allObjects.map(obj => {
-    // The type is in obj.data.type based on the API response structure
-    return obj.type || 'unknown';
-  }).filter(Boolean);
-  const uniqueTypes = [...new Set(allTypes)];
-  log('debug', 'All object types found', { 
-    totalTypes: uniqueTypes.length,
-    types: uniqueTypes.slice(0, 10) // Show first 10 types
-  });
-  
   // Filter for KioskOwnerCap objects
   const filteredObjects = allObjects.filter(obj => {
     const objType = obj.type || '';
@@ -285,29 +266,18 @@ async function fetchAllObjectsWithFilter(walletAddress: string): Promise<Paginat
            (objType.includes('KioskOwnerCap') || objType.includes('OwnerCap'));
   });
   
-  log('info', 'Manual filtering completed', { 
-    totalObjects: allObjects.length,
-    filteredObjects: filteredObjects.length,
-    kioskTypes: uniqueTypes.filter(type => type?.toLowerCase().includes('kiosk')),
-    allTypes: uniqueTypes, // Show all types for debugging
-    sampleFilteredObjects: filteredObjects.slice(0, 3).map(obj => ({
-      objectId: obj.objectId,
-      type: obj.type
-    }))
-  });
-  
   return { data: filteredObjects, hasNextPage: false } as unknown as PaginatedObjectsResponse;
 }
 
 /**
  * Processes KioskOwnerCap objects to extract kiosk information
  */
-async function processKioskOwnerCaps(ownedObjects: PaginatedObjectsResponse): Promise<KioskInfo[]> {
+async function processKioskOwnerCaps(ownedObjects: PaginatedObjectsResponse, client: SuiClient): Promise<KioskInfo[]> {
   const kiosks: KioskInfo[] = [];
   
   for (const obj of ownedObjects.data) {
     try {
-      const kioskInfo = await processKioskOwnerCap(obj);
+      const kioskInfo = await processKioskOwnerCap(obj, client);
       if (kioskInfo) {
         kiosks.push(kioskInfo);
       }
@@ -325,54 +295,35 @@ async function processKioskOwnerCaps(ownedObjects: PaginatedObjectsResponse): Pr
 /**
  * Processes a single KioskOwnerCap object
  */
-async function processKioskOwnerCap(obj: SuiObjectData): Promise<KioskInfo | null> {
+async function processKioskOwnerCap(obj: SuiObjectData, client: SuiClient): Promise<KioskInfo | null> {
   // The object passed here is the direct SuiObjectData
-  const objType = obj.type;
   const content = obj.content;
   
-  console.log('Processing kiosk owner cap:', {
-    objectId: obj.objectId,
-    type: objType,
-    hasContent: !!content,
-    hasFields: !!((content as any)?.fields)
-  });
-  
   if (!(content as any)?.fields) {
-    console.warn('Object has no content or fields:', obj.objectId);
+    log('warn', 'Kiosk owner cap has no fields', { objectId: obj.objectId });
     return null;
   }
   
   const fields = (content as any).fields as Record<string, any>;
-  console.log('KioskOwnerCap fields:', {
-    objectId: obj.objectId,
-    fields: fields,
-    availableFields: Object.keys(fields)
-  });
   
   // Extract kiosk ID from the 'for' field
   const kioskId = fields.for;
   
   if (!kioskId || typeof kioskId !== 'string') {
-    console.warn('No valid kiosk ID found in for field:', {
-      objectId: obj.objectId,
-      forField: kioskId,
-      availableFields: Object.keys(fields)
-    });
+    log('warn', 'Kiosk owner cap has no kiosk ID in its for field', { objectId: obj.objectId });
     return null;
   }
   
   if (!isValidObjectId(kioskId)) {
-    console.warn('Invalid kiosk ID format:', {
+    log('warn', 'Invalid kiosk ID format', {
       objectId: obj.objectId,
       kioskId
     });
     return null;
   }
   
-  console.log('Found kiosk ID:', { objectId: obj.objectId, kioskId });
-  
   try {
-    const itemCount = await getKioskItemCount(kioskId);
+    const itemCount = await getKioskItemCount(kioskId, client);
     
     return {
       id: kioskId,
@@ -380,7 +331,7 @@ async function processKioskOwnerCap(obj: SuiObjectData): Promise<KioskInfo | nul
       itemCount
     };
   } catch (error) {
-    console.warn('Failed to get kiosk item count, using 0:', {
+    log('warn', 'Failed to get kiosk item count, using 0', {
       objectId: obj.objectId,
       kioskId,
       error: error instanceof Error ? error.message : String(error)
@@ -401,16 +352,9 @@ async function processKioskOwnerCap(obj: SuiObjectData): Promise<KioskInfo | nul
 function extractKioskId(fields: Record<string, unknown>): string | null {
   const possibleFields = ['for', 'kiosk_id', 'kioskId', 'kiosk', 'id'];
   
-  log('debug', 'Extracting kiosk ID', { 
-    availableFields: Object.keys(fields),
-    possibleFields: possibleFields
-  });
-  
   for (const fieldName of possibleFields) {
     const value = fields[fieldName];
-    log('debug', `Checking field ${fieldName}`, { value, type: typeof value });
     if (typeof value === 'string' && value.length > 0) {
-      log('debug', `Found kiosk ID in field ${fieldName}`, { kioskId: value });
       return value;
     }
   }
@@ -422,22 +366,36 @@ function extractKioskId(fields: Record<string, unknown>): string | null {
 /**
  * Gets the item count for a specific kiosk
  */
-async function getKioskItemCount(kioskId: string): Promise<number> {
+async function getKioskItemCount(kioskId: string, client: SuiClient): Promise<number> {
   const kioskObject = await withRetry(async () => {
-    return await suiClient.getObject({
+    return await client.getObject({
       id: kioskId,
       options: { showContent: true }
     }) as SuiObjectResponse;
   });
   
-  // Handle the actual API response structure
-  const content = kioskObject.data?.content as any;
-  
-  if (!content || content.dataType !== 'moveObject' || !content.fields) {
+  return kioskObject.data ? readKioskItemCount(kioskObject.data) : 0;
+}
+
+/**
+ * A Move object's fields, or undefined for packages and objects fetched without content
+ */
+function moveObjectFields(content: SuiParsedData | null | undefined): Record<string, MoveValue> | undefined {
+  if (content?.dataType !== 'moveObject' || Array.isArray(content.fields)) {
+    return undefined;
+  }
+  return content.fields;
+}
+
+/**
+ * Reads a kiosk object's item count from its content
+ */
+function readKioskItemCount(kiosk: SuiObjectData): number {
+  const fields = moveObjectFields(kiosk.content);
+  if (!fields) {
     return 0;
   }
   
-  const fields = content.fields as Record<string, unknown>;
   const possibleCountFields = ['item_count', 'itemCount', 'items'];
   
   for (const fieldName of possibleCountFields) {
@@ -453,26 +411,20 @@ async function getKioskItemCount(kioskId: string): Promise<number> {
 /**
  * Gets NFTs in a specific kiosk
  * @param kioskId - The kiosk ID to fetch NFTs from
+ * @param options - The client to read from
  * @returns Promise resolving to array of NFTInfo objects
  * @throws ValidationError if kiosk ID is invalid
  * @throws KioskDiscoveryError if NFT fetching fails
  */
-export async function getKioskNFTs(kioskId: string): Promise<NFTInfo[]> {
+export async function getKioskNFTs(kioskId: string, { client }: DiscoveryOptions): Promise<NFTInfo[]> {
   // Input validation
   if (!isValidObjectId(kioskId)) {
     throw new ValidationError('Invalid kiosk ID format', 'kioskId');
   }
 
-  log('info', 'Fetching NFTs for kiosk', { kioskId });
-  
   try {
-    const dynamicFields = await fetchKioskDynamicFields(kioskId);
-    const nfts = await processDynamicFields(dynamicFields, kioskId);
-    
-    log('info', 'NFT fetching completed', { 
-      kioskId, 
-      nftsFound: nfts.length 
-    });
+    const dynamicFields = await fetchKioskDynamicFields(kioskId, client);
+    const nfts = await processDynamicFields(dynamicFields, kioskId, client);
     
     return nfts;
   } catch (error) {
@@ -487,7 +439,7 @@ export async function getKioskNFTs(kioskId: string): Promise<NFTInfo[]> {
 /**
  * Fetches dynamic fields for a kiosk with pagination and rate limiting
  */
-async function fetchKioskDynamicFields(kioskId: string): Promise<DynamicFieldsResponse> {
+async function fetchKioskDynamicFields(kioskId: string, client: SuiClient): Promise<DynamicFieldsResponse> {
   const allDynamicFields: { objectId: string; name: string; }[] = [];
   let cursor: string | null = null;
   let paginationCount = 0;
@@ -502,7 +454,7 @@ async function fetchKioskDynamicFields(kioskId: string): Promise<DynamicFieldsRe
     }
     
     const dynamicFields = await withRetry(async () => {
-      return await suiClient.getDynamicFields({
+      return await client.getDynamicFields({
         parentId: kioskId,
         cursor: cursor || undefined,
         limit: CONFIG.MAX_DYNAMIC_FIELDS_PER_BATCH,
@@ -518,36 +470,25 @@ async function fetchKioskDynamicFields(kioskId: string): Promise<DynamicFieldsRe
     cursor = (dynamicFields as any).nextCursor;
     paginationCount++;
     
-    log('debug', 'Fetched batch of dynamic fields', { 
-      kioskId,
-      batchSize: dynamicFields.data.length, 
-      totalSoFar: allDynamicFields.length 
-    });
   } while (cursor);
   
-  log('info', 'Dynamic fields fetching completed', { 
-    kioskId,
-    totalFields: allDynamicFields.length 
-  });
-  
   return { data: allDynamicFields, hasNextPage: false };
 }
 
 /**
  * Batches fetching of multiple objects to improve performance.
  * @param objectIds - Array of object IDs to fetch.
+ * @param client - The client to read from.
  * @returns Promise resolving to an array of SuiObjectData.
  */
-async function batchFetchObjects(objectIds: string[]): Promise<SuiObjectData[]> {
+async function batchFetchObjects(objectIds: string[], client: SuiClient): Promise<SuiObjectData[]> {
   if (objectIds.length === 0) {
     return [];
   }
 
-  log('debug', 'Batch fetching objects', { count: objectIds.length });
-
   try {
     const objects = await withRetry(async () => {
-      return await suiClient.multiGetObjects({
+      return await client.multiGetObjects({
         ids: objectIds,
         options: {
           showContent: true,
@@ -573,7 +514,7 @@ async function batchFetchObjects(objectIds: string[]): Promise<SuiObjectData[]>
 /**
  * Fetches all owned objects for a wallet with pagination and rate limiting
  */
-async function fetchAllOwnedObjects(walletAddress: string): Promise<SuiObjectData[]> {
+async function fetchAllOwnedObjects(walletAddress: string, client: SuiClient): Promise<SuiObjectData[]> {
   const allObjects: SuiObjectData[] = [];
   let cursor: string | null | undefined = null;
   let paginationCount = 0;
@@ -588,7 +529,7 @@ async function fetchAllOwnedObjects(walletAddress: string): Promise<SuiObjectDat
     }
     
     const batch: PaginatedObjectsResponse = await withRetry(async () => {
-      return await suiClient.getOwnedObjects({
+      return await client.getOwnedObjects({
         owner: walletAddress,
         cursor: cursor || undefined,
         options: {
@@ -607,18 +548,8 @@ async function fetchAllOwnedObjects(walletAddress: string): Promise<SuiObjectDat
     cursor = batch.nextCursor;
     paginationCount++;
     
-    log('debug', 'Fetched batch of owned objects', { 
-      walletAddress,
-      batchSize: batch.data.length, 
-      totalSoFar: allObjects.length 
-    });
   } while (cursor);
   
-  log('info', 'All owned objects fetched', { 
-    walletAddress,
-    totalObjects: allObjects.length 
-  });
-  
   return allObjects;
 }
 
@@ -652,10 +583,28 @@ function isNFTObject(obj: SuiObjectData): boolean {
  */
 async function processDynamicFields(
   dynamicFields: DynamicFieldsResponse, 
-  kioskId: string
+  kioskId: string,
+  client: SuiClient
 ): Promise<NFTInfo[]> {
+  const itemIdsToFetch = await resolveKioskItemIds(dynamicFields, kioskId, client);
+
+  if (itemIdsToFetch.length === 0) {
+    return [];
+  }
+
+  const fetchedObjects = await batchFetchObjects(itemIdsToFetch, client);
+  return toKioskNFTs(fetchedObjects, kioskId);
+}
+
+/**
+ * Resolves the IDs of the items a kiosk's dynamic fields point to.
+ */
+async function resolveKioskItemIds(
+  dynamicFields: DynamicFieldsResponse,
+  kioskId: string,
+  client: SuiClient
+): Promise<string[]> {
   const itemIdsToFetch: string[] = [];
-  const potentialNFTs: NFTInfo[] = [];
   const seen = new Set<string>();
 
   // First pass: extract directly from dynamic field name (kiosk often encodes item id in the key)
@@ -679,7 +628,7 @@ async function processDynamicFields(
         if (!field) break;
         try {
           const dfObj = await withRetry(async () => {
-            return await suiClient.getDynamicFieldObject({
+            return await client.getDynamicFieldObject({
               parentId: kioskId,
               name: (field as any).name,
             });
@@ -719,13 +668,16 @@ async function processDynamicFields(
   }
   await Promise.all(workers);
 
-  if (itemIdsToFetch.length === 0) {
-    return [];
-  }
+  return itemIdsToFetch;
+}
 
-  const fetchedObjects = await batchFetchObjects(itemIdsToFetch);
+/**
+ * Keeps a kiosk's items that look like NFTs
+ */
+function toKioskNFTs(items: SuiObjectData[], kioskId: string): NFTInfo[] {
+  const potentialNFTs: NFTInfo[] = [];
 
-  for (const obj of fetchedObjects) {
+  for (const obj of items) {
     if (isNFTObject(obj)) {
       potentialNFTs.push({
         id: obj.objectId,
@@ -743,17 +695,19 @@ async function processDynamicFields(
  * Enhanced function that discovers all kiosks and NFTs in an optimized manner.
  * It fetches all user's objects once, identifies kiosks, then fetches all kiosk contents in batches.
  * @param walletAddress - The wallet address to search for kiosks and NFTs.
+ * @param options - The client to read from.
  * @returns A promise that resolves to an object containing lists of KioskInfo and NFTInfo.
  */
-export async function discoverUserKiosksAndNFTs(walletAddress: string): Promise<{kiosks: KioskInfo[], nfts: NFTInfo[]}> {
+export async function discoverUserKiosksAndNFTs(
+  walletAddress: string,
+  { client }: DiscoveryOptions
+): Promise<{kiosks: KioskInfo[], nfts: NFTInfo[]}> {
   if (!isValidWalletAddress(walletAddress)) {
     throw new ValidationError('Invalid wallet address format', 'walletAddress');
   }
 
-  log('info', 'Starting simplified object discovery', { walletAddress });
-
   try {
-    const allOwnedObjects = await fetchAllOwnedObjects(walletAddress);
+    const allOwnedObjects = await fetchAllOwnedObjects(walletAddress, client);
 
     const nfts = allOwnedObjects.map(obj => ({
       id: obj.objectId,
@@ -772,8 +726,6 @@ export async function discoverUserKiosksAndNFTs(walletAddress: string): Promise<
         itemCount: nfts.length
     }];
     
-    log('info', 'Simplified discovery complete', { objectsFound: nfts.length });
-
     return { kiosks, nfts };
 
   } catch (error) {
@@ -787,24 +739,169 @@ export async function discoverUserKiosksAndNFTs(walletAddress: string): Promise<
   }
 }
 
+/**
+ * Lists the IDs and versions of every object a wallet owns, without their content
+ */
+async function fetchOwnedObjectVersions(walletAddress: string, client: SuiClient): Promise<ObjectVersion[]> {
+  const refs: ObjectVersion[] = [];
+  let cursor: string | null | undefined = null;
+  let paginationCount = 0;
+
+  do {
+    if (paginationCount >= CONFIG.MAX_PAGINATION_LIMIT) {
+      log('warn', 'Owned objects pagination limit reached', { walletAddress, limit: CONFIG.MAX_PAGINATION_LIMIT });
+      break;
+    }
+
+    const batch = await withRetry(() => client.getOwnedObjects({ owner: walletAddress, cursor: cursor || undefined }));
+    for (const entry of batch.data) {
+      if (entry.data) refs.push({ objectId: entry.data.objectId, version: entry.data.version });
+    }
+
+    cursor = batch.nextCursor;
+    paginationCount++;
+  } while (cursor);
+
+  return refs;
+}
+
+function toWalletNFT(obj: SuiObjectData): NFTInfo {
+  return {
+    id: obj.objectId,
+    type: obj.type || 'unknown',
+    display: {
+      name: obj.display?.data?.name || `Object ID: ${obj.objectId.slice(0, 10)}...`,
+      description: obj.display?.data?.description || `Type: ${obj.type}`,
+      image_url: obj.display?.data?.image_url,
+    },
+    kioskId: 'wallet',
+  };
+}
+
+/**
+ * Builds the discovery result from a wallet's owned objects: their kiosk owner caps lead to the kiosks,
+ * whose objects and item IDs come from the given loaders.
+ */
+async function assembleDiscovery(
+  owned: SuiObjectData[],
+  loadObjectsById: (ids: string[]) => Promise<SuiObjectData[]>,
+  loadKioskItemIds: (kiosk: SuiObjectData) => Promise<string[]>
+): Promise<{ kiosks: KioskInfo[]; nfts: NFTInfo[] }> {
+  const ownerCaps = new Map<string, string>();
+  for (const obj of owned) {
+    const kioskId = moveObjectFields(obj.content)?.for;
+    if (obj.type === CONFIG.KIOSK_OWNER_CAP_TYPE && typeof kioskId === 'string' && isValidObjectId(kioskId)) {
+      ownerCaps.set(kioskId, obj.objectId);
+    }
+  }
+
+  const kioskObjects = await loadObjectsById([...ownerCaps.keys()]);
+  const kiosks: KioskInfo[] = kioskObjects.map(kiosk => ({
+    id: kiosk.objectId,
+    ownerCapId: ownerCaps.get(kiosk.objectId)!,
+    itemCount: readKioskItemCount(kiosk),
+  }));
+  const nfts = owned.map(toWalletNFT);
+
+  // Every kiosk's item IDs are resolved side by side, then all items are loaded together in batched calls
+  const itemIds = await Promise.all(kioskObjects.map(kiosk => loadKioskItemIds(kiosk).catch(error => {
+    log('warn', 'Failed to load kiosk contents', {
+      kioskId: kiosk.objectId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return [] as string[];
+  })));
+  try {
+    const items = new Map((await loadObjectsById(itemIds.flat())).map(item => [item.objectId, item]));
+    kioskObjects.forEach((kiosk, index) => {
+      nfts.push(...toKioskNFTs(itemIds[index].flatMap(id => (items.has(id) ? [items.get(id)!] : [])), kiosk.objectId));
+    });
+  } catch (error) {
+    log('warn', 'Failed to load kiosk items', { error: error instanceof Error ? error.message : String(error) });
+  }
+  return { kiosks, nfts };
+}
+
+/**
+ * Reads the wallet's last discovery result from the cache alone, or null if it was never cached
+ */
+async function readCachedDiscovery(
+  walletAddress: string,
+  cache: ObjectCache
+): Promise<{ kiosks: KioskInfo[]; nfts: NFTInfo[] } | null> {
+  const owned = await cache.getListing(`owned:${walletAddress}`);
+  if (!owned) return null;
+
+  const fromCache = async (ids: string[]) => {
+    const objects = await cache.getObjects(ids);
+    return ids.flatMap(id => (objects.has(id) ? [objects.get(id)!] : []));
+  };
+  return assembleDiscovery(await fromCache(owned.ids), fromCache, async kiosk => {
+    const items = await cache.getListing(`kiosk:${kiosk.objectId}`);
+    return items?.version === kiosk.version ? items.ids : [];
+  });
+}
+
+/**
+ * Brings the cached discovery result up to date. Owned objects are listed without content and kiosks and
+ * their items are version-checked, so only objects that are new or changed are fetched in full; a kiosk's
+ * dynamic fields are walked again only when the kiosk's own version has changed.
+ */
+async function refreshCachedDiscovery(
+  walletAddress: string,
+  { client, cache }: Required<CachedDiscoveryOptions>
+): Promise<{ kiosks: KioskInfo[]; nfts: NFTInfo[] }> {
+  const owned = await loadObjectVersions(await fetchOwnedObjectVersions(walletAddress, client), { client, cache });
+  await cache.putListing(`owned:${walletAddress}`, { ids: owned.map(obj => obj.objectId) });
+
+  return assembleDiscovery(owned, ids => loadObjects(ids, { client, cache }), async kiosk => {
+    const key = `kiosk:${kiosk.objectId}`;
+    const items = await cache.getListing(key);
+    if (items?.version === kiosk.version) return items.ids;
+
+    const ids = await resolveKioskItemIds(await fetchKioskDynamicFields(kiosk.objectId, client), kiosk.objectId, client);
+    await cache.putListing(key, { version: kiosk.version, ids });
+    return ids;
+  });
+}
+
 /**
  * Progressive variant: streams back partial results via onProgress callback.
  * Calls onProgress multiple times with incremental NFT batches and final done=true.
+ * With a cache, onProgress is called with the cached result (replace=true) as soon as it is read, and again
+ * with the complete, refreshed result once discovery is done.
  */
 export async function discoverUserKiosksAndNFTsProgressive(
 	walletAddress: string,
-	onProgress: (update: { kiosks?: KioskInfo[]; nfts?: NFTInfo[]; done?: boolean }) => void
+	onProgress: (update: DiscoveryProgress) => void,
+	{ client, cache }: CachedDiscoveryOptions
 ): Promise<{ kiosks: KioskInfo[]; nfts: NFTInfo[] }> {
 	if (!isValidWalletAddress(walletAddress)) {
 		throw new ValidationError('Invalid wallet address format', 'walletAddress');
 	}
 
-	log('info', 'Starting progressive discovery', { walletAddress });
+	if (cache) {
+		try {
+			const cached = await readCachedDiscovery(walletAddress, cache);
+			if (cached) onProgress({ ...cached, replace: true });
+		} catch (error) {
+			log('warn', 'Failed to read cached discovery', {
+				walletAddress,
+				error: error instanceof Error ? error.message : String(error)
+			});
+		}
+	}
 
 	const collectedNFTs: NFTInfo[] = [];
 	let kiosksResult: KioskInfo[] = [];
 
 	try {
+		if (cache) {
+			const result = await refreshCachedDiscovery(walletAddress, { client, cache });
+			onProgress({ ...result, replace: true, done: true });
+			return result;
+		}
+
 		// Start streaming wallet-owned objects immediately
 		const streamWalletOwned = (async () => {
 			let cursor: string | null | undefined = null;
@@ -812,7 +909,7 @@ export async function discoverUserKiosksAndNFTsProgressive(
 			do {
 				if (paginationCount >= CONFIG.MAX_PAGINATION_LIMIT) break;
 				const batch: PaginatedObjectsResponse = await withRetry(async () => {
-					return await suiClient.getOwnedObjects({
+					return await client.getOwnedObjects({
 						owner: walletAddress,
 						cursor: cursor || undefined,
 						options: { showContent: true, showType: true, showDisplay: true },
@@ -822,16 +919,7 @@ export async function discoverUserKiosksAndNFTsProgressive(
 				const validObjects = (batch.data as any[])
 					.map((entry: any) => entry?.data)
 					.filter(Boolean) as SuiObjectData[];
-				const nfts = validObjects.map(obj => ({
-					id: (obj as any).objectId,
-					type: (obj as any).type || 'unknown',
-					display: {
-						name: (obj as any).display?.data?.name || `Object ID: ${String((obj as any).objectId).slice(0, 10)}...`,
-						description: (obj as any).display?.data?.description || `Type: ${(obj as any).type}`,
-						image_url: (obj as any).display?.data?.image_url,
-					},
-					kioskId: 'wallet',
-				})) as NFTInfo[];
+				const nfts = validObjects.map(toWalletNFT);
 
 				if (nfts.length > 0) {
 					collectedNFTs.push(...nfts);
@@ -845,14 +933,14 @@ export async function discoverUserKiosksAndNFTsProgressive(
 
 		// In parallel, discover kiosks and stream kiosk NFTs
 		const streamKioskContents = (async () => {
-			kiosksResult = await getUserKiosks(walletAddress);
+			kiosksResult = await getUserKiosks(walletAddress, { client });
 			if (kiosksResult.length > 0) {
 				onProgress({ kiosks: kiosksResult });
 			}
 			for (const kiosk of kiosksResult) {
 				try {
-					const dynamicFields = await fetchKioskDynamicFields(kiosk.id);
-					const kioskNfts = await processDynamicFields(dynamicFields, kiosk.id);
+					const dynamicFields = await fetchKioskDynamicFields(kiosk.id, client);
+					const kioskNfts = await processDynamicFields(dynamicFields, kiosk.id, client);
 					if (kioskNfts.length > 0) {
 						collectedNFTs.push(...kioskNfts);
 						onProgress({ nfts: kioskNfts });
@@ -885,46 +973,13 @@ export async function discoverUserKiosksAndNFTsProgressive(
  * Kept for backward compatibility but warns about deprecation.
  * @deprecated
  */
-export async function getAllUserNFTsEnhanced(walletAddress: string): Promise<NFTInfo[]> {
+export async function getAllUserNFTsEnhanced(walletAddress: string, options: DiscoveryOptions): Promise<NFTInfo[]> {
   log('warn', '`getAllUserNFTsEnhanced` is deprecated. Use `discoverUserKiosksAndNFTs` instead.');
-  const { nfts } = await discoverUserKiosksAndNFTs(walletAddress);
+  const { nfts } = await discoverUserKiosksAndNFTs(walletAddress, options);
   return nfts;
 }
 
 // Bulk NFT Transfer System
-// Use a workaround for the package exports issue
-let Transaction: any;
-
-// Try to load the Transaction class with error handling
-if (typeof window !== 'undefined') {
-  // Browser environment - use dynamic import
-  (async () => {
-    try {
-      const txModule = await import('@mysten/sui/transactions');
-      Transaction = txModule.Transaction;
-    } catch (error) {
-      console.warn('Failed to load @mysten/sui/transactions:', error);
-    }
-  })();
-} else {
-  // Node.js environment - use require
-  try {
-    // eslint-disable-next-line @typescript-eslint/no-var-requires
-    const txModule = require('@mysten/sui/transactions');
-    Transaction = txModule.Transaction;
-  } catch (error) {
-    console.warn('Failed to load @mysten/sui/transactions:', error);
-  }
-}
-
-// Fallback implementation
-if (!Transaction) {
-  Transaction = class {
-    constructor() {
-      throw new Error('Transaction class not properly loaded - please refresh the page');
-    }
-  };
-}
 
 // Bulk transfer configuration
 const BULK_TRANSFER_CONFIG = {
@@ -988,18 +1043,17 @@ export function parseWalletAddresses(input: string): string[] {
 /**
  * Gets available NFT types from user's collection with counts
  * @param walletAddress - The wallet address to get NFT types for
+ * @param options - The client to read from
  * @returns Promise resolving to array of NFTSelection objects
  */
-export async function getAvailableNFTTypes(walletAddress: string): Promise<NFTSelection[]> {
+export async function getAvailableNFTTypes(walletAddress: string, options: DiscoveryOptions): Promise<NFTSelection[]> {
   // Input validation
   if (!isValidWalletAddress(walletAddress)) {
     throw new ValidationError('Invalid wallet address format', 'walletAddress');
   }
 
-  log('info', 'Getting available NFT types', { walletAddress });
-  
   try {
-    const nfts = await discoverUserKiosksAndNFTs(walletAddress);
+    const nfts = await discoverUserKiosksAndNFTs(walletAddress, options);
     
     // Group NFTs by type
     const nftGroups = new Map<string, NFTInfo[]>();
@@ -1021,11 +1075,6 @@ export async function getAvailableNFTTypes(walletAddress: string): Promise<NFTSe
       });
     }
     
-    log('info', 'Available NFT types retrieved', { 
-      walletAddress,
-      typesFound: selections.length 
-    });
-    
     return selections;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -1041,10 +1090,10 @@ export async function getAvailableNFTTypes(walletAddress: string): Promise<NFTSe
 /**
  * Prepares recipients for bulk transfer by discovering/creating kiosks
  * @param walletAddresses - Array of wallet addresses
+ * @param options - The client to read from
  * @returns Promise resolving to array of BulkTransferRecipient objects
  */
-export async function prepareBulkTransferRecipients(walletAddresses: string[]): Promise<BulkTransferRecipient[]> {
-  log('info', 'Preparing bulk transfer recipients', { recipientCount: walletAddresses.length });
+export async function prepareBulkTransferRecipients(walletAddresses: string[], options: DiscoveryOptions): Promise<BulkTransferRecipient[]> {
   
   const recipients: BulkTransferRecipient[] = [];
   
@@ -1054,7 +1103,7 @@ export async function prepareBulkTransferRecipients(walletAddresses: string[]):
     
     const batchPromises = batch.map(async (walletAddress) => {
       try {
-        const kiosks = await getUserKiosks(walletAddress);
+        const kiosks = await getUserKiosks(walletAddress, options);
         const hasKiosk = kiosks.length > 0;
         
         return {
@@ -1088,12 +1137,6 @@ export async function prepareBulkTransferRecipients(walletAddresses: string[]):
     }
   }
   
-  log('info', 'Recipients prepared', { 
-    totalRecipients: recipients.length,
-    withKiosks: recipients.filter(r => r.hasKiosk).length,
-    withoutKiosks: recipients.filter(r => !r.hasKiosk).length
-  });
-  
   return recipients;
 }
 
@@ -1110,7 +1153,7 @@ export function createBulkTransferTransaction(
   recipients: BulkTransferRecipient[],
   nftType: string,
   nftIds: string[]
-): any {
+): Transaction {
   if (!isValidWalletAddress(senderWalletAddress)) {
     throw new ValidationError('Invalid sender wallet address format', 'senderWalletAddress');
   }
@@ -1119,13 +1162,7 @@ export function createBulkTransferTransaction(
     throw new ValidationError('Recipients count must match NFT IDs count', 'recipients');
   }
   
-  log('info', 'Creating bulk transfer transaction', { 
-    senderWalletAddress,
-    recipientCount: recipients.length,
-    nftType 
-  });
-  
-  const txb = new (Transaction as any)();
+  const txb = new Transaction();
   
   for (let i = 0; i < recipients.length; i++) {
     const recipient = recipients[i];
@@ -1148,11 +1185,6 @@ export function createBulkTransferTransaction(
           typeArguments: [nftType]
         });
         
-        log('debug', 'Added transfer to existing kiosk', {
-          recipient: recipient.walletAddress,
-          kioskId: recipient.kioskId,
-          nftId
-        });
       } else {
         // Create new kiosk and transfer
         const [kiosk, ownerCap] = txb.moveCall({
@@ -1170,10 +1202,6 @@ export function createBulkTransferTransaction(
           typeArguments: [nftType]
         });
         
-        log('debug', 'Added transfer to new kiosk', {
-          recipient: recipient.walletAddress,
-          nftId
-        });
       }
     } catch (error) {
       log('error', 'Failed to add transfer to transaction', {
@@ -1187,10 +1215,6 @@ export function createBulkTransferTransaction(
     }
   }
   
-  log('info', 'Bulk transfer transaction created', { 
-    totalTransfers: recipients.filter(r => r.status === 'pending').length 
-  });
-  
   return txb;
 }
 
@@ -1199,12 +1223,14 @@ export function createBulkTransferTransaction(
  * @param senderWalletAddress - The sender's wallet address
  * @param recipientAddressesInput - Comma-separated wallet addresses
  * @param nftType - The NFT type to transfer
+ * @param options - The client to read from
  * @returns Promise resolving to BulkTransferResult
  */
 export async function bulkTransferNFTs(
   senderWalletAddress: string,
   recipientAddressesInput: string,
-  nftType: string
+  nftType: string,
+  options: DiscoveryOptions
 ): Promise<BulkTransferResult> {
   // Input validation
   if (!isValidWalletAddress(senderWalletAddress)) {
@@ -1219,12 +1245,6 @@ export async function bulkTransferNFTs(
     throw new ValidationError('Recipient addresses are required', 'recipientAddresses');
   }
   
-  log('info', 'Starting bulk NFT transfer', { 
-    senderWalletAddress,
-    nftType,
-    recipientInput: recipientAddressesInput.substring(0, 100) + '...' // Log first 100 chars
-  });
-  
   try {
     // Parse recipient addresses
     const recipientAddresses = parseWalletAddresses(recipientAddressesInput);
@@ -1234,7 +1254,7 @@ export async function bulkTransferNFTs(
     }
     
     // Get available NFTs of the specified type
-    const nftSelections = await getAvailableNFTTypes(senderWalletAddress);
+    const nftSelections = await getAvailableNFTTypes(senderWalletAddress, options);
     const selectedNFTType = nftSelections.find(selection => selection.type === nftType);
     
     if (!selectedNFTType) {
@@ -1249,7 +1269,7 @@ export async function bulkTransferNFTs(
     }
     
     // Prepare recipients
-    const recipients = await prepareBulkTransferRecipients(recipientAddresses);
+    const recipients = await prepareBulkTransferRecipients(recipientAddresses, options);
     
     // Select NFTs to transfer (first N NFTs of the specified type)
     const nftsToTransfer = selectedNFTType.nftIds.slice(0, recipients.length);
@@ -1273,12 +1293,6 @@ export async function bulkTransferNFTs(
       errors: recipients.filter(r => r.error).map(r => r.error!)
     };
     
-    log('info', 'Bulk transfer prepared', { 
-      totalRecipients: result.totalRecipients,
-      successful: result.successful,
-      failed: result.failed 
-    });
-    
     return result;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -1303,9 +1317,10 @@ export async function bulkTransferNFTs(
 export async function prepareBulkKioskTransfer(
 	senderWalletAddress: string,
 	recipientAddressesInput: string,
-	nftType: string
+	nftType: string,
+	options: DiscoveryOptions
 ): Promise<{
-	transaction: any;
+	transaction: Transaction;
 	recipients: BulkTransferRecipient[];
 	nftIds: string[];
 }> {
@@ -1324,7 +1339,7 @@ export async function prepareBulkKioskTransfer(
 		throw new ValidationError('No valid recipient addresses found', 'recipients');
 	}
 
-	const nftSelections = await getAvailableNFTTypes(senderWalletAddress);
+	const nftSelections = await getAvailableNFTTypes(senderWalletAddress, options);
 	const selectedNFTType = nftSelections.find(selection => selection.type === nftType);
 	if (!selectedNFTType) {
 		throw new ValidationError(`NFT type '${nftType}' not found in sender's collection`, 'nftType');
@@ -1336,7 +1351,7 @@ export async function prepareBulkKioskTransfer(
 		);
 	}
 
-	const recipients = await prepareBulkTransferRecipients(recipientAddresses);
+	const recipients = await prepareBulkTransferRecipients(recipientAddresses, options);
 	const nftsToTransfer = selectedNFTType.nftIds.slice(0, recipients.length);
 	const transaction = createBulkTransferTransaction(
 		senderWalletAddress,
@@ -1353,12 +1368,14 @@ export async function prepareBulkKioskTransfer(
  * @param senderWalletAddress - The sender's wallet address
  * @param recipientAddressesInput - Comma-separated wallet addresses
  * @param nftType - The NFT type to transfer
+ * @param options - The client to read from
  * @returns Promise resolving to validation result
  */
 export async function validateBulkTransfer(
   senderWalletAddress: string,
   recipientAddressesInput: string,
-  nftType: string
+  nftType: string,
+  options: DiscoveryOptions
 ): Promise<{
   isValid: boolean;
   errors: string[];
@@ -1396,7 +1413,7 @@ export async function validateBulkTransfer(
         // Check NFT availability if sender and NFT type are valid
         if (errors.length === 0 && isValidWalletAddress(senderWalletAddress) && nftType) {
           try {
-            const nftSelections = await getAvailableNFTTypes(senderWalletAddress);
+            const nftSelections = await getAvailableNFTTypes(senderWalletAddress, options);
             const selectedNFTType = nftSelections.find(selection => selection.type === nftType);
             
             if (!selectedNFTType) {
@@ -1453,46 +1470,24 @@ export async function validateBulkTransfer(
 /**
  * Test function to verify SuiClient is working
  * @param walletAddress - Wallet address to test with
+ * @param options - The client to test
  * @returns Promise resolving to test result
  */
-export async function testSuiClient(walletAddress: string): Promise<{
+export async function testSuiClient(walletAddress: string, { client }: DiscoveryOptions): Promise<{
   isWorking: boolean;
   error?: string;
   clientInfo?: any;
 }> {
   try {
-    log('info', 'Testing SuiClient connection', { walletAddress });
-    
-    // Use the simple client test function
-    // This function is no longer directly available in simple-sui-client,
-    // but the original code had a placeholder.
-    // For now, we'll assume suiClient is the global client or imported elsewhere.
-    // If suiClient is not available, this test will fail.
-    // A more robust test would involve a direct SuiClient instance.
-    
-    // Example placeholder test (replace with actual client test if suiClient is global)
-    // For now, we'll just check if suiClient is defined.
-    if (typeof suiClient === 'undefined') {
-      log('error', 'SuiClient is not available. Please ensure @mysten/sui/client is imported.');
-      return {
-        isWorking: false,
-        error: 'SuiClient not available'
-      };
-    }
 
     // Attempt to get an object to check connection
     const testObject = await withRetry(async () => {
-      return await suiClient.getObject({
+      return await client.getObject({
         id: '0x2::sui::Sui', // A known object to check connection
         options: { showType: true }
       });
     });
 
-    log('info', 'SuiClient test successful', { 
-      walletAddress,
-      network: 'placeholder' // This would require actual network info
-    });
-    
     return {
       isWorking: true,
       clientInfo: {
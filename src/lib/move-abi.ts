@@ -0,0 +1,229 @@
+// Move ABI Resolution - Fetches normalized Move function signatures to type moveCall arguments
+import type { SuiClient, SuiMoveNormalizedModules, SuiMoveNormalizedType } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { type PtbCommand } from "./ptb-parser";
+import { parseMoveType, formatMoveType } from "./move-types";
+
+export interface MoveFunctionSignature {
+  target: string;
+  typeParameterCount: number;
+  // Parameters the caller supplies, i.e. without the trailing TxContext
+  parameters: SuiMoveNormalizedType[];
+  returnCount: number;
+}
+
+export type MoveCallSignatures = Map<string, MoveFunctionSignature>;
+
+export interface AbiResolveOptions {
+  client: SuiClient;
+  network: string;
+}
+
+// Normalized modules per `${network}:${packageId}`; failed lookups are evicted so they can be retried
+const packageCache = new Map<string, Promise<SuiMoveNormalizedModules>>();
+
+/**
+ * Drops the cached packages of one network, or of all. Call it whenever a network's RPC URL changes.
+ */
+export function clearMoveAbiCache(network?: string): void {
+  if (!network) {
+    packageCache.clear();
+    return;
+  }
+  for (const key of packageCache.keys()) {
+    if (key.startsWith(`${network}:`)) {
+      packageCache.delete(key);
+    }
+  }
+}
+
+function splitTarget(target: string): [string, string, string] {
+  const parts = target.split("::");
+  if (parts.length !== 3) {
+    throw new Error(`Invalid move call target '${target}'`);
+  }
+  return [normalizeSuiAddress(parts[0]), parts[1], parts[2]];
+}
+
+export function normalizeMoveTarget(target: string): string {
+  return splitTarget(target).join("::");
+}
+
+function loadPackage(client: SuiClient, network: string, packageId: string): Promise<SuiMoveNormalizedModules> {
+  const key = `${network}:${packageId}`;
+  let modules = packageCache.get(key);
+  if (!modules) {
+    modules = client.getNormalizedMoveModulesByPackage({ package: packageId });
+    packageCache.set(key, modules);
+    modules.catch(() => packageCache.delete(key));
+  }
+  return modules;
+}
+
+function isTxContext(type: SuiMoveNormalizedType): boolean {
+  const inner = typeof type === "object" && ("Reference" in type || "MutableReference" in type)
+    ? ("Reference" in type ? type.Reference : type.MutableReference)
+    : type;
+  return typeof inner === "object"
+    && "Struct" in inner
+    && normalizeSuiAddress(inner.Struct.address) === normalizeSuiAddress("0x2")
+    && inner.Struct.module === "tx_context"
+    && inner.Struct.name === "TxContext";
+}
+
+/**
+ * Fetches the signature of a single Move function, using the per-network package cache.
+ */
+export async function getMoveFunctionSignature(
+  target: string,
+  { client, network }: AbiResolveOptions
+): Promise<MoveFunctionSignature> {
+  const [packageId, module, fn] = splitTarget(target);
+  const modules = await loadPackage(client, network, packageId);
+
+  const moveModule = modules[module];
+  if (!moveModule) {
+    throw new Error(`Module '${module}' not found in package ${packageId}`);
+  }
+  const moveFunction = moveModule.exposedFunctions[fn];
+  if (!moveFunction) {
+    throw new Error(`Function '${fn}' not found in module ${module}`);
+  }
+
+  return {
+    target: normalizeMoveTarget(target),
+    typeParameterCount: moveFunction.typeParameters.length,
+    parameters: moveFunction.parameters.filter(param => !isTxContext(param)),
+    returnCount: moveFunction.return.length,
+  };
+}
+
+/**
+ * Fetches signatures for every moveCall target in the commands.
+ * Errors name the first command that uses a target whose signature could not be loaded.
+ */
+export async function resolveMoveCallSignatures(
+  commands: PtbCommand[],
+  options: AbiResolveOptions
+): Promise<MoveCallSignatures> {
+  const firstUse = new Map<string, number>();
+  commands.forEach((command, index) => {
+    if (command.type === "moveCall" && command.target) {
+      const target = normalizeMoveTarget(command.target);
+      if (!firstUse.has(target)) {
+        firstUse.set(target, index);
+      }
+    }
+  });
+
+  const signatures: MoveCallSignatures = new Map();
+  await Promise.all(Array.from(firstUse, async ([target, index]) => {
+    try {
+      signatures.set(target, await getMoveFunctionSignature(target, options));
+    } catch (error) {
+      throw new Error(`Command ${index + 1}: could not load signature for ${target}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }));
+
+  return signatures;
+}
+
+/**
+ * Renders a normalized parameter type as a Move type string, substituting type arguments.
+ * Returns null for references and signers, which are never pure.
+ */
+function normalizedTypeToString(type: SuiMoveNormalizedType, typeArguments: string[]): string | null {
+  if (typeof type === "string") {
+    return type === "Signer" ? null : type.toLowerCase();
+  }
+  if ("Vector" in type) {
+    const element = normalizedTypeToString(type.Vector, typeArguments);
+    return element === null ? null : `vector<${element}>`;
+  }
+  if ("TypeParameter" in type) {
+    return typeArguments[type.TypeParameter] ?? null;
+  }
+  if ("Struct" in type) {
+    const { address, module, name, typeArguments: structArgs } = type.Struct;
+    const params = structArgs.map(arg => normalizedTypeToString(arg, typeArguments));
+    if (params.some(param => param === null)) {
+      return null;
+    }
+    return params.length > 0
+      ? `${address}::${module}::${name}<${params.join(", ")}>`
+      : `${address}::${module}::${name}`;
+  }
+  return null;
+}
+
+/**
+ * Returns the pure Move type for a parameter, or null when the parameter takes an object.
+ */
+export function parameterPureType(type: SuiMoveNormalizedType, typeArguments: string[]): string | null {
+  const typeString = normalizedTypeToString(type, typeArguments);
+  if (typeString === null) {
+    return null;
+  }
+  try {
+    return formatMoveType(parseMoveType(typeString));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True when a parameter takes its argument by value and the value cannot be copied, so the call moves it.
+ * Pure types all have `copy`; other structs are assumed not to.
+ */
+export function parameterMovesArgument(type: SuiMoveNormalizedType, typeArguments: string[]): boolean {
+  if (typeof type === "object" && ("Reference" in type || "MutableReference" in type)) {
+    return false;
+  }
+  return parameterPureType(type, typeArguments) === null;
+}
+
+/**
+ * Checks a moveCall against its on-chain signature and returns the Move type of each parameter,
+ * normalized for pure parameters (null for references and signers).
+ * Vector and option arguments take their element types from these.
+ */
+export function checkMoveCallSignature(
+  signature: MoveFunctionSignature,
+  command: PtbCommand,
+  commandIndex: string
+): (string | null)[] {
+  const args = command.arguments || [];
+  const typeArguments = command.typeArguments || [];
+
+  if (typeArguments.length !== signature.typeParameterCount) {
+    throw new Error(`${commandIndex}: ${signature.target} expects ${signature.typeParameterCount} type argument(s), got ${typeArguments.length}`);
+  }
+  if (args.length !== signature.parameters.length) {
+    throw new Error(`${commandIndex}: ${signature.target} expects ${signature.parameters.length} argument(s), got ${args.length}`);
+  }
+  if (Array.isArray(command.assign) && command.assign.length > signature.returnCount) {
+    throw new Error(`${commandIndex}: ${signature.target} returns ${signature.returnCount} value(s), cannot assign ${command.assign.length} names`);
+  }
+
+  return signature.parameters.map((param, index) => {
+    const pureType = parameterPureType(param, typeArguments);
+    const arg = args[index];
+    const context = `${commandIndex}, argument ${index + 1}`;
+
+    if (arg.type === "pure") {
+      if (pureType === null) {
+        throw new Error(`${context}: ${signature.target} expects an object here, not a pure value`);
+      }
+      if (arg.moveType && formatMoveType(parseMoveType(arg.moveType)) !== pureType) {
+        throw new Error(`${context}: declared moveType '${arg.moveType}' but ${signature.target} expects '${pureType}'`);
+      }
+    }
+    if (arg.type === "sender" && pureType !== "address") {
+      throw new Error(`${context}: ${signature.target} expects ${pureType ? `'${pureType}'` : "an object"} here, not the sender address`);
+    }
+    if ((arg.type === "gas" || arg.type === "system") && pureType !== null) {
+      throw new Error(`${context}: ${signature.target} expects '${pureType}' here, not an object`);
+    }
+    return pureType ?? normalizedTypeToString(param, typeArguments);
+  });
+}
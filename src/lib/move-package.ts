@@ -0,0 +1,75 @@
+// Move Package Utilities - Decodes compiled modules and computes package digests for publish and upgrade
+import { blake2b } from "@noble/hashes/blake2b";
+import { fromBase64, fromHex, normalizeSuiAddress } from "@mysten/sui/utils";
+
+export class MovePackageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MovePackageError";
+  }
+}
+
+export function isBase64(value: unknown): value is string {
+  return typeof value === "string" && value.length % 4 === 0 && /^[A-Za-z0-9+/]+={0,2}$/.test(value);
+}
+
+/**
+ * Decodes base64 module bytecode as printed by `sui move build --dump-bytecode-as-base64`.
+ */
+export function decodeModules(modules: string[]): Uint8Array[] {
+  return modules.map((module, index) => {
+    if (!isBase64(module)) {
+      throw new MovePackageError(`module ${index + 1} is not valid base64`);
+    }
+    return fromBase64(module);
+  });
+}
+
+/**
+ * Parses a package digest given as a byte array (the CLI's format) or a hex string.
+ */
+export function parsePackageDigest(digest: unknown): Uint8Array {
+  let bytes: Uint8Array;
+  if (typeof digest === "string") {
+    const hex = digest.startsWith("0x") ? digest.slice(2) : digest;
+    if (!/^[0-9a-fA-F]*$/.test(hex)) {
+      throw new MovePackageError("digest must be a byte array or a hex string");
+    }
+    bytes = fromHex(hex);
+  } else if (Array.isArray(digest) && digest.every(byte => Number.isInteger(byte) && byte >= 0 && byte <= 255)) {
+    bytes = Uint8Array.from(digest);
+  } else {
+    throw new MovePackageError("digest must be a byte array or a hex string");
+  }
+
+  if (bytes.length !== 32) {
+    throw new MovePackageError(`digest must be 32 bytes, got ${bytes.length}`);
+  }
+  return bytes;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Computes the digest Sui authorizes upgrades against: Blake2b-256 over the sorted
+ * Blake2b-256 digests of each module together with the dependency IDs.
+ */
+export function computePackageDigest(modules: Uint8Array[], dependencies: string[]): Uint8Array {
+  const components = [
+    ...modules.map(module => blake2b(module, { dkLen: 32 })),
+    ...dependencies.map(dependency => fromHex(normalizeSuiAddress(dependency).slice(2))),
+  ].sort(compareBytes);
+
+  const hash = blake2b.create({ dkLen: 32 });
+  for (const component of components) {
+    hash.update(component);
+  }
+  return hash.digest();
+}
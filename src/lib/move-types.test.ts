@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { bcs } from "@mysten/sui/bcs";
+import { decodePureValue, encodePureValue, MoveTypeError, parseMoveType } from "./move-types";
+
+const ADDRESS = "0x" + "b".repeat(64);
+
+describe("parseMoveType", () => {
+  it("parses nested generic types, normalizing struct addresses", () => {
+    expect(parseMoveType("vector<0x01::option::Option<u128>>")).toEqual({
+      kind: "vector",
+      element: { kind: "option", element: { kind: "u128" } },
+    });
+    expect(parseMoveType("0x2::object::ID")).toEqual({ kind: "id" });
+  });
+
+  it("rejects object-prototype names rather than treating them as integers", () => {
+    for (const name of ["toString", "constructor", "__proto__", "hasOwnProperty"]) {
+      expect(() => parseMoveType(name)).toThrow(MoveTypeError);
+    }
+  });
+
+  it("rejects structs that cannot be pure and malformed generics", () => {
+    expect(() => parseMoveType("0x2::kiosk::Kiosk")).toThrow("cannot be passed as a pure value");
+    expect(() => parseMoveType("vector<u8")).toThrow("Unbalanced");
+    expect(() => parseMoveType("vector<u8, u16>")).toThrow("exactly one element type");
+  });
+});
+
+describe("encodePureValue", () => {
+  it("checks every integer width's range", () => {
+    expect(encodePureValue("u8", 255)).toEqual(bcs.u8().serialize(255).toBytes());
+    expect(() => encodePureValue("u8", 256)).toThrow("value 256 does not fit in u8");
+    expect(() => encodePureValue("u16", 65536)).toThrow("does not fit in u16");
+    expect(() => encodePureValue("u32", 2 ** 32)).toThrow("does not fit in u32");
+    expect(() => encodePureValue("u64", (1n << 64n).toString())).toThrow("does not fit in u64");
+    expect(() => encodePureValue("u64", -1)).toThrow("does not fit in u64");
+  });
+
+  it("takes u128 and u256 values beyond JS numbers as strings", () => {
+    const maxU128 = ((1n << 128n) - 1n).toString();
+    const maxU256 = ((1n << 256n) - 1n).toString();
+    expect(decodePureValue("u128", encodePureValue("u128", maxU128))).toBe(maxU128);
+    expect(decodePureValue("u256", encodePureValue("u256", maxU256))).toBe(maxU256);
+    expect(() => encodePureValue("u128", (1n << 128n).toString())).toThrow("does not fit in u128");
+    expect(() => encodePureValue("u64", 2 ** 60)).toThrow("not a safe integer");
+  });
+
+  it("rejects fractions, signs and other non-integers", () => {
+    expect(() => encodePureValue("u64", 1.5)).toThrow("not a safe integer");
+    expect(() => encodePureValue("u64", "-3")).toThrow("expected an unsigned integer");
+    expect(() => encodePureValue("u64", "1e3")).toThrow("expected an unsigned integer");
+  });
+
+  it("encodes addresses, bools and strings, and checks their shape", () => {
+    expect(encodePureValue("address", "0x2")).toEqual(bcs.Address.serialize("0x2").toBytes());
+    expect(() => encodePureValue("address", "0xnope")).toThrow("expected a 0x-prefixed address");
+    for (const value of ["", "0x", "0xzz", "2"]) {
+      expect(() => encodePureValue("address", value)).toThrow("expected a 0x-prefixed address");
+      expect(() => encodePureValue("0x2::object::ID", value)).toThrow("expected a 0x-prefixed address");
+    }
+    expect(encodePureValue("bool", true)).toEqual(new Uint8Array([1]));
+    expect(() => encodePureValue("bool", "true")).toThrow("expected a boolean");
+    expect(encodePureValue("0x1::string::String", "héllo")).toEqual(bcs.string().serialize("héllo").toBytes());
+    expect(() => encodePureValue("0x1::ascii::String", "héllo")).toThrow("non-ASCII");
+  });
+
+  it("encodes vectors and options element by element", () => {
+    expect(encodePureValue("vector<u16>", [1, 2])).toEqual(bcs.vector(bcs.u16()).serialize([1, 2]).toBytes());
+    expect(() => encodePureValue("vector<u8>", [1, 300])).toThrow("element 1: value 300 does not fit in u8");
+    expect(encodePureValue("vector<u8>", "0x0102", "hex")).toEqual(new Uint8Array([2, 1, 2]));
+    expect(encodePureValue("0x1::option::Option<address>", null)).toEqual(new Uint8Array([0]));
+    expect(decodePureValue("0x1::option::Option<address>", encodePureValue("0x1::option::Option<address>", ADDRESS))).toBe(ADDRESS);
+  });
+});
@@ -0,0 +1,326 @@
+// Move Type Utilities - Parses pure Move type strings and BCS-encodes values against them
+import { bcs, type BcsType } from "@mysten/sui/bcs";
+import { normalizeSuiAddress, isValidSuiAddress, fromHex } from "@mysten/sui/utils";
+
+export type IntegerKind = "u8" | "u16" | "u32" | "u64" | "u128" | "u256";
+
+export type PureMoveType =
+  | { kind: IntegerKind }
+  | { kind: "bool" }
+  | { kind: "address" }
+  | { kind: "id" }
+  | { kind: "string" }
+  | { kind: "ascii" }
+  | { kind: "vector"; element: PureMoveType }
+  | { kind: "option"; element: PureMoveType };
+
+const INTEGER_BITS: Record<IntegerKind, number> = {
+  u8: 8,
+  u16: 16,
+  u32: 32,
+  u64: 64,
+  u128: 128,
+  u256: 256,
+};
+
+const STD = normalizeSuiAddress("0x1");
+const SUI = normalizeSuiAddress("0x2");
+
+// Struct types that can be passed as pure arguments, keyed by normalized address::module::name
+const PURE_STRUCTS: Record<string, "string" | "ascii" | "id" | "option"> = {
+  [`${STD}::string::String`]: "string",
+  [`${STD}::ascii::String`]: "ascii",
+  [`${STD}::option::Option`]: "option",
+  [`${SUI}::object::ID`]: "id",
+};
+
+export class MoveTypeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MoveTypeError";
+  }
+}
+
+/**
+ * Parses a Move type string such as `u64`, `vector<address>` or
+ * `0x1::option::Option<0x1::string::String>` into a pure type description.
+ * Throws MoveTypeError for malformed types or types that cannot be passed as pure values.
+ */
+export function parseMoveType(typeString: string): PureMoveType {
+  const type = typeString.trim();
+
+  if (Object.prototype.hasOwnProperty.call(INTEGER_BITS, type)) {
+    return { kind: type as IntegerKind };
+  }
+  if (type === "bool" || type === "address") {
+    return { kind: type };
+  }
+
+  const genericStart = type.indexOf("<");
+  const base = genericStart === -1 ? type : type.slice(0, genericStart);
+  const typeParams = genericStart === -1 ? [] : splitTypeParams(type, genericStart);
+
+  if (base === "vector") {
+    if (typeParams.length !== 1) {
+      throw new MoveTypeError(`'${typeString}' must have exactly one element type`);
+    }
+    return { kind: "vector", element: parseMoveType(typeParams[0]) };
+  }
+
+  const parts = base.split("::");
+  if (parts.length !== 3) {
+    throw new MoveTypeError(`Unsupported Move type '${typeString}'`);
+  }
+
+  const [address, module, name] = parts;
+  if (!isValidSuiAddress(normalizeSuiAddress(address))) {
+    throw new MoveTypeError(`Invalid address '${address}' in type '${typeString}'`);
+  }
+
+  const structKind = PURE_STRUCTS[`${normalizeSuiAddress(address)}::${module}::${name}`];
+  if (!structKind) {
+    throw new MoveTypeError(`'${typeString}' cannot be passed as a pure value`);
+  }
+
+  if (structKind === "option") {
+    if (typeParams.length !== 1) {
+      throw new MoveTypeError(`'${typeString}' must have exactly one type parameter`);
+    }
+    return { kind: "option", element: parseMoveType(typeParams[0]) };
+  }
+
+  if (typeParams.length > 0) {
+    throw new MoveTypeError(`'${base}' does not take type parameters`);
+  }
+  return { kind: structKind };
+}
+
+function splitTypeParams(type: string, genericStart: number): string[] {
+  if (!type.endsWith(">")) {
+    throw new MoveTypeError(`Unbalanced '<' in type '${type}'`);
+  }
+
+  const inner = type.slice(genericStart + 1, -1);
+  const params: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of inner) {
+    if (char === "<") depth++;
+    if (char === ">") depth--;
+    if (depth < 0) {
+      throw new MoveTypeError(`Unbalanced '>' in type '${type}'`);
+    }
+    if (char === "," && depth === 0) {
+      params.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  if (depth !== 0) {
+    throw new MoveTypeError(`Unbalanced '<' in type '${type}'`);
+  }
+  if (current.trim()) {
+    params.push(current.trim());
+  }
+  return params;
+}
+
+/**
+ * Returns the single type parameter of a generic type string, e.g. `u8` for `vector<u8>`
+ * or `0x2::kiosk::Kiosk` for `0x1::option::Option<0x2::kiosk::Kiosk>`; null when there is none.
+ */
+export function innerTypeOf(typeString: string): string | null {
+  const type = typeString.trim();
+  const genericStart = type.indexOf("<");
+  if (genericStart === -1) {
+    return null;
+  }
+  const params = splitTypeParams(type, genericStart);
+  return params.length === 1 ? params[0] : null;
+}
+
+export function isPureMoveType(typeString: string): boolean {
+  try {
+    parseMoveType(typeString);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function formatMoveType(type: PureMoveType): string {
+  switch (type.kind) {
+    case "string":
+      return "0x1::string::String";
+    case "ascii":
+      return "0x1::ascii::String";
+    case "id":
+      return "0x2::object::ID";
+    case "vector":
+      return `vector<${formatMoveType(type.element)}>`;
+    case "option":
+      return `0x1::option::Option<${formatMoveType(type.element)}>`;
+    default:
+      return type.kind;
+  }
+}
+
+function bcsSchema(type: PureMoveType): BcsType<unknown, unknown> {
+  switch (type.kind) {
+    case "u8":
+      return bcs.u8() as BcsType<unknown, unknown>;
+    case "u16":
+      return bcs.u16() as BcsType<unknown, unknown>;
+    case "u32":
+      return bcs.u32() as BcsType<unknown, unknown>;
+    case "u64":
+      return bcs.u64() as BcsType<unknown, unknown>;
+    case "u128":
+      return bcs.u128() as BcsType<unknown, unknown>;
+    case "u256":
+      return bcs.u256() as BcsType<unknown, unknown>;
+    case "bool":
+      return bcs.bool() as BcsType<unknown, unknown>;
+    case "address":
+    case "id":
+      return bcs.Address as BcsType<unknown, unknown>;
+    case "string":
+    case "ascii":
+      return bcs.string() as BcsType<unknown, unknown>;
+    case "vector":
+      return bcs.vector(bcsSchema(type.element)) as BcsType<unknown, unknown>;
+    case "option":
+      return bcs.option(bcsSchema(type.element)) as BcsType<unknown, unknown>;
+  }
+}
+
+/**
+ * Checks a JSON value against a pure Move type and converts it to the shape the BCS schema expects.
+ * Integers may be given as safe JS numbers, decimal strings or bigints.
+ * `vector<u8>` also accepts a string, decoded according to `encoding` (utf8 by default).
+ */
+function coerceValue(type: PureMoveType, value: unknown, encoding?: string): unknown {
+  const typeName = formatMoveType(type);
+
+  switch (type.kind) {
+    case "u8":
+    case "u16":
+    case "u32":
+    case "u64":
+    case "u128":
+    case "u256": {
+      let parsed: bigint;
+      if (typeof value === "bigint") {
+        parsed = value;
+      } else if (typeof value === "number") {
+        if (!Number.isSafeInteger(value)) {
+          throw new MoveTypeError(`${value} is not a safe integer for ${typeName}; pass large values as a string`);
+        }
+        parsed = BigInt(value);
+      } else if (typeof value === "string" && /^\d+$/.test(value)) {
+        parsed = BigInt(value);
+      } else {
+        throw new MoveTypeError(`expected an unsigned integer for ${typeName}, got ${JSON.stringify(value)}`);
+      }
+
+      const max = (1n << BigInt(INTEGER_BITS[type.kind])) - 1n;
+      if (parsed < 0n || parsed > max) {
+        throw new MoveTypeError(`value ${parsed} does not fit in ${typeName}`);
+      }
+      return INTEGER_BITS[type.kind] <= 32 ? Number(parsed) : parsed.toString();
+    }
+
+    case "bool":
+      if (typeof value !== "boolean") {
+        throw new MoveTypeError(`expected a boolean for bool, got ${JSON.stringify(value)}`);
+      }
+      return value;
+
+    case "address":
+    case "id": {
+      // normalizeSuiAddress pads "" and "0x" to the zero address, so check the hex before normalizing
+      if (typeof value !== "string" || !/^0x[0-9a-fA-F]{1,64}$/.test(value) || !isValidSuiAddress(normalizeSuiAddress(value))) {
+        throw new MoveTypeError(`expected a 0x-prefixed address for ${typeName}, got ${JSON.stringify(value)}`);
+      }
+      return normalizeSuiAddress(value);
+    }
+
+    case "string":
+      if (typeof value !== "string") {
+        throw new MoveTypeError(`expected a string for ${typeName}, got ${JSON.stringify(value)}`);
+      }
+      return value;
+
+    case "ascii":
+      if (typeof value !== "string") {
+        throw new MoveTypeError(`expected a string for ${typeName}, got ${JSON.stringify(value)}`);
+      }
+      // eslint-disable-next-line no-control-regex
+      if (!/^[\x00-\x7F]*$/.test(value)) {
+        throw new MoveTypeError(`'${value}' contains non-ASCII characters`);
+      }
+      return value;
+
+    case "vector":
+      if (type.element.kind === "u8" && typeof value === "string") {
+        if (encoding === "hex") {
+          const hex = value.startsWith("0x") ? value.slice(2) : value;
+          if (!/^([0-9a-fA-F]{2})*$/.test(hex)) {
+            throw new MoveTypeError(`'${value}' is not valid hex for vector<u8>`);
+          }
+          return Array.from(fromHex(hex));
+        }
+        return Array.from(new TextEncoder().encode(value));
+      }
+      if (!Array.isArray(value)) {
+        throw new MoveTypeError(`expected an array for ${typeName}, got ${JSON.stringify(value)}`);
+      }
+      return value.map((element, index) => {
+        try {
+          return coerceValue(type.element, element, encoding);
+        } catch (error) {
+          throw new MoveTypeError(`element ${index}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      });
+
+    case "option":
+      if (value === null || value === undefined) {
+        return null;
+      }
+      return coerceValue(type.element, value, encoding);
+  }
+}
+
+/**
+ * BCS-encodes a JSON value as the given pure Move type.
+ * Throws MoveTypeError when the value does not fit the type.
+ */
+export function encodePureValue(type: PureMoveType | string, value: unknown, encoding?: string): Uint8Array {
+  const parsedType = typeof type === "string" ? parseMoveType(type) : type;
+  const coerced = coerceValue(parsedType, value, encoding);
+  return bcsSchema(parsedType).serialize(coerced).toBytes();
+}
+
+/**
+ * Decodes BCS bytes as the given pure Move type into the JSON value encodePureValue accepts for it.
+ * Throws MoveTypeError when the bytes are not exactly one value of that type.
+ */
+export function decodePureValue(type: PureMoveType | string, bytes: Uint8Array): unknown {
+  const parsedType = typeof type === "string" ? parseMoveType(type) : type;
+  const schema = bcsSchema(parsedType);
+
+  let value: unknown;
+  try {
+    value = schema.parse(bytes);
+  } catch (error) {
+    throw new MoveTypeError(`bytes are not a ${formatMoveType(parsedType)}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  // Parsing ignores trailing bytes, so a value that re-encodes shorter belongs to some other type
+  if (schema.serialize(value).toBytes().length !== bytes.length) {
+    throw new MoveTypeError(`bytes are not a ${formatMoveType(parsedType)}`);
+  }
+  return value;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { Transaction } from "@mysten/sui/transactions";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+import {
+  collectedWeight,
+  combineMultisigSignatures,
+  createMultisig,
+  MultisigError,
+  parseMultisigMembers,
+  readPartialSignature,
+} from "./multisig";
+
+const RECIPIENT = "0x" + "b".repeat(64);
+const GAS_COIN = "0x" + "c".repeat(64);
+const ZERO_DIGEST = "11111111111111111111111111111111";
+
+const [alice, bob, carol, mallory] = [1, 2, 3, 4].map(seed => Ed25519Keypair.fromSecretKey(new Uint8Array(32).fill(seed)));
+const member = (keypair: Ed25519Keypair, weight: number) => ({ publicKey: keypair.getPublicKey().toSuiPublicKey(), weight });
+
+// Alice alone, or Bob and Carol together, can sign
+const multisig = createMultisig({ members: [member(alice, 2), member(bob, 1), member(carol, 1)], threshold: 2 });
+
+async function multisigTransaction(): Promise<string> {
+  const txb = new Transaction();
+  txb.setSender(multisig.toSuiAddress());
+  txb.transferObjects([txb.gas], txb.pure.address(RECIPIENT));
+  txb.setGasPayment([{ objectId: GAS_COIN, version: "1", digest: ZERO_DIGEST }]);
+  txb.setGasBudget(10_000_000);
+  txb.setGasPrice(1000);
+  return toBase64(await txb.build());
+}
+
+async function partial(keypair: Ed25519Keypair, bytes: string) {
+  return readPartialSignature(multisig, bytes, (await keypair.signTransaction(fromBase64(bytes))).signature);
+}
+
+describe("createMultisig", () => {
+  it("rejects a threshold above the members' total weight", () => {
+    expect(() => createMultisig({ members: [member(alice, 1), member(bob, 2)], threshold: 4 }))
+      .toThrow("Threshold 4 exceeds the members' total weight of 3");
+  });
+
+  it("rejects a member listed twice", () => {
+    expect(() => createMultisig({ members: [member(alice, 1), member(alice, 1)], threshold: 1 }))
+      .toThrow("Member 2: public key is listed twice");
+  });
+
+  it("rejects weights outside 1 to 255 and malformed keys", () => {
+    expect(() => createMultisig({ members: [member(alice, 0)], threshold: 1 })).toThrow(MultisigError);
+    expect(() => createMultisig({ members: [member(alice, 256)], threshold: 1 })).toThrow(MultisigError);
+    expect(() => createMultisig({ members: [{ publicKey: "not-a-key", weight: 1 }], threshold: 1 })).toThrow("Member 1");
+  });
+
+  it("reads members one per line with a default weight of 1", () => {
+    const text = `# signers\n${member(alice, 0).publicKey} 2\n\n${member(bob, 0).publicKey}\n`;
+    expect(parseMultisigMembers(text)).toEqual([member(alice, 2), member(bob, 1)]);
+  });
+});
+
+describe("partial signatures", () => {
+  it("reads the signer and weight of a member's signature", async () => {
+    const bytes = await multisigTransaction();
+    expect(await partial(alice, bytes)).toMatchObject({ signer: alice.toSuiAddress(), weight: 2 });
+  });
+
+  it("rejects a signature from a key outside the multisig", async () => {
+    const bytes = await multisigTransaction();
+    await expect(partial(mallory, bytes)).rejects.toThrow("is not a member of this multisig");
+  });
+
+  it("rejects a signature over other bytes", async () => {
+    const bytes = await multisigTransaction();
+    const { signature } = await bob.signTransaction(new Uint8Array(fromBase64(bytes)).map((byte, i) => (i === 1 ? byte ^ 1 : byte)));
+    await expect(readPartialSignature(multisig, bytes, signature)).rejects.toThrow("does not verify");
+  });
+
+  it("counts a member who signs twice only once", async () => {
+    const bytes = await multisigTransaction();
+    const fromBob = await partial(bob, bytes);
+    expect(collectedWeight([fromBob, fromBob])).toBe(1);
+    expect(collectedWeight([fromBob, await partial(carol, bytes)])).toBe(2);
+  });
+});
+
+describe("combineMultisigSignatures", () => {
+  it("refuses to combine below the threshold, however often a member signs", async () => {
+    const bytes = await multisigTransaction();
+    const fromBob = await partial(bob, bytes);
+    expect(() => combineMultisigSignatures(multisig, [fromBob, fromBob]))
+      .toThrow("Collected weight 1 is below the threshold of 2");
+  });
+
+  it("combines signatures in any order into one that verifies as the multisig address", async () => {
+    const bytes = await multisigTransaction();
+    const combined = combineMultisigSignatures(multisig, [await partial(carol, bytes), await partial(bob, bytes)]);
+
+    const signer = await verifyTransactionSignature(fromBase64(bytes), combined);
+    expect(signer.toSuiAddress()).toBe(multisig.toSuiAddress());
+    expect(await multisig.verifyTransaction(fromBase64(bytes), combined)).toBe(true);
+  });
+
+  it("combines a single member whose weight meets the threshold", async () => {
+    const bytes = await multisigTransaction();
+    const combined = combineMultisigSignatures(multisig, [await partial(alice, bytes)]);
+    expect(await multisig.verifyTransaction(fromBase64(bytes), combined)).toBe(true);
+  });
+});
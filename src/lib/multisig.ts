@@ -0,0 +1,154 @@
+// Multisig - Defines a multisig account and collects its members' partial signatures into one
+import type { SuiClient, SuiTransactionBlockResponse } from "@mysten/sui/client";
+import type { PublicKey } from "@mysten/sui/cryptography";
+import { MultiSigPublicKey } from "@mysten/sui/multisig";
+import { publicKeyFromSuiBytes, verifyTransactionSignature } from "@mysten/sui/verify";
+import { fromBase64 } from "@mysten/sui/utils";
+
+export interface MultisigMember {
+  publicKey: string; // base64 public key prefixed with its scheme flag, as `sui keytool list` prints it
+  weight: number;
+}
+
+export interface MultisigConfig {
+  members: MultisigMember[];
+  threshold: number;
+}
+
+export interface PartialSignature {
+  signature: string;
+  signer: string; // Address of the member who signed
+  weight: number;
+}
+
+export class MultisigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MultisigError";
+  }
+}
+
+const MAX_MEMBERS = 10;
+const MAX_WEIGHT = 255;
+const MAX_THRESHOLD = 65535;
+
+function parsePublicKey(value: string, index: number): PublicKey {
+  try {
+    return publicKeyFromSuiBytes(value.trim());
+  } catch (error) {
+    throw new MultisigError(`Member ${index + 1}: '${value}' is not a flagged base64 public key (${error instanceof Error ? error.message : String(error)})`);
+  }
+}
+
+/**
+ * Checks the members, weights and threshold and returns the multisig public key, whose address is the sender.
+ */
+export function createMultisig({ members, threshold }: MultisigConfig): MultiSigPublicKey {
+  if (members.length === 0 || members.length > MAX_MEMBERS) {
+    throw new MultisigError(`A multisig needs between 1 and ${MAX_MEMBERS} members, got ${members.length}`);
+  }
+
+  const publicKeys = members.map((member, index) => {
+    if (!Number.isInteger(member.weight) || member.weight < 1 || member.weight > MAX_WEIGHT) {
+      throw new MultisigError(`Member ${index + 1}: weight must be an integer from 1 to ${MAX_WEIGHT}`);
+    }
+    return { publicKey: parsePublicKey(member.publicKey, index), weight: member.weight };
+  });
+
+  publicKeys.forEach(({ publicKey }, index) => {
+    if (publicKeys.findIndex(other => other.publicKey.equals(publicKey)) !== index) {
+      throw new MultisigError(`Member ${index + 1}: public key is listed twice`);
+    }
+  });
+
+  const totalWeight = publicKeys.reduce((sum, { weight }) => sum + weight, 0);
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > MAX_THRESHOLD) {
+    throw new MultisigError(`Threshold must be an integer from 1 to ${MAX_THRESHOLD}`);
+  }
+  if (threshold > totalWeight) {
+    throw new MultisigError(`Threshold ${threshold} exceeds the members' total weight of ${totalWeight}`);
+  }
+
+  return MultiSigPublicKey.fromPublicKeys({ threshold, publicKeys });
+}
+
+/**
+ * Reads members written one per line as `<public key> <weight>`; the weight defaults to 1.
+ * Blank lines and lines starting with `#` are skipped.
+ */
+export function parseMultisigMembers(text: string): MultisigMember[] {
+  return text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith("#"))
+    .map(line => {
+      const [publicKey, weight = "1"] = line.split(/\s+/);
+      return { publicKey, weight: Number(weight) };
+    });
+}
+
+function memberIndex(multisig: MultiSigPublicKey, publicKey: PublicKey): number {
+  return multisig.getPublicKeys().findIndex(member => member.publicKey.equals(publicKey));
+}
+
+/**
+ * Verifies one member's signature over the transaction bytes and returns who signed it with what weight.
+ */
+export async function readPartialSignature(
+  multisig: MultiSigPublicKey,
+  transactionBytes: string,
+  signature: string
+): Promise<PartialSignature> {
+  let publicKey: PublicKey;
+  try {
+    publicKey = await verifyTransactionSignature(fromBase64(transactionBytes), signature.trim());
+  } catch {
+    throw new MultisigError("Signature does not verify against these transaction bytes");
+  }
+
+  const index = memberIndex(multisig, publicKey);
+  if (index === -1) {
+    throw new MultisigError(`Signature is from ${publicKey.toSuiAddress()}, which is not a member of this multisig`);
+  }
+  return { signature: signature.trim(), signer: publicKey.toSuiAddress(), weight: multisig.getPublicKeys()[index].weight };
+}
+
+/**
+ * Sums the weight of the collected signatures, counting each member once.
+ */
+export function collectedWeight(signatures: PartialSignature[]): number {
+  const bySigner = new Map(signatures.map(signature => [signature.signer, signature.weight]));
+  return Array.from(bySigner.values()).reduce((sum, weight) => sum + weight, 0);
+}
+
+/**
+ * Combines partial signatures into the multisig signature once their weight meets the threshold.
+ */
+export function combineMultisigSignatures(multisig: MultiSigPublicKey, signatures: PartialSignature[]): string {
+  const weight = collectedWeight(signatures);
+  if (weight < multisig.getThreshold()) {
+    throw new MultisigError(`Collected weight ${weight} is below the threshold of ${multisig.getThreshold()}`);
+  }
+
+  // Validators match signatures to members through the bitmap in member order, so sort them the same way
+  const addresses = multisig.getPublicKeys().map(member => member.publicKey.toSuiAddress());
+  const unique = Array.from(new Map(signatures.map(signature => [signature.signer, signature])).values());
+  unique.sort((a, b) => addresses.indexOf(a.signer) - addresses.indexOf(b.signer));
+
+  return multisig.combinePartialSignatures(unique.map(({ signature }) => signature));
+}
+
+/**
+ * Submits the transaction with the combined multisig signature.
+ */
+export function executeMultisigTransaction(
+  transactionBytes: string,
+  signature: string,
+  { client }: { client: SuiClient }
+): Promise<SuiTransactionBlockResponse> {
+  return client.executeTransactionBlock({
+    transactionBlock: transactionBytes,
+    signature,
+    options: { showEffects: true },
+  });
+}
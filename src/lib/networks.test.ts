@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { assertWalletChain, explorerLink, validateNetworkConfig, WrongChainError, type NetworkConfig } from "./networks";
+
+const LOCAL: NetworkConfig = {
+  name: "local",
+  rpcUrl: "http://127.0.0.1:9000",
+  explorerUrl: "https://explorer.example/{kind}/{id}?rpc=local&kind={kind}",
+  chain: "sui:localnet",
+};
+
+describe("validateNetworkConfig", () => {
+  it("trims fields and drops empty optional URLs", () => {
+    expect(validateNetworkConfig({ ...LOCAL, name: " local ", faucetUrl: " " })).toEqual(LOCAL);
+  });
+
+  it("rejects malformed saved entries", () => {
+    expect(() => validateNetworkConfig(null as unknown as NetworkConfig)).toThrow("must be an object");
+    expect(() => validateNetworkConfig({ ...LOCAL, rpcUrl: 42 } as unknown as NetworkConfig)).toThrow("'rpcUrl' must be a string");
+    expect(() => validateNetworkConfig({ ...LOCAL, name: "mainnet" })).toThrow("is a built-in network");
+    expect(() => validateNetworkConfig({ ...LOCAL, explorerUrl: "javascript:alert('{id}')" })).toThrow("is not an http(s) URL");
+  });
+});
+
+describe("explorerLink", () => {
+  it("fills every placeholder in the template", () => {
+    expect(explorerLink(LOCAL, "0x1$&", "object")).toBe("https://explorer.example/object/0x1$&?rpc=local&kind=object");
+  });
+});
+
+describe("assertWalletChain", () => {
+  it("refuses a wallet on another chain", () => {
+    expect(() => assertWalletChain(LOCAL, ["sui:mainnet"])).toThrow("Your wallet is on sui:mainnet");
+    expect(() => assertWalletChain(LOCAL, ["sui:mainnet", "sui:localnet"])).not.toThrow();
+  });
+
+  it("signs with a wallet that reports no chain only once the user confirms", () => {
+    expect(() => assertWalletChain(LOCAL, undefined)).toThrow(WrongChainError);
+    expect(() => assertWalletChain(LOCAL, ["unknown:chain"], () => false)).toThrow("does not report its network");
+    expect(() => assertWalletChain(LOCAL, [], () => true)).not.toThrow();
+  });
+});
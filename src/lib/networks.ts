@@ -0,0 +1,224 @@
+// Networks - The built-in Sui networks plus user-defined RPC endpoints, remembered in the browser
+import { getFullnodeUrl } from "@mysten/sui/client";
+import { getFaucetHost } from "@mysten/sui/faucet";
+
+export type NetworkType = string; // Name of a built-in or user-defined network
+
+export interface NetworkConfig {
+  name: string;
+  rpcUrl: string;
+  faucetUrl?: string;
+  // Explorer page with {kind} ("txblock" or "object") and {id} placeholders
+  explorerUrl?: string;
+  // Wallet Standard chain the wallet must report before signing, e.g. sui:localnet
+  chain: string;
+  builtin?: boolean;
+}
+
+export class NetworkConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetworkConfigError";
+  }
+}
+
+export class WrongChainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WrongChainError";
+  }
+}
+
+const EXPLORER_URL = "https://suiexplorer.com";
+
+export const BUILTIN_NETWORKS: NetworkConfig[] = [
+  {
+    name: "mainnet",
+    rpcUrl: getFullnodeUrl("mainnet"),
+    explorerUrl: `${EXPLORER_URL}/{kind}/{id}?network=mainnet`,
+    chain: "sui:mainnet",
+    builtin: true,
+  },
+  {
+    name: "testnet",
+    rpcUrl: getFullnodeUrl("testnet"),
+    faucetUrl: getFaucetHost("testnet"),
+    explorerUrl: `${EXPLORER_URL}/{kind}/{id}?network=testnet`,
+    chain: "sui:testnet",
+    builtin: true,
+  },
+  {
+    name: "devnet",
+    rpcUrl: getFullnodeUrl("devnet"),
+    faucetUrl: getFaucetHost("devnet"),
+    explorerUrl: `${EXPLORER_URL}/{kind}/{id}?network=devnet`,
+    chain: "sui:devnet",
+    builtin: true,
+  },
+];
+
+// The node and faucet `sui start --with-faucet` runs on this machine
+export const LOCALNET_PRESET: NetworkConfig = {
+  name: "localnet",
+  rpcUrl: getFullnodeUrl("localnet"),
+  faucetUrl: getFaucetHost("localnet"),
+  explorerUrl: `${EXPLORER_URL}/{kind}/{id}?network=local`,
+  chain: "sui:localnet",
+};
+
+const STORAGE_KEY = "sui-custom-networks";
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Trims a user-defined network's fields and checks them, throwing NetworkConfigError on the first problem.
+ */
+export function validateNetworkConfig(config: NetworkConfig): NetworkConfig {
+  if (!config || typeof config !== "object") {
+    throw new NetworkConfigError("A network must be an object");
+  }
+  for (const key of ["name", "rpcUrl", "chain"] as const) {
+    if (typeof config[key] !== "string") {
+      throw new NetworkConfigError(`The network's '${key}' must be a string`);
+    }
+  }
+  for (const key of ["faucetUrl", "explorerUrl"] as const) {
+    if (config[key] !== undefined && typeof config[key] !== "string") {
+      throw new NetworkConfigError(`The network's '${key}' must be a string`);
+    }
+  }
+
+  const network: NetworkConfig = {
+    name: config.name.trim(),
+    rpcUrl: config.rpcUrl.trim(),
+    ...(config.faucetUrl?.trim() && { faucetUrl: config.faucetUrl.trim() }),
+    ...(config.explorerUrl?.trim() && { explorerUrl: config.explorerUrl.trim() }),
+    chain: config.chain.trim(),
+  };
+  if (!/^[\w-]+$/.test(network.name)) {
+    throw new NetworkConfigError("Name the network with letters, digits, '-' or '_'");
+  }
+  if (BUILTIN_NETWORKS.some(builtin => builtin.name === network.name)) {
+    throw new NetworkConfigError(`'${network.name}' is a built-in network`);
+  }
+  if (!isHttpUrl(network.rpcUrl)) {
+    throw new NetworkConfigError(`RPC URL '${network.rpcUrl}' is not an http(s) URL`);
+  }
+  if (network.faucetUrl && !isHttpUrl(network.faucetUrl)) {
+    throw new NetworkConfigError(`Faucet URL '${network.faucetUrl}' is not an http(s) URL`);
+  }
+  if (network.explorerUrl && !network.explorerUrl.includes("{id}")) {
+    throw new NetworkConfigError("The explorer template needs an {id} placeholder");
+  }
+  if (network.explorerUrl && !isHttpUrl(network.explorerUrl.replace(/\{kind\}|\{id\}/g, "x"))) {
+    throw new NetworkConfigError(`Explorer template '${network.explorerUrl}' is not an http(s) URL`);
+  }
+  if (!/^[\w-]+:[\w-]+$/.test(network.chain)) {
+    throw new NetworkConfigError(`Chain '${network.chain}' should look like sui:localnet`);
+  }
+  return network;
+}
+
+// Storage can be edited by hand or by other scripts on the page, so saved networks are checked like new ones
+function loadCustomNetworks(): NetworkConfig[] {
+  let saved: unknown;
+  try {
+    const text = globalThis.localStorage?.getItem(STORAGE_KEY);
+    if (!text) {
+      return [LOCALNET_PRESET];
+    }
+    saved = JSON.parse(text);
+  } catch {
+    return [LOCALNET_PRESET];
+  }
+  if (!Array.isArray(saved)) {
+    console.warn("Ignoring saved networks: expected a list");
+    return [LOCALNET_PRESET];
+  }
+
+  const networks: NetworkConfig[] = [];
+  for (const config of saved) {
+    try {
+      const network = validateNetworkConfig(config);
+      if (!networks.some(other => other.name === network.name)) {
+        networks.push(network);
+      }
+    } catch (error) {
+      console.warn("Ignoring a saved network:", error instanceof Error ? error.message : error);
+    }
+  }
+  return networks;
+}
+
+let customNetworks = loadCustomNetworks();
+
+function saveCustomNetworks(): void {
+  globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(customNetworks));
+}
+
+export function listNetworks(): NetworkConfig[] {
+  return [...BUILTIN_NETWORKS, ...customNetworks];
+}
+
+export function getNetworkConfig(name: NetworkType): NetworkConfig | undefined {
+  return listNetworks().find(network => network.name === name);
+}
+
+/**
+ * Adds a user-defined network, or replaces the one with the same name, and remembers it in the browser.
+ */
+export function saveNetwork(config: NetworkConfig): NetworkConfig {
+  const network = validateNetworkConfig(config);
+  customNetworks = [...customNetworks.filter(other => other.name !== network.name), network];
+  saveCustomNetworks();
+  return network;
+}
+
+export function removeNetwork(name: NetworkType): void {
+  customNetworks = customNetworks.filter(network => network.name !== name);
+  saveCustomNetworks();
+}
+
+/**
+ * Explorer page for a transaction or object. Networks without a template get the explorer's custom RPC view,
+ * and names no longer configured, such as a removed network in history, are passed to the explorer as they are.
+ */
+export function explorerLink(network: NetworkConfig | NetworkType, id: string, type: "transaction" | "object"): string {
+  const config = typeof network === "string" ? getNetworkConfig(network) : network;
+  const kind = type === "transaction" ? "txblock" : "object";
+  const template = config?.explorerUrl
+    ?? `${EXPLORER_URL}/{kind}/{id}?network=${encodeURIComponent(config?.rpcUrl ?? (network as string))}`;
+  // Every occurrence, so a template may repeat a placeholder; functions keep `$` in the id from acting as a pattern
+  return template.replace(/\{kind\}/g, () => kind).replace(/\{id\}/g, () => id);
+}
+
+/**
+ * Refuses to sign unless the wallet's account reports the selected network's chain.
+ * A wallet that reports no chain cannot be checked, so signing with it needs `confirmUnchecked` to return true.
+ */
+export function assertWalletChain(
+  network: NetworkConfig,
+  walletChains: readonly string[] | undefined,
+  confirmUnchecked?: () => boolean
+): void {
+  const reported = (walletChains ?? []).filter(chain => !chain.startsWith("unknown:"));
+  if (reported.length === 0) {
+    if (!confirmUnchecked?.()) {
+      throw new WrongChainError(
+        `Your wallet does not report its network, so it cannot be checked against ${network.name} (${network.chain})`
+      );
+    }
+    return;
+  }
+  if (!reported.includes(network.chain)) {
+    throw new WrongChainError(
+      `Your wallet is on ${reported.join(", ")} but ${network.name} is ${network.chain}; switch the wallet's network before signing`
+    );
+  }
+}
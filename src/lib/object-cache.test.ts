@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from "vitest";
+import { SuiClient, type SuiObjectData } from "@mysten/sui/client";
+import { ReplayTransport, type RpcFixture } from "./recorded-transport";
+import { CACHED_OBJECT_OPTIONS, createMemoryObjectCache, loadObjects, loadObjectVersions } from "./object-cache";
+
+const id = (n: number) => "0x" + n.toString(16).padStart(64, "0");
+const DIGEST = "11111111111111111111111111111111";
+
+const object = (n: number, version: string, name = `Comet #${n}`): SuiObjectData => ({
+  objectId: id(n),
+  version,
+  digest: DIGEST,
+  type: "0xe::collection::Nft",
+  display: { data: { name }, error: null },
+});
+const versionOnly = ({ objectId, version, digest }: SuiObjectData) => ({ data: { objectId, version, digest } });
+
+async function cacheWith(...objects: SuiObjectData[]) {
+  const cache = createMemoryObjectCache("testnet");
+  await cache.putObjects(objects);
+  return cache;
+}
+
+describe("loadObjectVersions", () => {
+  it("reuses cached copies at the same version and fetches and caches the rest", async () => {
+    const fixture: RpcFixture = [
+      { method: "sui_multiGetObjects", params: [[id(2), id(3)], CACHED_OBJECT_OPTIONS], result: [{ data: object(2, "8", "Renamed") }, { data: object(3, "5") }] },
+    ];
+    const client = new SuiClient({ transport: new ReplayTransport(fixture) });
+    const cache = await cacheWith(object(1, "4"), object(2, "4"));
+
+    const objects = await loadObjectVersions(
+      [{ objectId: id(1), version: "4" }, { objectId: id(2), version: "8" }, { objectId: id(3), version: "5" }],
+      { client, cache }
+    );
+
+    expect(objects).toEqual([object(1, "4"), object(2, "8", "Renamed"), object(3, "5")]);
+    expect((await cache.getObjects([id(2), id(3)])).get(id(2))?.version).toBe("8");
+  });
+
+  it("fetches at most 50 objects per call", async () => {
+    const refs = Array.from({ length: 51 }, (_, i) => ({ objectId: id(i + 1), version: "1" }));
+    const fixture: RpcFixture = [
+      { method: "sui_multiGetObjects", params: [refs.slice(0, 50).map(ref => ref.objectId), CACHED_OBJECT_OPTIONS], result: refs.slice(0, 50).map((_, i) => ({ data: object(i + 1, "1") })) },
+      { method: "sui_multiGetObjects", params: [[id(51)], CACHED_OBJECT_OPTIONS], result: [{ data: object(51, "1") }] },
+    ];
+    const client = new SuiClient({ transport: new ReplayTransport(fixture) });
+    const multiGetObjects = vi.spyOn(client, "multiGetObjects");
+
+    const objects = await loadObjectVersions(refs, { client, cache: createMemoryObjectCache("testnet") });
+
+    expect(objects).toHaveLength(51);
+    expect(multiGetObjects).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("loadObjects", () => {
+  it("checks cached objects' versions without content and leaves out deleted ones", async () => {
+    const fixture: RpcFixture = [
+      {
+        method: "sui_multiGetObjects",
+        params: [[id(1), id(2)], null],
+        result: [versionOnly(object(1, "4")), { error: { code: "deleted", object_id: id(2), version: "9", digest: DIGEST } }],
+      },
+      { method: "sui_multiGetObjects", params: [[id(3)], CACHED_OBJECT_OPTIONS], result: [{ data: object(3, "2") }] },
+    ];
+    const client = new SuiClient({ transport: new ReplayTransport(fixture) });
+    const cache = await cacheWith(object(1, "4"), object(2, "4"));
+
+    expect(await loadObjects([id(1), id(2), id(3)], { client, cache })).toEqual([object(1, "4"), object(3, "2")]);
+  });
+});
+
+describe("prune", () => {
+  it("drops objects and listings stored before the cutoff", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(1_000);
+      const cache = await cacheWith(object(1, "4"));
+      await cache.putListing("owned:old", { ids: [id(1)] });
+      vi.setSystemTime(5_000);
+      await cache.putObjects([object(2, "4")]);
+      await cache.putListing("owned:new", { ids: [id(2)] });
+
+      await cache.prune(2_000);
+
+      expect([...(await cache.getObjects([id(1), id(2)])).keys()]).toEqual([id(2)]);
+      expect(await cache.getListing("owned:old")).toBeUndefined();
+      expect(await cache.getListing("owned:new")).toEqual({ ids: [id(2)] });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
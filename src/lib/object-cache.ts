@@ -0,0 +1,244 @@
+// Object Cache - Object data kept in the browser's IndexedDB per network, refetched only when an object's version changes
+import type { SuiClient, SuiObjectData, SuiObjectDataOptions } from "@mysten/sui/client";
+
+// IDs read together, e.g. a wallet's owned objects or a kiosk's items, as of the parent object's version if it has one
+export interface CachedListing {
+  version?: string;
+  ids: string[];
+}
+
+export interface ObjectCache {
+  network: string;
+  /** Cached objects by ID; IDs that are not cached are left out. */
+  getObjects(ids: string[]): Promise<Map<string, SuiObjectData>>;
+  putObjects(objects: SuiObjectData[]): Promise<void>;
+  getListing(key: string): Promise<CachedListing | undefined>;
+  putListing(key: string, listing: CachedListing): Promise<void>;
+  /** Drops objects and listings last stored before the given time, in milliseconds since the epoch. */
+  prune(storedBefore: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface ObjectCacheOptions {
+  client: SuiClient;
+  cache: ObjectCache;
+}
+
+export interface ObjectVersion {
+  objectId: string;
+  version: string;
+}
+
+// Everything discovery reads, so one cached copy serves every caller
+export const CACHED_OBJECT_OPTIONS: SuiObjectDataOptions = {
+  showContent: true,
+  showType: true,
+  showDisplay: true,
+  showOwner: true,
+};
+
+const MULTI_GET_LIMIT = 50; // Most IDs a fullnode takes in one multiGetObjects call
+// Entries not stored again for this long, e.g. of wallets no longer viewed, are pruned when a cache is created
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const DB_NAME = "sui-object-cache";
+const DB_VERSION = 1;
+const OBJECTS = "objects";
+const LISTINGS = "listings";
+
+interface ObjectRecord {
+  network: string;
+  objectId: string;
+  version: string;
+  data: SuiObjectData;
+  storedAt: number;
+}
+
+interface ListingRecord extends CachedListing {
+  network: string;
+  key: string;
+  storedAt: number;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(new Error(req.error?.message ?? "IndexedDB request failed"));
+  });
+}
+
+function committed(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(new Error(transaction.error?.message ?? "IndexedDB transaction failed"));
+    transaction.onabort = () => reject(new Error(transaction.error?.message ?? "IndexedDB transaction aborted"));
+  });
+}
+
+function openCache(): Promise<IDBDatabase> {
+  const open = indexedDB.open(DB_NAME, DB_VERSION);
+  open.onupgradeneeded = () => {
+    open.result.createObjectStore(OBJECTS, { keyPath: ["network", "objectId"] });
+    open.result.createObjectStore(LISTINGS, { keyPath: ["network", "key"] });
+  };
+  return request(open);
+}
+
+// Every key of a network: arrays sort after strings, so [network, []] is above any [network, id]
+const networkRange = (network: string) => IDBKeyRange.bound([network], [network, []]);
+
+/**
+ * A cache held in memory for the life of the page. Used where the browser has no IndexedDB, and in tests.
+ */
+export function createMemoryObjectCache(network: string): ObjectCache {
+  const objects = new Map<string, { data: SuiObjectData; storedAt: number }>();
+  const listings = new Map<string, { listing: CachedListing; storedAt: number }>();
+  return {
+    network,
+    async getObjects(ids) {
+      return new Map(ids.flatMap(id => (objects.has(id) ? [[id, objects.get(id)!.data] as const] : [])));
+    },
+    async putObjects(fetched) {
+      for (const data of fetched) objects.set(data.objectId, { data, storedAt: Date.now() });
+    },
+    async getListing(key) {
+      return listings.get(key)?.listing;
+    },
+    async putListing(key, listing) {
+      listings.set(key, { listing, storedAt: Date.now() });
+    },
+    async prune(storedBefore) {
+      for (const entries of [objects, listings]) {
+        for (const [key, entry] of entries) {
+          if (entry.storedAt < storedBefore) entries.delete(key);
+        }
+      }
+    },
+    async clear() {
+      objects.clear();
+      listings.clear();
+    },
+  };
+}
+
+/**
+ * A cache in IndexedDB, kept across visits. If the database cannot be opened, e.g. in a private window, the
+ * cache lives in memory instead: a cache that fails must never fail discovery.
+ */
+export function createIndexedDbObjectCache(network: string): ObjectCache {
+  const fallback = createMemoryObjectCache(network);
+  const opening = openCache().catch(error => {
+    console.warn("Object cache unavailable, keeping objects in memory:", error instanceof Error ? error.message : error);
+    return undefined;
+  });
+
+  return {
+    network,
+    async getObjects(ids) {
+      const db = await opening;
+      if (!db) return fallback.getObjects(ids);
+      const store = db.transaction(OBJECTS, "readonly").objectStore(OBJECTS);
+      const records = await Promise.all(ids.map(id => request(store.get([network, id]) as IDBRequest<ObjectRecord | undefined>)));
+      return new Map(records.flatMap(record => (record ? [[record.objectId, record.data] as const] : [])));
+    },
+    async putObjects(fetched) {
+      const db = await opening;
+      if (!db) return fallback.putObjects(fetched);
+      const transaction = db.transaction(OBJECTS, "readwrite");
+      for (const data of fetched) {
+        transaction.objectStore(OBJECTS).put({ network, objectId: data.objectId, version: data.version, data, storedAt: Date.now() } satisfies ObjectRecord);
+      }
+      await committed(transaction);
+    },
+    async getListing(key) {
+      const db = await opening;
+      if (!db) return fallback.getListing(key);
+      const record = await request(db.transaction(LISTINGS, "readonly").objectStore(LISTINGS).get([network, key]) as IDBRequest<ListingRecord | undefined>);
+      return record && { version: record.version, ids: record.ids };
+    },
+    async putListing(key, listing) {
+      const db = await opening;
+      if (!db) return fallback.putListing(key, listing);
+      const transaction = db.transaction(LISTINGS, "readwrite");
+      transaction.objectStore(LISTINGS).put({ network, key, ...listing, storedAt: Date.now() } satisfies ListingRecord);
+      await committed(transaction);
+    },
+    async prune(storedBefore) {
+      const db = await opening;
+      if (!db) return fallback.prune(storedBefore);
+      const transaction = db.transaction([OBJECTS, LISTINGS], "readwrite");
+      for (const name of [OBJECTS, LISTINGS]) {
+        const walk = transaction.objectStore(name).openCursor(networkRange(network));
+        walk.onsuccess = () => {
+          const cursor = walk.result;
+          if (!cursor) return;
+          // Records from before entries had a storage time are pruned as well
+          if (!((cursor.value as ObjectRecord | ListingRecord).storedAt >= storedBefore)) cursor.delete();
+          cursor.continue();
+        };
+      }
+      await committed(transaction);
+    },
+    async clear() {
+      const db = await opening;
+      if (!db) return fallback.clear();
+      const transaction = db.transaction([OBJECTS, LISTINGS], "readwrite");
+      transaction.objectStore(OBJECTS).delete(networkRange(network));
+      transaction.objectStore(LISTINGS).delete(networkRange(network));
+      await committed(transaction);
+    },
+  };
+}
+
+/**
+ * The cache for a network: IndexedDB where the browser has it, memory otherwise. Entries older than
+ * MAX_AGE_MS are pruned in the background.
+ */
+export function createObjectCache(network: string): ObjectCache {
+  const cache = typeof indexedDB === "undefined" ? createMemoryObjectCache(network) : createIndexedDbObjectCache(network);
+  cache.prune(Date.now() - MAX_AGE_MS).catch(error => {
+    console.warn("Failed to prune the object cache:", error instanceof Error ? error.message : error);
+  });
+  return cache;
+}
+
+async function multiGetObjects(client: SuiClient, ids: string[], options?: SuiObjectDataOptions): Promise<SuiObjectData[]> {
+  const objects: SuiObjectData[] = [];
+  for (let i = 0; i < ids.length; i += MULTI_GET_LIMIT) {
+    const responses = await client.multiGetObjects({ ids: ids.slice(i, i + MULTI_GET_LIMIT), options });
+    objects.push(...responses.flatMap(response => (response.data ? [response.data] : [])));
+  }
+  return objects;
+}
+
+/**
+ * Returns full data for objects whose current versions are already known, e.g. from an owned-objects page.
+ * Cached copies at that version are reused; the rest are fetched, cached and returned in the same order.
+ */
+export async function loadObjectVersions(refs: ObjectVersion[], { client, cache }: ObjectCacheOptions): Promise<SuiObjectData[]> {
+  const cached = await cache.getObjects(refs.map(ref => ref.objectId));
+  const stale = refs.filter(ref => cached.get(ref.objectId)?.version !== ref.version).map(ref => ref.objectId);
+  if (stale.length > 0) {
+    const fetched = await multiGetObjects(client, stale, CACHED_OBJECT_OPTIONS);
+    await cache.putObjects(fetched);
+    for (const object of fetched) cached.set(object.objectId, object);
+  }
+  return refs.flatMap(ref => (cached.has(ref.objectId) ? [cached.get(ref.objectId)!] : []));
+}
+
+/**
+ * Returns full data for objects by ID. Cached objects are checked with a multiGetObjects call without content,
+ * which returns only versions, so only objects that are new or have changed are fetched in full.
+ * Deleted objects are left out.
+ */
+export async function loadObjects(ids: string[], options: ObjectCacheOptions): Promise<SuiObjectData[]> {
+  const cached = await options.cache.getObjects(ids);
+  const current = new Map(
+    (await multiGetObjects(options.client, ids.filter(id => cached.has(id)))).map(object => [object.objectId, object.version])
+  );
+  const refs = ids.flatMap(id => {
+    if (!cached.has(id)) return [{ objectId: id, version: "" }]; // Never cached, so no version to compare
+    return current.has(id) ? [{ objectId: id, version: current.get(id)! }] : [];
+  });
+  return loadObjectVersions(refs, options);
+}
@@ -0,0 +1,213 @@
+// PTB Params - Declared template inputs and their substitution into commands before validation
+import { TypeTagSerializer } from "@mysten/sui/bcs";
+import { joinPointer } from "./json-source-map";
+
+export const PARAM_TYPES = ['address', 'objectId', 'u64', 'typeTag'] as const;
+
+export type PtbParamType = typeof PARAM_TYPES[number];
+
+// One entry of a document's `params` section, keyed there by name
+export interface PtbParamDeclaration {
+  type: PtbParamType;
+  description?: string;
+  default?: string; // Used when no value is filled in
+}
+
+export interface PtbParam extends PtbParamDeclaration {
+  name: string;
+}
+
+// Filled-in values, keyed by param name
+export type PtbParamValues = Record<string, string>;
+
+export interface ParamIssue {
+  context: string; // e.g. "Command 2" or "Param 'vault'"
+  pointer: string;
+  message: string;
+}
+
+const PARAM_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_U64 = (1n << 64n) - 1n;
+
+/**
+ * Checks a filled-in value against its declared type; returns the problem, or undefined when the value is valid.
+ */
+export function validateParamValue(type: PtbParamType, value: string): string | undefined {
+  switch (type) {
+    case 'address':
+    case 'objectId':
+      return /^0x[0-9a-fA-F]{1,64}$/.test(value) ? undefined : `'${value}' is not a valid ${type === 'address' ? 'address' : 'object ID'}`;
+    case 'u64':
+      return /^\d+$/.test(value) && BigInt(value) <= MAX_U64 ? undefined : `'${value}' is not a u64`;
+    case 'typeTag':
+      try {
+        TypeTagSerializer.parseFromStr(value, true);
+        return undefined;
+      } catch {
+        return `'${value}' is not a valid type tag`;
+      }
+  }
+}
+
+/**
+ * Reads a `params` section into declarations, reporting malformed entries instead of returning them.
+ */
+export function readParamDeclarations(params: unknown): { params: PtbParam[]; issues: ParamIssue[] } {
+  const issues: ParamIssue[] = [];
+  if (params === undefined) {
+    return { params: [], issues };
+  }
+  if (!params || typeof params !== 'object' || Array.isArray(params)) {
+    issues.push({ context: "", pointer: "/params", message: "'params' must be an object keyed by param name" });
+    return { params: [], issues };
+  }
+
+  const declarations: PtbParam[] = [];
+  for (const [name, declaration] of Object.entries(params)) {
+    const pointer = joinPointer("/params", name);
+    const context = `Param '${name}'`;
+    const report = (message: string, ...segments: string[]) =>
+      issues.push({ context, pointer: joinPointer(pointer, ...segments), message });
+
+    if (!PARAM_NAME.test(name)) {
+      report("param names must start with a letter or underscore and contain only letters, digits and underscores");
+      continue;
+    }
+    if (!declaration || typeof declaration !== 'object') {
+      report("declaration must be an object with a 'type'");
+      continue;
+    }
+    const { type, description, default: defaultValue } = declaration as Record<string, unknown>;
+    if (!PARAM_TYPES.includes(type as PtbParamType)) {
+      report(`'type' must be one of: ${PARAM_TYPES.join(', ')}`, 'type');
+      continue;
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      report("'description' must be a string", 'description');
+      continue;
+    }
+    if (defaultValue !== undefined) {
+      const problem = typeof defaultValue === 'string'
+        ? validateParamValue(type as PtbParamType, defaultValue)
+        : "'default' must be a string";
+      if (problem) {
+        report(problem, 'default');
+        continue;
+      }
+    }
+
+    declarations.push({
+      name,
+      type: type as PtbParamType,
+      ...(description !== undefined && { description: description as string }),
+      ...(defaultValue !== undefined && { default: defaultValue as string }),
+    });
+  }
+
+  return { params: declarations, issues };
+}
+
+/**
+ * Returns the params a PTB document declares, for rendering an input form; malformed documents declare none.
+ */
+export function readPtbParams(jsonString: string): PtbParam[] {
+  try {
+    const parsed = JSON.parse(jsonString);
+    return parsed && typeof parsed === 'object' ? readParamDeclarations(parsed.params).params : [];
+  } catch {
+    return [];
+  }
+}
+
+// What a position in a command accepts: a full argument, an address string or a type string
+type ParamSlot = 'argument' | 'address' | 'typeTag';
+
+const KEY_SLOTS: Record<string, ParamSlot> = {
+  recipient: 'address',
+  package: 'address',
+  dependencies: 'address',
+  typeArguments: 'typeTag',
+  elementType: 'typeTag',
+  objectType: 'typeTag',
+};
+
+function isParamReference(node: unknown): node is { type: 'param'; name?: unknown } {
+  return !!node && typeof node === 'object' && !Array.isArray(node) && (node as { type?: unknown }).type === 'param';
+}
+
+/**
+ * Replaces every `{ "type": "param", "name": ... }` in the raw commands with its filled-in value:
+ * an argument in argument positions, the plain string for recipients, package IDs and type arguments.
+ * Unknown names, missing values and values of the wrong type are reported; the substituted commands
+ * keep the original layout so that issue pointers and later validation pointers stay valid.
+ */
+export function bindParams(
+  commands: unknown[],
+  params: PtbParam[],
+  values: PtbParamValues
+): { commands: unknown[]; issues: ParamIssue[] } {
+  const issues: ParamIssue[] = [];
+  const declared = new Map(params.map(param => [param.name, param]));
+
+  const resolve = (reference: { name?: unknown }, slot: ParamSlot, context: string, pointer: string): unknown => {
+    const report = (message: string) => {
+      issues.push({ context, pointer, message });
+      // Keeps an unusable reference from also failing structural validation; the issue already blocks the build
+      return slot === 'argument' ? reference : slot === 'address' ? '0x0' : 'u64';
+    };
+
+    if (typeof reference.name !== 'string') {
+      return report("'param' reference requires a 'name' string");
+    }
+    const param = declared.get(reference.name);
+    if (!param) {
+      return report(`Unknown param '${reference.name}'; declare it in the 'params' section`);
+    }
+
+    const expected = slot === 'address' ? ['address', 'objectId'] : slot === 'typeTag' ? ['typeTag'] : ['address', 'objectId', 'u64'];
+    if (!expected.includes(param.type)) {
+      return report(`param '${param.name}' is a ${param.type} and cannot be used here`);
+    }
+
+    const value = values[param.name]?.trim() || param.default;
+    if (!value) {
+      return report(`param '${param.name}' has no value`);
+    }
+    const problem = validateParamValue(param.type, value);
+    if (problem) {
+      return report(`param '${param.name}': ${problem}`);
+    }
+
+    if (slot !== 'argument') {
+      return value;
+    }
+    switch (param.type) {
+      case 'objectId':
+        return { type: 'object', value };
+      case 'address':
+        return { type: 'pure', value, moveType: 'address' };
+      default:
+        return { type: 'pure', value, moveType: 'u64' };
+    }
+  };
+
+  const bind = (node: unknown, slot: ParamSlot, context: string, pointer: string): unknown => {
+    if (isParamReference(node)) {
+      return resolve(node, slot, context, pointer);
+    }
+    if (Array.isArray(node)) {
+      return node.map((item, index) => bind(item, slot, context, joinPointer(pointer, index)));
+    }
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, value]) =>
+        [key, bind(value, KEY_SLOTS[key] ?? 'argument', context, joinPointer(pointer, key))]
+      ));
+    }
+    return node;
+  };
+
+  return {
+    commands: commands.map((command, index) => bind(command, 'argument', `Command ${index + 1}`, joinPointer("/commands", index))),
+    issues,
+  };
+}
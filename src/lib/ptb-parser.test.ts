@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { parsePtbDocument, validateResultReferences, type PtbCommand } from "./ptb-parser";
+import { type MoveCallSignatures } from "./move-abi";
+
+const PACKAGE = "0x" + "e".repeat(64);
+const RECIPIENT = "0x" + "b".repeat(64);
+
+const parse = (commands: unknown[], gas?: unknown) => parsePtbDocument(JSON.stringify({ commands, ...(gas !== undefined && { gas }) }));
+const call = (fn: string, args: unknown[] = [], assign?: string | string[]) =>
+  ({ type: "moveCall", target: `${PACKAGE}::collection::${fn}`, arguments: args, ...(assign && { assign }) });
+const result = (ref: string, index?: number) => ({ type: "result", ref, ...(index !== undefined && { index }) });
+const transfer = (...objects: unknown[]) => ({ type: "transferObjects", objects, recipient: RECIPIENT });
+
+// Reference issues of commands already in their validated shape, as "severity path: message"
+function issues(commands: unknown[], signatures?: MoveCallSignatures): string[] {
+  return validateResultReferences(commands as PtbCommand[], signatures).map(issue => `${issue.severity} ${issue.path}: ${issue.message}`);
+}
+
+describe("result references", () => {
+  it("accepts results used after they are assigned", () => {
+    expect(issues([call("mint", [], "nft"), transfer(result("nft"))])).toEqual([]);
+  });
+
+  it("reports use before assignment apart from unknown names", () => {
+    expect(issues([transfer(result("nft")), call("mint", [], "nft"), transfer(result("other"))])).toEqual([
+      "error Command 1, object 1: Reference 'nft' is used before it is assigned in Command 2",
+      "error Command 3, object 1: Reference 'other' not found in any previous command's assign property",
+      "warning Command 2: 'nft' is assigned but never used",
+    ]);
+  });
+
+  it("reports duplicate assign names", () => {
+    expect(issues([call("mint", [], "nft"), call("mint", [], "nft"), transfer(result("nft"))]))
+      .toEqual(["error Command 2: Duplicate assign name 'nft'"]);
+  });
+
+  it("checks references nested in vectors and options", () => {
+    const nested = { type: "vector", elementType: `${PACKAGE}::collection::Nft`, elements: [{ type: "option", elementType: `${PACKAGE}::collection::Nft`, some: result("missing") }] };
+    expect(issues([call("burn_all", [nested])]))
+      .toEqual(["error Command 1, argument 1, element 0, some value: Reference 'missing' not found in any previous command's assign property"]);
+  });
+
+  it("checks indexes against splitCoins amounts and destructured names", () => {
+    const split = { type: "splitCoins", coin: { type: "gas" }, amounts: [1, 2], assign: "coins" };
+    expect(issues([split, transfer(result("coins", 1), result("coins", 2))]))
+      .toEqual(["error Command 2, object 2: index 2 is out of range for 'coins', which has 2 value(s)"]);
+    expect(issues([call("new", [], ["kiosk", "cap"]), transfer(result("kiosk", 0), result("cap"))]))
+      .toEqual(["error Command 2, object 1: 'kiosk' is a single value and cannot be indexed"]);
+  });
+
+  it("reports results moved twice, whole or by index", () => {
+    const split = { type: "splitCoins", coin: { type: "gas" }, amounts: [1, 2], assign: "coins" };
+    expect(issues([split, transfer(result("coins", 0)), transfer(result("coins"))]))
+      .toEqual(["error Command 3, object 1: 'coins' was already moved by value at Command 2, object 1"]);
+  });
+
+  it("counts moveCall arguments as moved only where the signature takes them by value", () => {
+    const NFT = { Struct: { address: PACKAGE, module: "collection", name: "Nft", typeArguments: [] } };
+    const signatures: MoveCallSignatures = new Map([
+      [`${PACKAGE}::collection::inspect`, { target: `${PACKAGE}::collection::inspect`, typeParameterCount: 0, parameters: [{ Reference: NFT }], returnCount: 0 }],
+      [`${PACKAGE}::collection::burn`, { target: `${PACKAGE}::collection::burn`, typeParameterCount: 0, parameters: [NFT], returnCount: 0 }],
+    ]);
+    const commands = [call("mint", [], "nft"), call("inspect", [result("nft")]), call("burn", [result("nft")]), transfer(result("nft"))];
+
+    expect(issues(commands)).toEqual([]);
+    expect(issues(commands, signatures)).toEqual(["error Command 4, object 1: 'nft' was already moved by value at Command 3, argument 1"]);
+  });
+
+  it("warns about results that are never used", () => {
+    expect(issues([call("mint", [], "nft")])).toEqual(["warning Command 1: 'nft' is assigned but never used"]);
+  });
+
+  it("fails parsing on the first reference error", () => {
+    expect(() => parse([transfer(result("nft"))])).toThrow("Command 1, object 1: Reference 'nft' not found");
+  });
+});
+
+describe("addresses", () => {
+  it("rejects empty and non-hex gas payment coins and sponsors", () => {
+    expect(() => parse([call("mint")], { payment: [""] })).toThrow("payment coin 1 must be an object ID");
+    expect(() => parse([call("mint")], { payment: ["0x"] })).toThrow("payment coin 1 must be an object ID");
+    expect(() => parse([call("mint")], { sponsor: "" })).toThrow("'sponsor' must be an address");
+    expect(() => parse([call("mint")], { sponsor: "0xnope" })).toThrow("'sponsor' must be an address");
+    expect(parse([call("mint")], { sponsor: "0x2", payment: [RECIPIENT] }).gas).toEqual({ sponsor: "0x2", payment: [RECIPIENT] });
+  });
+
+  it("rejects transfer recipients that are not addresses, at the recipient", () => {
+    for (const recipient of ["", "0x", "hello", 7]) {
+      expect(() => parse([{ type: "transferObjects", objects: [{ type: "gas" }], recipient }]))
+        .toThrow(expect.objectContaining({ pointer: "/commands/0/recipient", message: expect.stringContaining("requires a 'recipient' address") }));
+    }
+    expect(parse([{ type: "transferObjects", objects: [{ type: "gas" }], recipient: "0x2" }]).commands[0]).toMatchObject({ recipient: "0x2" });
+  });
+
+  it("rejects empty package dependencies and upgrade packages", () => {
+    const publish = { type: "publish", modules: ["oRzrCwY="], dependencies: ["0x1", ""] };
+    expect(() => parse([publish])).toThrow("dependency 2 must be a package ID");
+    const upgrade = { type: "upgrade", modules: ["oRzrCwY="], dependencies: ["0x1"], package: "", ticket: { type: "gas" } };
+    expect(() => parse([upgrade])).toThrow("upgrade requires a 'package' ID string");
+  });
+});
@@ -1,22 +1,53 @@
 // PTB JSON Parser - Converts JSON to structured commands for Sui TransactionBlock
+import { decodePureValue, encodePureValue } from "./move-types";
+import { MovePackageError, isBase64, parsePackageDigest } from "./move-package";
+import { fromHex, isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+import { type PtbParamDeclaration, type PtbParamValues, bindParams, readParamDeclarations } from "./ptb-params";
+import { type MoveCallSignatures, normalizeMoveTarget, parameterMovesArgument } from "./move-abi";
+import {
+  type JsonSourceMap,
+  type SourceRange,
+  JsonSyntaxError,
+  parseJsonWithSourceMap,
+  rangeForPointer,
+  joinPointer,
+} from "./json-source-map";
+
+export const COMMAND_TYPES = ['moveCall', 'transferObjects', 'splitCoins', 'mergeCoins', 'shareObject', 'splitObjects', 'publish', 'upgrade'] as const;
+export const ARGUMENT_TYPES = ['pure', 'object', 'result', 'vector', 'option', 'witness', 'gas', 'sender', 'system', 'param'] as const;
+// 'bcs' passes hex-encoded bytes through as the input unchanged, for values whose Move type is unknown
+export const PURE_ENCODINGS = ['utf8', 'ascii', 'hex', 'bcs'] as const;
+
+// Shared system objects a 'system' argument can name
+export const SYSTEM_OBJECTS = {
+  clock: { id: '0x6', name: 'Clock' },
+  random: { id: '0x8', name: 'Random' },
+  system: { id: '0x5', name: 'SuiSystemState' },
+  denyList: { id: '0x403', name: 'DenyList' },
+} as const;
+
+export type SystemObjectName = keyof typeof SYSTEM_OBJECTS;
 
 export interface PtbArgument {
-  type: "pure" | "object" | "result" | "vector" | "option" | "witness";
+  type: typeof ARGUMENT_TYPES[number];
   value?: any;
   ref?: string;
+  index?: number; // For result type: picks one value of a multi-value result
   elements?: PtbArgument[]; // For vector type
   some?: PtbArgument; // For option type
   none?: boolean; // For option type
+  elementType?: string; // Vector element type or option value type
   // For nested structures
   fields?: Record<string, PtbArgument>;
   structType?: string;
   // For enhanced pure arguments
-  encoding?: "utf8" | "ascii" | "hex";
+  encoding?: typeof PURE_ENCODINGS[number];
   moveType?: string; // For explicit type specification
+  name?: string; // For param type: the declared param it stands for
 }
 
 export interface PtbCommand {
-  type: "moveCall" | "transferObjects" | "splitCoins" | "mergeCoins" | "shareObject" | "splitObjects";
+  type: typeof COMMAND_TYPES[number];
   assign?: string | string[];
   
   // moveCall specific
@@ -38,92 +69,333 @@ export interface PtbCommand {
 
   // shareObject specific
   object?: PtbArgument;
+  objectType?: string; // The shared object's full type, the type argument of public_share_object
 
   // splitObjects specific
   objects?: PtbArgument[];
+
+  // publish and upgrade specific
+  modules?: string[]; // Base64 module bytecode
+  dependencies?: string[]; // Package IDs the modules link against
+
+  // upgrade specific
+  package?: string; // ID of the package being upgraded
+  ticket?: PtbArgument; // UpgradeTicket from 0x2::package::authorize_upgrade
+  digest?: number[] | string; // Expected package digest, as bytes or hex
+}
+
+// Optional gas configuration; anything left out is chosen by the wallet or the SDK
+export interface PtbGasSettings {
+  budget?: number | string; // MIST
+  price?: number | string; // MIST per gas unit
+  payment?: string[]; // Coin<SUI> object IDs to pay with
+  sponsor?: string; // Address that owns the payment coins and co-signs
+  expiration?: number; // Last epoch the transaction is valid in
 }
 
 export interface PtbJson {
+  params?: Record<string, PtbParamDeclaration>;
+  gas?: PtbGasSettings;
   commands: PtbCommand[];
 }
 
-export function parsePtbJson(jsonString: string): PtbCommand[] {
+// A validated document: its commands plus the gas settings, if any
+export interface PtbDocument {
+  commands: PtbCommand[];
+  gas?: PtbGasSettings;
+}
+
+
+export interface PtbDiagnostic {
+  severity: "error" | "warning";
+  message: string;
+  pointer: string; // JSON pointer into the document, e.g. "/commands/2/arguments/1"
+  range?: SourceRange;
+}
+
+export class PtbParseError extends Error {
+  constructor(
+    public readonly context: string,
+    public readonly pointer: string,
+    public readonly detail: string
+  ) {
+    super(context ? `${context}: ${detail}` : detail);
+    this.name = "PtbParseError";
+  }
+}
+
+// Where a value sits: the human-readable context used in messages and its JSON pointer
+interface ParseLocation {
+  context: string;
+  pointer: string;
+}
+
+function child(location: ParseLocation, label: string, ...segments: (string | number)[]): ParseLocation {
+  return {
+    context: location.context ? `${location.context}, ${label}` : label,
+    pointer: joinPointer(location.pointer, ...segments),
+  };
+}
+
+function fail(location: ParseLocation, detail: string, ...segments: (string | number)[]): never {
+  throw new PtbParseError(location.context, joinPointer(location.pointer, ...segments), detail);
+}
+
+// Runs one validation step, recording its error and returning the fallback so sibling values still get checked
+function attempt<T>(errors: PtbParseError[], fallback: T, validate: () => T): T {
   try {
-    const parsed = JSON.parse(jsonString) as PtbJson;
-    
-    if (!parsed || typeof parsed !== 'object') {
-      throw new Error("Invalid JSON: Root must be an object");
+    return validate();
+  } catch (error) {
+    if (error instanceof PtbParseError) {
+      errors.push(error);
+      return fallback;
     }
-    
-    if (!Array.isArray(parsed.commands)) {
-      throw new Error("Invalid JSON: 'commands' must be an array");
+    throw error;
+  }
+}
+
+// Stands in for an argument that failed validation, so later argument positions keep their indices
+const INVALID_ARGUMENT: PtbArgument = { type: 'pure', value: null };
+
+const ROOT: ParseLocation = { context: "", pointer: "" };
+
+/**
+ * Validates a parsed PTB document and returns its commands plus every error found.
+ * Param references are replaced by their values first; any param without a valid value is an error.
+ * Commands that fail validation are replaced by placeholders that only keep their assign names.
+ */
+function validatePtbDocument(parsed: unknown, values: PtbParamValues): PtbDocument & { errors: PtbParseError[] } {
+  const errors: PtbParseError[] = [];
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    errors.push(new PtbParseError("", "", "Invalid JSON: Root must be an object"));
+    return { commands: [], errors };
+  }
+
+  const document = parsed as PtbJson;
+  if (!Array.isArray(document.commands)) {
+    errors.push(new PtbParseError("", "/commands", "Invalid JSON: 'commands' must be an array"));
+    return { commands: [], errors };
+  }
+
+  if (document.commands.length === 0) {
+    errors.push(new PtbParseError("", "/commands", "Invalid JSON: 'commands' array cannot be empty"));
+    return { commands: [], errors };
+  }
+
+  const declarations = readParamDeclarations(document.params);
+  const bound = bindParams(document.commands, declarations.params, values);
+  for (const issue of [...declarations.issues, ...bound.issues]) {
+    errors.push(new PtbParseError(issue.context, issue.pointer, issue.message));
+  }
+
+  const gas = attempt(errors, undefined, () => validateGasSettings(document.gas));
+
+  const commands = bound.commands.map((command, index) => attempt(
+    errors,
+    placeholderCommand(command),
+    () => validateCommand(command, index, errors)
+  ));
+
+  return { commands, ...(gas && { gas }), errors };
+}
+
+const U64_MAX = (1n << 64n) - 1n;
+
+// normalizeSuiAddress pads anything, even "", to a valid-looking address, so the short form must be hex first
+function isAddressString(value: unknown): value is string {
+  return typeof value === 'string' && /^(0x)?[0-9a-fA-F]{1,64}$/.test(value) && isValidSuiAddress(normalizeSuiAddress(value));
+}
+
+function validateGasSettings(gas: unknown): PtbGasSettings | undefined {
+  if (gas === undefined) {
+    return undefined;
+  }
+
+  const location = child(ROOT, 'Gas', 'gas');
+  if (!gas || typeof gas !== 'object' || Array.isArray(gas)) {
+    fail(location, "'gas' must be an object");
+  }
+
+  const { budget, price, payment, sponsor, expiration } = gas as Record<string, unknown>;
+  const settings: PtbGasSettings = {};
+
+  for (const [key, value] of [['budget', budget], ['price', price]] as const) {
+    if (value === undefined) continue;
+    if (!(typeof value === 'number' && Number.isSafeInteger(value) && value > 0) &&
+        !(typeof value === 'string' && /^[1-9]\d*$/.test(value) && BigInt(value) <= U64_MAX)) {
+      fail(location, `'${key}' must be a positive integer amount of MIST`, key);
     }
-    
-    if (parsed.commands.length === 0) {
-      throw new Error("Invalid JSON: 'commands' array cannot be empty");
+    settings[key] = value;
+  }
+
+  if (payment !== undefined) {
+    if (!Array.isArray(payment) || payment.length === 0) {
+      fail(location, "'payment' must be a non-empty array of coin object IDs", 'payment');
     }
-    
-    // Validate each command
-    const validatedCommands = parsed.commands.map((command, index) => {
-      return validateCommand(command, index);
+    payment.forEach((coin: unknown, coinIndex: number) => {
+      if (!isAddressString(coin)) {
+        fail(location, `payment coin ${coinIndex + 1} must be an object ID`, 'payment', coinIndex);
+      }
     });
-    
-    // Validate result references
-    validateResultReferences(validatedCommands);
-    
-    return validatedCommands;
-    
+    settings.payment = payment;
+  }
+
+  if (sponsor !== undefined) {
+    if (!isAddressString(sponsor)) {
+      fail(location, "'sponsor' must be an address", 'sponsor');
+    }
+    settings.sponsor = sponsor;
+  }
+
+  if (expiration !== undefined) {
+    if (typeof expiration !== 'number' || !Number.isSafeInteger(expiration) || expiration < 0) {
+      fail(location, "'expiration' must be an epoch number", 'expiration');
+    }
+    settings.expiration = expiration;
+  }
+
+  return settings;
+}
+
+// Keeps the assign names of an invalid command so references to them are not reported as unknown
+function placeholderCommand(command: any): PtbCommand {
+  const assign = command && typeof command === 'object' ? command.assign : undefined;
+  if (typeof assign === 'string' || (Array.isArray(assign) && assign.every(name => typeof name === 'string'))) {
+    return { type: 'moveCall', assign };
+  }
+  return { type: 'moveCall' };
+}
+
+export function parsePtbJson(jsonString: string, params: PtbParamValues = {}): PtbCommand[] {
+  return parsePtbDocument(jsonString, params).commands;
+}
+
+/**
+ * Parses PTB JSON like parsePtbJson, also returning the document's gas settings.
+ */
+export function parsePtbDocument(jsonString: string, params: PtbParamValues = {}): PtbDocument {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonString);
   } catch (error) {
     if (error instanceof SyntaxError) {
       throw new Error(`JSON Parse Error: ${error.message}`);
     }
     throw error;
   }
+
+  const { commands, gas, errors } = validatePtbDocument(parsed, params);
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+
+  // Validate result references; warnings are left to the caller
+  const referenceError = validateResultReferences(commands).find(issue => issue.severity === 'error');
+  if (referenceError) {
+    throw new PtbParseError(referenceError.path, referenceError.pointer, referenceError.message);
+  }
+
+  return gas ? { commands, gas } : { commands };
+}
+
+/**
+ * Checks PTB JSON text and returns every problem at once, each with a JSON pointer and its range in the text.
+ */
+export function diagnosePtbJson(jsonString: string, params: PtbParamValues = {}): PtbDiagnostic[] {
+  let sourceMap: JsonSourceMap;
+  try {
+    sourceMap = parseJsonWithSourceMap(jsonString);
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) {
+      return [{ severity: 'error', message: `JSON Parse Error: ${error.message}`, pointer: "", range: error.range }];
+    }
+    throw error;
+  }
+
+  const { commands, errors } = validatePtbDocument(sourceMap.value, params);
+  const diagnostics: PtbDiagnostic[] = errors.map(error => ({
+    severity: 'error',
+    message: error.message,
+    pointer: error.pointer,
+    range: rangeForPointer(sourceMap, error.pointer),
+  }));
+
+  if (commands.length > 0) {
+    for (const issue of validateResultReferences(commands)) {
+      diagnostics.push({
+        severity: issue.severity,
+        message: `${issue.path}: ${issue.message}`,
+        pointer: issue.pointer,
+        range: rangeForPointer(sourceMap, issue.pointer),
+      });
+    }
+  }
+
+  return diagnostics;
 }
 
-function validateCommand(command: any, index: number): PtbCommand {
-  const commandIndex = `Command ${index + 1}`;
+function validateCommand(command: any, index: number, errors: PtbParseError[]): PtbCommand {
+  const location = child(ROOT, `Command ${index + 1}`, 'commands', index);
   
   if (!command || typeof command !== 'object') {
-    throw new Error(`${commandIndex}: Command must be an object`);
+    fail(location, "Command must be an object");
   }
   
   if (!command.type || typeof command.type !== 'string') {
-    throw new Error(`${commandIndex}: Command must have a 'type' string property`);
+    fail(location, "Command must have a 'type' string property", 'type');
   }
   
-  const validTypes = ['moveCall', 'transferObjects', 'splitCoins', 'mergeCoins', 'shareObject', 'splitObjects'];
-  if (!validTypes.includes(command.type)) {
-    throw new Error(`${commandIndex}: Invalid command type '${command.type}'. Must be one of: ${validTypes.join(', ')}`);
+  if (!COMMAND_TYPES.includes(command.type)) {
+    fail(location, `Invalid command type '${command.type}'. Must be one of: ${COMMAND_TYPES.join(', ')}`, 'type');
   }
   
   switch (command.type) {
     case 'moveCall':
-      return validateMoveCall(command, commandIndex);
+      return validateMoveCall(command, location, errors);
     case 'transferObjects':
-      return validateTransferObjects(command, commandIndex);
+      return validateTransferObjects(command, location, errors);
     case 'splitCoins':
-      return validateSplitCoins(command, commandIndex);
+      return validateSplitCoins(command, location, errors);
     case 'mergeCoins':
-      return validateMergeCoins(command, commandIndex);
+      return validateMergeCoins(command, location, errors);
     case 'shareObject':
-      return validateShareObject(command, commandIndex);
+      return validateShareObject(command, location, errors);
     case 'splitObjects':
-      return validateSplitObjects(command, commandIndex);
+      return validateSplitObjects(command, location, errors);
+    case 'publish':
+      return validatePublish(command, location);
+    case 'upgrade':
+      return validateUpgrade(command, location, errors);
     default:
-      throw new Error(`${commandIndex}: Unsupported command type: ${command.type}`);
+      return fail(location, `Unsupported command type: ${command.type}`, 'type');
   }
 }
 
-function validateMoveCall(command: any, commandIndex: string): PtbCommand {
+// Validates each argument independently, recording failures and keeping positions with placeholders
+function validateArguments(
+  args: any[],
+  location: ParseLocation,
+  label: string,
+  key: string,
+  errors: PtbParseError[]
+): PtbArgument[] {
+  return args.map((arg, argIndex) => attempt(
+    errors,
+    INVALID_ARGUMENT,
+    () => validateArgument(arg, child(location, `${label} ${argIndex + 1}`, key, argIndex), errors)
+  ));
+}
+
+function validateMoveCall(command: any, location: ParseLocation, errors: PtbParseError[]): PtbCommand {
   if (!command.target || typeof command.target !== 'string') {
-    throw new Error(`${commandIndex}: moveCall requires a 'target' string property`);
+    fail(location, "moveCall requires a 'target' string property", 'target');
   }
   
   // Validate target format (basic check for package::module::function)
   const targetParts = command.target.split('::');
   if (targetParts.length < 3) {
-    throw new Error(`${commandIndex}: target must be in format 'package::module::function'`);
+    fail(location, "target must be in format 'package::module::function'", 'target');
   }
   
   const result: PtbCommand = {
@@ -133,152 +405,273 @@ function validateMoveCall(command: any, commandIndex: string): PtbCommand {
   
   if (command.arguments) {
     if (!Array.isArray(command.arguments)) {
-      throw new Error(`${commandIndex}: 'arguments' must be an array`);
+      fail(location, "'arguments' must be an array", 'arguments');
     }
-    result.arguments = command.arguments.map((arg: any, argIndex: number) => 
-      validateArgument(arg, `${commandIndex}, argument ${argIndex + 1}`)
-    );
+    result.arguments = validateArguments(command.arguments, location, 'argument', 'arguments', errors);
   }
   
   if (command.typeArguments) {
     if (!Array.isArray(command.typeArguments)) {
-      throw new Error(`${commandIndex}: 'typeArguments' must be an array`);
+      fail(location, "'typeArguments' must be an array", 'typeArguments');
     }
     result.typeArguments = command.typeArguments.filter((ta: any) => typeof ta === 'string');
   }
   
-  if (command.assign && typeof command.assign === 'string') {
-    result.assign = command.assign;
+  const assign = validateAssign(command.assign, location);
+  if (assign) {
+    result.assign = assign;
   }
   
   return result;
 }
 
-function validateTransferObjects(command: any, commandIndex: string): PtbCommand {
+// `assign` names the whole result, or destructures a multi-value result into one name per value
+function validateAssign(assign: unknown, location: ParseLocation): string | string[] | undefined {
+  if (assign === undefined || assign === '') {
+    return undefined;
+  }
+  if (typeof assign === 'string') {
+    return assign;
+  }
+  if (!Array.isArray(assign) || assign.length === 0) {
+    fail(location, "'assign' must be a string or a non-empty array of strings", 'assign');
+  }
+  assign.forEach((name: unknown, i: number) => {
+    if (typeof name !== 'string' || !name) {
+      fail(location, `'assign' array element ${i} must be a non-empty string`, 'assign', i);
+    }
+  });
+  return assign;
+}
+
+function validateTransferObjects(command: any, location: ParseLocation, errors: PtbParseError[]): PtbCommand {
   if (!command.objects || !Array.isArray(command.objects)) {
-    throw new Error(`${commandIndex}: transferObjects requires an 'objects' array`);
+    fail(location, "transferObjects requires an 'objects' array", 'objects');
   }
   
-  if (!command.recipient || typeof command.recipient !== 'string') {
-    throw new Error(`${commandIndex}: transferObjects requires a 'recipient' string`);
+  if (!isAddressString(command.recipient)) {
+    fail(location, "transferObjects requires a 'recipient' address", 'recipient');
   }
   
   return {
     type: 'transferObjects',
-    objects: command.objects.map((obj: any, objIndex: number) => 
-      validateArgument(obj, `${commandIndex}, object ${objIndex + 1}`)
-    ),
+    objects: validateArguments(command.objects, location, 'object', 'objects', errors),
     recipient: command.recipient,
   };
 }
 
-function validateSplitCoins(command: any, commandIndex: string): PtbCommand {
+function validateSplitCoins(command: any, location: ParseLocation, errors: PtbParseError[]): PtbCommand {
   if (!command.coin) {
-    throw new Error(`${commandIndex}: splitCoins requires a 'coin' object`);
+    fail(location, "splitCoins requires a 'coin' object", 'coin');
   }
   
   if (!command.amounts || !Array.isArray(command.amounts)) {
-    throw new Error(`${commandIndex}: splitCoins requires an 'amounts' array`);
+    fail(location, "splitCoins requires an 'amounts' array", 'amounts');
   }
   
-  const amounts = command.amounts.map((amount: any, amountIndex: number) => {
+  const amounts = command.amounts.map((amount: any, amountIndex: number) => attempt(errors, amount, () => {
     if (typeof amount !== 'number' || amount <= 0) {
-      throw new Error(`${commandIndex}: amount ${amountIndex + 1} must be a positive number`);
+      fail(location, `amount ${amountIndex + 1} must be a positive number`, 'amounts', amountIndex);
     }
     return amount;
-  });
+  }));
   
   const result: PtbCommand = {
     type: 'splitCoins',
-    coin: validateArgument(command.coin, `${commandIndex}, coin`),
+    coin: attempt(errors, INVALID_ARGUMENT, () => validateArgument(command.coin, child(location, 'coin', 'coin'), errors)),
     amounts,
   };
   
-  if (command.assign && typeof command.assign === 'string') {
-    result.assign = command.assign;
+  const assign = validateAssign(command.assign, location);
+  if (assign) {
+    result.assign = assign;
   }
   
   return result;
 }
 
-function validateMergeCoins(command: any, commandIndex: string): PtbCommand {
+function validateMergeCoins(command: any, location: ParseLocation, errors: PtbParseError[]): PtbCommand {
   if (!command.destination) {
-    throw new Error(`${commandIndex}: mergeCoins requires a 'destination' object`);
+    fail(location, "mergeCoins requires a 'destination' object", 'destination');
   }
 
   if (!command.sources || !Array.isArray(command.sources)) {
-    throw new Error(`${commandIndex}: mergeCoins requires a 'sources' array`);
+    fail(location, "mergeCoins requires a 'sources' array", 'sources');
   }
 
   return {
     type: 'mergeCoins',
-    destination: validateArgument(command.destination, `${commandIndex}, destination`),
-    sources: command.sources.map((src: any, srcIndex: number) =>
-      validateArgument(src, `${commandIndex}, source ${srcIndex + 1}`)
+    destination: attempt(errors, INVALID_ARGUMENT, () =>
+      validateArgument(command.destination, child(location, 'destination', 'destination'), errors)
     ),
+    sources: validateArguments(command.sources, location, 'source', 'sources', errors),
   };
 }
 
-function validateShareObject(command: any, commandIndex: string): PtbCommand {
+function validateShareObject(command: any, location: ParseLocation, errors: PtbParseError[]): PtbCommand {
   if (!command.object) {
-    throw new Error(`${commandIndex}: shareObject requires an 'object' argument`);
+    fail(location, "shareObject requires an 'object' argument", 'object');
+  }
+  if (typeof command.objectType !== 'string' || !command.objectType.trim()) {
+    fail(location, "shareObject requires an 'objectType', the full type of the object, e.g. 0xPACKAGE::nft::Nft", 'objectType');
   }
 
   return {
     type: 'shareObject',
-    object: validateArgument(command.object, `${commandIndex}, object`),
+    object: validateArgument(command.object, child(location, 'object', 'object'), errors),
+    objectType: command.objectType.trim(),
   };
 }
 
-function validateSplitObjects(command: any, commandIndex: string): PtbCommand {
+function validateSplitObjects(command: any, location: ParseLocation, errors: PtbParseError[]): PtbCommand {
   if (!command.objects || !Array.isArray(command.objects)) {
-    throw new Error(`${commandIndex}: splitObjects requires an 'objects' array`);
+    fail(location, "splitObjects requires an 'objects' array", 'objects');
   }
 
   if (command.objects.length !== 1) {
-    throw new Error(`${commandIndex}: splitObjects 'objects' array must contain exactly one element`);
+    fail(location, "splitObjects 'objects' array must contain exactly one element", 'objects');
   }
 
   if (!command.assign || !Array.isArray(command.assign)) {
-    throw new Error(`${commandIndex}: splitObjects requires an 'assign' array property`);
+    fail(location, "splitObjects requires an 'assign' array property", 'assign');
   }
 
   if (command.assign.length === 0) {
-    throw new Error(`${commandIndex}: splitObjects 'assign' array cannot be empty`);
+    fail(location, "splitObjects 'assign' array cannot be empty", 'assign');
   }
 
   // Validate that all assign elements are strings
   for (let i = 0; i < command.assign.length; i++) {
     if (typeof command.assign[i] !== 'string') {
-      throw new Error(`${commandIndex}: splitObjects 'assign' array element ${i} must be a string`);
+      fail(location, `splitObjects 'assign' array element ${i} must be a string`, 'assign', i);
     }
   }
 
   return {
     type: 'splitObjects',
-    objects: [validateArgument(command.objects[0], `${commandIndex}, objects[0]`)],
+    objects: [validateArgument(command.objects[0], child(location, 'objects[0]', 'objects', 0), errors)],
     assign: command.assign,
   };
 }
 
-function validateArgument(arg: any, context: string): PtbArgument {
+// Modules and dependencies shared by publish and upgrade
+function validatePackageContents(command: Record<string, unknown>, location: ParseLocation): Pick<PtbCommand, 'modules' | 'dependencies'> {
+  const { modules, dependencies } = command;
+  if (!Array.isArray(modules) || modules.length === 0) {
+    fail(location, `${command.type} requires a non-empty 'modules' array of base64 bytecode`, 'modules');
+  }
+
+  if (!Array.isArray(dependencies)) {
+    fail(location, `${command.type} requires a 'dependencies' array of package IDs`, 'dependencies');
+  }
+
+  modules.forEach((module: unknown, moduleIndex: number) => {
+    if (!isBase64(module)) {
+      fail(location, `module ${moduleIndex + 1} must be base64 bytecode`, 'modules', moduleIndex);
+    }
+  });
+
+  return {
+    modules,
+    dependencies: dependencies.map((dependency: unknown, dependencyIndex: number) => {
+      if (!isAddressString(dependency)) {
+        fail(location, `dependency ${dependencyIndex + 1} must be a package ID`, 'dependencies', dependencyIndex);
+      }
+      return normalizeSuiAddress(dependency);
+    }),
+  };
+}
+
+function validatePublish(command: Record<string, unknown>, location: ParseLocation): PtbCommand {
+  const result: PtbCommand = {
+    type: 'publish',
+    ...validatePackageContents(command, location),
+  };
+
+  const assign = validateAssign(command.assign, location);
+  if (assign) {
+    result.assign = assign;
+  }
+
+  return result;
+}
+
+function validateUpgrade(command: Record<string, unknown>, location: ParseLocation, errors: PtbParseError[]): PtbCommand {
+  const contents = validatePackageContents(command, location);
+
+  if (!isAddressString(command.package)) {
+    fail(location, "upgrade requires a 'package' ID string", 'package');
+  }
+
+  if (!command.ticket) {
+    fail(location, "upgrade requires a 'ticket' argument", 'ticket');
+  }
+
+  const result: PtbCommand = {
+    type: 'upgrade',
+    ...contents,
+    package: command.package,
+    ticket: attempt(errors, INVALID_ARGUMENT, () => validateArgument(command.ticket, child(location, 'ticket', 'ticket'), errors)),
+  };
+
+  if (command.digest !== undefined) {
+    try {
+      parsePackageDigest(command.digest);
+    } catch (error) {
+      if (error instanceof MovePackageError) {
+        fail(location, error.message, 'digest');
+      }
+      throw error;
+    }
+    result.digest = command.digest as number[] | string;
+  }
+
+  const assign = validateAssign(command.assign, location);
+  if (assign) {
+    result.assign = assign;
+  }
+
+  return result;
+}
+
+function validateArgument(arg: any, location: ParseLocation, errors: PtbParseError[]): PtbArgument {
   if (!arg || typeof arg !== 'object') {
-    throw new Error(`${context}: Argument must be an object`);
+    fail(location, "Argument must be an object");
   }
   
   if (!arg.type || typeof arg.type !== 'string') {
-    throw new Error(`${context}: Argument must have a 'type' string property`);
+    fail(location, "Argument must have a 'type' string property", 'type');
   }
   
-  const validArgTypes = ['pure', 'object', 'result', 'vector', 'option', 'witness'];
-  if (!validArgTypes.includes(arg.type)) {
-    throw new Error(`${context}: Invalid argument type '${arg.type}'. Must be one of: ${validArgTypes.join(', ')}`);
+  if (!ARGUMENT_TYPES.includes(arg.type)) {
+    fail(location, `Invalid argument type '${arg.type}'. Must be one of: ${ARGUMENT_TYPES.join(', ')}`, 'type');
   }
   
   switch (arg.type) {
     case 'pure':
       if (arg.value === undefined) {
-        throw new Error(`${context}: 'pure' argument requires a 'value' property`);
+        fail(location, "'pure' argument requires a 'value' property");
+      }
+      if (arg.encoding === 'bcs') {
+        if (typeof arg.value !== 'string' || !/^(0x)?([0-9a-fA-F]{2})*$/.test(arg.value)) {
+          fail(location, "a 'bcs' pure value must be a hex string of the encoded bytes", 'value');
+        }
+        if (arg.moveType !== undefined) {
+          try {
+            decodePureValue(arg.moveType, fromHex(arg.value.replace(/^0x/, '')));
+          } catch (error) {
+            fail(location, error instanceof Error ? error.message : String(error), 'value');
+          }
+        }
+      } else if (arg.moveType !== undefined) {
+        if (typeof arg.moveType !== 'string') {
+          fail(location, "'moveType' must be a string", 'moveType');
+        }
+        try {
+          encodePureValue(arg.moveType, arg.value, arg.encoding);
+        } catch (error) {
+          fail(location, error instanceof Error ? error.message : String(error), 'value');
+        }
       }
       return {
         type: arg.type,
@@ -289,49 +682,65 @@ function validateArgument(arg: any, context: string): PtbArgument {
 
     case 'object':
       if (arg.value === undefined) {
-        throw new Error(`${context}: 'object' argument requires a 'value' property`);
+        fail(location, "'object' argument requires a 'value' property");
       }
       return { type: arg.type, value: arg.value };
 
     case 'result':
       if (!arg.ref || typeof arg.ref !== 'string') {
-        throw new Error(`${context}: 'result' argument requires a 'ref' string property`);
+        fail(location, "'result' argument requires a 'ref' string property", 'ref');
+      }
+      if (arg.index !== undefined) {
+        if (!Number.isInteger(arg.index) || arg.index < 0) {
+          fail(location, "'index' must be a non-negative integer", 'index');
+        }
+        return { type: arg.type, ref: arg.ref, index: arg.index };
       }
       return { type: arg.type, ref: arg.ref };
 
     case 'vector':
       if (!Array.isArray(arg.elements)) {
-        throw new Error(`${context}: 'vector' argument requires an 'elements' array property`);
+        fail(location, "'vector' argument requires an 'elements' array property", 'elements');
+      }
+      if (arg.elementType !== undefined && typeof arg.elementType !== 'string') {
+        fail(location, "'elementType' must be a string", 'elementType');
       }
-      if (arg.elements.length === 0) {
-        throw new Error(`${context}: 'vector' argument cannot be empty`);
+      if (arg.elements.length === 0 && !arg.elementType) {
+        fail(location, "empty 'vector' argument requires an 'elementType'", 'elements');
       }
       return {
         type: arg.type,
-        elements: arg.elements.map((elem: any, idx: number) =>
-          validateArgument(elem, `${context}, element ${idx}`)
-        )
+        elements: arg.elements.map((elem: any, idx: number) => attempt(
+          errors,
+          INVALID_ARGUMENT,
+          () => validateArgument(elem, child(location, `element ${idx}`, 'elements', idx), errors)
+        )),
+        ...(arg.elementType && { elementType: arg.elementType }),
       };
 
     case 'option':
+      if (arg.elementType !== undefined && typeof arg.elementType !== 'string') {
+        fail(location, "'elementType' must be a string", 'elementType');
+      }
       if (arg.none === true) {
         if (arg.some) {
-          throw new Error(`${context}: 'option' argument cannot have both 'none' and 'some' properties`);
+          fail(location, "'option' argument cannot have both 'none' and 'some' properties");
         }
-        return { type: arg.type, none: true };
+        return { type: arg.type, none: true, ...(arg.elementType && { elementType: arg.elementType }) };
       } else if (arg.some) {
         return {
           type: arg.type,
-          some: validateArgument(arg.some, `${context}, some value`)
+          some: validateArgument(arg.some, child(location, 'some value', 'some'), errors),
+          ...(arg.elementType && { elementType: arg.elementType }),
         };
       } else {
-        throw new Error(`${context}: 'option' argument requires either 'none: true' or 'some' property`);
+        return fail(location, "'option' argument requires either 'none: true' or 'some' property");
       }
 
     case 'witness':
       // Witness objects are used for one-time witness patterns in Sui
       if (arg.value === undefined) {
-        throw new Error(`${context}: 'witness' argument requires a 'value' property (the witness type)`);
+        fail(location, "'witness' argument requires a 'value' property (the witness type)");
       }
       return {
         type: arg.type,
@@ -339,66 +748,203 @@ function validateArgument(arg: any, context: string): PtbArgument {
         structType: arg.structType
       };
 
+    case 'gas':
+    case 'sender':
+      return { type: arg.type };
+
+    case 'param':
+      // Left in place only when bindParams could not resolve it, which it has already reported
+      return { type: arg.type, name: arg.name };
+
+    case 'system':
+      if (!Object.keys(SYSTEM_OBJECTS).includes(arg.value)) {
+        const names = Object.entries(SYSTEM_OBJECTS).map(([name, { id }]) => `${name} (${id})`).join(', ');
+        fail(location, `'system' argument 'value' must be one of: ${names}`, 'value');
+      }
+      return { type: arg.type, value: arg.value };
+
     default:
-      throw new Error(`${context}: Unsupported argument type: ${arg.type}`);
+      return fail(location, `Unsupported argument type: ${arg.type}`, 'type');
   }
 }
 
-function validateResultReferences(commands: PtbCommand[]): void {
-  const assignedNames = new Set<string>();
-  
-  // Collect all assigned names first
+export interface ReferenceIssue {
+  severity: "error" | "warning";
+  path: string; // e.g. "Command 3, object 1, element 0"
+  pointer: string; // e.g. "/commands/2/objects/0/elements/0"
+  message: string;
+}
+
+// How many values an assign name holds: a count when known, null when unknown,
+// 'single' for a name destructured from a multi-value result
+type ResultArity = number | null | 'single';
+
+interface AssignedResult {
+  location: ParseLocation;
+  arity: ResultArity;
+  used: boolean;
+}
+
+interface CommandArgument {
+  arg: PtbArgument;
+  location: ParseLocation;
+  // True where the command takes the argument by value, moving the object out of its result
+  byValue: boolean;
+}
+
+function commandArguments(command: PtbCommand, location: ParseLocation, signatures?: MoveCallSignatures): CommandArgument[] {
+  const each = (args: PtbArgument[] | undefined, label: string, key: string, byValue: (argIndex: number) => boolean) =>
+    (args || []).map((arg, argIndex) => ({ arg, location: child(location, `${label} ${argIndex + 1}`, key, argIndex), byValue: byValue(argIndex) }));
+
+  switch (command.type) {
+    case 'moveCall': {
+      // Without its signature, a call is assumed to borrow its arguments
+      const signature = command.target ? signatures?.get(normalizeMoveTarget(command.target)) : undefined;
+      return each(command.arguments, 'argument', 'arguments', argIndex => {
+        const parameter = signature?.parameters[argIndex];
+        return parameter !== undefined && parameterMovesArgument(parameter, command.typeArguments || []);
+      });
+    }
+    case 'transferObjects':
+      return each(command.objects, 'object', 'objects', () => true);
+    case 'splitCoins':
+      return command.coin ? [{ arg: command.coin, location: child(location, 'coin', 'coin'), byValue: false }] : [];
+    case 'mergeCoins':
+      return [
+        ...(command.destination ? [{ arg: command.destination, location: child(location, 'destination', 'destination'), byValue: false }] : []),
+        ...each(command.sources, 'source', 'sources', () => true),
+      ];
+    case 'shareObject':
+      return command.object ? [{ arg: command.object, location: child(location, 'object', 'object'), byValue: true }] : [];
+    case 'splitObjects':
+      return (command.objects || []).map(obj => ({ arg: obj, location: child(location, 'objects[0]', 'objects', 0), byValue: false }));
+    case 'upgrade':
+      return command.ticket ? [{ arg: command.ticket, location: child(location, 'ticket', 'ticket'), byValue: true }] : [];
+    default:
+      return [];
+  }
+}
+
+// Same context for messages, but a pointer to one property of the value
+function pointAt(location: ParseLocation, key: string): ParseLocation {
+  return { context: location.context, pointer: joinPointer(location.pointer, key) };
+}
+
+function assignNames(command: PtbCommand): string[] {
+  if (!command.assign) {
+    return [];
+  }
+  return Array.isArray(command.assign) ? command.assign : [command.assign];
+}
+
+/**
+ * Walks the commands in order and checks every result reference, including those nested in vectors and options.
+ * Errors: duplicate names, unknown names, use before definition, out-of-range indexes and results moved twice.
+ * Warnings: results that are assigned but never used.
+ * With signatures, a moveCall result's arity is the function's return count,
+ * and arguments passed by value to its non-copyable parameters are moved.
+ */
+export function validateResultReferences(commands: PtbCommand[], signatures?: MoveCallSignatures): ReferenceIssue[] {
+  const issues: ReferenceIssue[] = [];
+  const report = (severity: ReferenceIssue["severity"], location: ParseLocation, message: string) =>
+    issues.push({ severity, path: location.context, pointer: location.pointer, message });
+  const commandLocation = (index: number) => child(ROOT, `Command ${index + 1}`, 'commands', index);
+
+  // Where each name is assigned, so that use-before-define can be told apart from unknown names
+  const definedAt = new Map<string, number>();
   commands.forEach((command, index) => {
-    if (command.assign) {
-      if (assignedNames.has(command.assign)) {
-        throw new Error(`Command ${index + 1}: Duplicate assign name '${command.assign}'`);
+    for (const name of assignNames(command)) {
+      if (definedAt.has(name)) {
+        report('error', pointAt(commandLocation(index), 'assign'), `Duplicate assign name '${name}'`);
+      } else {
+        definedAt.set(name, index);
       }
-      assignedNames.add(command.assign);
     }
   });
-  
-  // Validate all result references
-  commands.forEach((command, index) => {
-    const commandIndex = `Command ${index + 1}`;
-    validateCommandResultRefs(command, commandIndex, assignedNames);
-  });
-}
 
-function validateCommandResultRefs(command: PtbCommand, commandIndex: string, assignedNames: Set<string>): void {
-  const checkArgument = (arg: PtbArgument, context: string) => {
-    if (arg.type === 'result' && arg.ref) {
-      if (!assignedNames.has(arg.ref)) {
-        throw new Error(`${context}: Reference '${arg.ref}' not found in any previous command's assign property`);
+  const available = new Map<string, AssignedResult>();
+  // Results already moved by value, keyed by name or name[index], with the path that moved them
+  const moved = new Map<string, string>();
+
+  const checkResult = (arg: PtbArgument, location: ParseLocation, byValue: boolean) => {
+    const ref = arg.ref as string;
+    const result = available.get(ref);
+    if (!result) {
+      const definedIndex = definedAt.get(ref);
+      report('error', pointAt(location, 'ref'), definedIndex === undefined
+        ? `Reference '${ref}' not found in any previous command's assign property`
+        : `Reference '${ref}' is used before it is assigned in Command ${definedIndex + 1}`);
+      return;
+    }
+    result.used = true;
+
+    if (arg.index !== undefined && result.arity === 'single') {
+      report('error', pointAt(location, 'index'), `'${ref}' is a single value and cannot be indexed`);
+      return;
+    }
+    if (arg.index !== undefined && typeof result.arity === 'number' && arg.index >= result.arity) {
+      report('error', pointAt(location, 'index'), `index ${arg.index} is out of range for '${ref}', which has ${result.arity} value(s)`);
+      return;
+    }
+
+    if (byValue) {
+      const key = arg.index === undefined ? ref : `${ref}[${arg.index}]`;
+      // Moving a whole result also moves each of its values, and the reverse
+      const previous = moved.get(key) ?? (arg.index === undefined
+        ? Array.from(moved).find(([movedKey]) => movedKey.startsWith(`${ref}[`))?.[1]
+        : moved.get(ref));
+      if (previous) {
+        report('error', location, `'${key}' was already moved by value at ${previous}`);
+      } else {
+        moved.set(key, location.context);
       }
     }
   };
-  
-  switch (command.type) {
-    case 'moveCall':
-      command.arguments?.forEach((arg, argIndex) => 
-        checkArgument(arg, `${commandIndex}, argument ${argIndex + 1}`)
-      );
-      break;
-      
-    case 'transferObjects':
-      command.objects?.forEach((obj, objIndex) => 
-        checkArgument(obj, `${commandIndex}, object ${objIndex + 1}`)
-      );
-      break;
-      
-    case 'splitCoins':
-      if (command.coin) {
-        checkArgument(command.coin, `${commandIndex}, coin`);
+
+  const checkArgument = (arg: PtbArgument, location: ParseLocation, byValue: boolean) => {
+    switch (arg.type) {
+      case 'result':
+        checkResult(arg, location, byValue);
+        break;
+      // Vector elements and option values are moved into the new value
+      case 'vector':
+        arg.elements?.forEach((elem, idx) => checkArgument(elem, child(location, `element ${idx}`, 'elements', idx), true));
+        break;
+      case 'option':
+        if (arg.some) {
+          checkArgument(arg.some, child(location, 'some value', 'some'), true);
+        }
+        break;
+    }
+  };
+
+  commands.forEach((command, index) => {
+    const location = commandLocation(index);
+    for (const { arg, location: argLocation, byValue } of commandArguments(command, location, signatures)) {
+      checkArgument(arg, argLocation, byValue);
+    }
+
+    for (const name of assignNames(command)) {
+      if (definedAt.get(name) !== index) {
+        continue;
       }
-      break;
-      
-    case 'mergeCoins':
-      if (command.destination) {
-        checkArgument(command.destination, `${commandIndex}, destination`);
+      let arity: ResultArity = null;
+      if (Array.isArray(command.assign)) {
+        arity = 'single';
+      } else if (command.type === 'splitCoins') {
+        arity = command.amounts?.length ?? null;
+      } else if (command.type === 'moveCall' && command.target) {
+        arity = signatures?.get(normalizeMoveTarget(command.target))?.returnCount ?? null;
       }
-      command.sources?.forEach((src, srcIndex) => 
-        checkArgument(src, `${commandIndex}, source ${srcIndex + 1}`)
-      );
-      break;
+      available.set(name, { location: pointAt(location, 'assign'), arity, used: false });
+    }
+  });
+
+  for (const [name, result] of available) {
+    if (!result.used) {
+      report('warning', result.location, `'${name}' is assigned but never used`);
+    }
   }
-}
\ No newline at end of file
+
+  return issues;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { bcs } from "@mysten/sui/bcs";
+import { fromBase64 } from "@mysten/sui/utils";
+import { Transaction } from "@mysten/sui/transactions";
+import { PtbRunnerClient, PtbRunnerClientError } from "./ptb-runner-client";
+import { fixtureClient } from "./__fixtures__/rpc";
+
+const id = (byte: string) => "0x" + byte.repeat(32);
+const OWNER = "0x" + "a".repeat(64);
+const PACKAGE = "0x" + "e".repeat(64);
+const COLLECTION = id("31");
+const GAS_COIN = id("32");
+const MINTED = id("33");
+
+// The key the fixture's transactions were signed with; Ed25519 signatures are deterministic, so replays match
+const signer = Ed25519Keypair.fromSecretKey(new Uint8Array(32).fill(7));
+const SENDER = signer.toSuiAddress();
+
+const SOURCE = JSON.stringify({
+  params: { number: { type: "u64" } },
+  commands: [
+    {
+      type: "moveCall",
+      target: `${PACKAGE}::collection::mint`,
+      arguments: [{ type: "object", value: COLLECTION }, { type: "param", name: "number" }, { type: "pure", value: OWNER }],
+    },
+  ],
+  gas: { budget: 10000000, price: 1000, payment: [GAS_COIN] },
+});
+const PARAMS = { number: "42" };
+
+// Answers from __fixtures__/ptb-runner-client.json: collection::mint(&mut Collection, u64, address) on a shared collection
+const { client, transport } = fixtureClient("ptb-runner-client");
+const requests = () => ("requests" in transport ? transport.requests : transport.fixture);
+const runner = new PtbRunnerClient({ client, network: "testnet", signer });
+
+describe("PtbRunnerClient", () => {
+  it("builds with the declared gas and encodes pure values from the on-chain signature", async () => {
+    const transaction = await runner.build(SOURCE, { params: PARAMS });
+    await transaction.build({ client });
+    const data = transaction.getData();
+
+    expect(data.sender).toBe(SENDER);
+    expect(data.gasData).toMatchObject({ budget: "10000000", price: "1000", payment: [{ objectId: GAS_COIN }] });
+    expect(data.commands[0].MoveCall).toMatchObject({ package: PACKAGE, module: "collection", function: "mint" });
+    expect(data.inputs[0].Object?.SharedObject).toMatchObject({ objectId: COLLECTION, mutable: true });
+    expect(bcs.u64().parse(fromBase64(data.inputs[1].Pure!.bytes))).toBe("42");
+    expect(bcs.Address.parse(fromBase64(data.inputs[2].Pure!.bytes))).toBe(OWNER);
+  });
+
+  it("dry-runs a PTB and summarizes its effects", async () => {
+    const simulation = await runner.simulate(SOURCE, { params: PARAMS });
+    expect(simulation.success).toBe(true);
+    expect(simulation.gas.totalCost).toBe(3441880n);
+    expect(simulation.objectChanges.created).toEqual([{ objectId: MINTED, objectType: `${PACKAGE}::collection::Nft`, owner: OWNER }]);
+  });
+
+  it("executes after a successful dry-run and reads the effects and events back", async () => {
+    const outcome = await runner.execute(SOURCE, { params: PARAMS });
+    const expectedDigest = await (await runner.build(SOURCE, { params: PARAMS })).getDigest({ client });
+
+    expect(outcome).toMatchObject({ network: "testnet", sender: SENDER, digest: expectedDigest, status: "success", gasUsed: "3441880" });
+    expect(outcome.events).toEqual([
+      { type: `${PACKAGE}::collection::Minted`, emitter: `${PACKAGE}::collection`, sender: SENDER, fields: { id: MINTED, number: "42" } },
+    ]);
+  });
+
+  it("signs the transaction it dry-ran, with the declared budget put back", async () => {
+    await runner.execute(SOURCE, { params: PARAMS });
+    const sent = (method: string) => {
+      const request = requests().filter(call => call.method === method).pop()!;
+      return Transaction.from(request.params[0] as string).getData();
+    };
+    const dryRun = sent("sui_dryRunTransactionBlock");
+    const executed = sent("sui_executeTransactionBlock");
+
+    expect(executed.gasData.budget).toBe("10000000");
+    expect({ ...executed, gasData: { ...executed.gasData, budget: null } }).toEqual({ ...dryRun, gasData: { ...dryRun.gasData, budget: null } });
+  });
+
+  it("refuses to execute as a sender the signer cannot sign for", async () => {
+    await expect(runner.execute(SOURCE, { params: PARAMS, sender: OWNER })).rejects.toThrow(PtbRunnerClientError);
+  });
+});
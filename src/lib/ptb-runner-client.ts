@@ -0,0 +1,168 @@
+// PTB Runner Client - The runner's parse, build, simulate and execute pipeline and kiosk tools over an injected client
+import type { SuiClient } from "@mysten/sui/client";
+import type { Signer } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { parsePtbDocument, type PtbDocument } from "./ptb-parser";
+import { type PtbParamValues } from "./ptb-params";
+import { constructTransactionBlock, resolveGasPayment } from "./transaction-builder";
+import { resolveMoveCallSignatures } from "./move-abi";
+import { simulateTransaction, type SimulationResult } from "./transaction-simulator";
+import { describeExecution, type NewHistoryEntry } from "./execution-history";
+import { describeAbort } from "./abort-codes";
+import { getKioskNFTs, getUserKiosks, type KioskInfo, type NFTInfo } from "./kiosk-discovery";
+import { createSmartKioskTransferTransaction, discoverRecipient, type RecipientInfo } from "./smart-kiosk";
+
+export interface PtbRunnerClientOptions {
+  client: SuiClient;
+  network: string; // Names the client's network; on-chain signatures are cached under it
+  signer?: Signer; // Signs in execute(); without one the client is read-only
+  useAbi?: boolean; // Fetch on-chain function signatures to pick pure encodings; on by default
+}
+
+// PTB JSON text, or a document already parsed from it
+export type PtbInput = string | PtbDocument;
+
+export interface RunOptions {
+  sender?: string; // Defaults to the signer's address
+  params?: PtbParamValues; // Values for the params a JSON input declares
+}
+
+export type ExecutionOutcome = Omit<NewHistoryEntry, "source" | "params">;
+
+export interface KioskTransferPlan {
+  transaction: Transaction;
+  description: string;
+  recipient: RecipientInfo;
+}
+
+export class PtbRunnerClientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PtbRunnerClientError";
+  }
+}
+
+/**
+ * One entry point to the runner's logic for scripts and services: nothing here reads the app's
+ * selected network or wallet, so several clients for different networks can run side by side.
+ */
+export class PtbRunnerClient {
+  readonly client: SuiClient;
+  readonly network: string;
+  private readonly signer?: Signer;
+  private readonly useAbi: boolean;
+
+  constructor({ client, network, signer, useAbi = true }: PtbRunnerClientOptions) {
+    this.client = client;
+    this.network = network;
+    this.signer = signer;
+    this.useAbi = useAbi;
+  }
+
+  /**
+   * Validates PTB JSON and returns its commands and gas settings. Throws PtbParseError on the first problem.
+   */
+  parse(source: string, params: PtbParamValues = {}): PtbDocument {
+    return parsePtbDocument(source, params);
+  }
+
+  /**
+   * Builds the transaction for a PTB, checking moveCalls against their on-chain signatures.
+   * The declared gas budget is left out with `withBudget: false`, as for dry-runs.
+   */
+  async build(input: PtbInput, { withBudget = true, ...options }: RunOptions & { withBudget?: boolean } = {}): Promise<Transaction> {
+    const document = typeof input === "string" ? this.parse(input, options.params) : input;
+    const signatures = this.useAbi
+      ? await resolveMoveCallSignatures(document.commands, { client: this.client, network: this.network })
+      : undefined;
+    const gasPayment = document.gas?.payment
+      ? await resolveGasPayment(document.gas.payment, { client: this.client })
+      : undefined;
+    return constructTransactionBlock(document.commands, {
+      signatures,
+      sender: this.sender(options.sender),
+      gas: document.gas && (withBudget ? document.gas : { ...document.gas, budget: undefined }),
+      gasPayment,
+    });
+  }
+
+  /**
+   * Dry-runs a PTB or a built transaction. Nothing is signed.
+   */
+  async simulate(input: PtbInput | Transaction, options: RunOptions = {}): Promise<SimulationResult> {
+    const transaction = input instanceof Transaction ? input : await this.build(input, { ...options, withBudget: false });
+    return simulateTransaction(transaction, { client: this.client, sender: this.sender(options.sender, transaction) });
+  }
+
+  /**
+   * Dry-runs, then signs and executes only when the dry-run succeeds, and returns the effects and events on chain.
+   */
+  async execute(input: PtbInput | Transaction, options: RunOptions = {}): Promise<ExecutionOutcome> {
+    if (!this.signer) {
+      throw new PtbRunnerClientError("Pass a signer to the PtbRunnerClient to execute transactions");
+    }
+    const sender = this.sender(options.sender, input instanceof Transaction ? input : undefined);
+    if (normalizeSuiAddress(sender) !== this.signer.toSuiAddress()) {
+      throw new PtbRunnerClientError(`The signer ${this.signer.toSuiAddress()} cannot sign for sender ${sender}`);
+    }
+
+    // Built once and signed as dry-run, as in the runner's review: only the declared budget, left out of the
+    // dry-run, is put back on the resolved transaction before its bytes are signed
+    const document = input instanceof Transaction ? undefined : typeof input === "string" ? this.parse(input, options.params) : input;
+    const transaction = document ? await this.build(document, { ...options, sender, withBudget: false }) : input as Transaction;
+    const simulation = await this.simulate(transaction, { ...options, sender });
+    if (!simulation.success) {
+      throw new PtbRunnerClientError(
+        `Dry-run failed, nothing was signed: ${simulation.abort ? describeAbort(simulation.abort) : simulation.error}`
+      );
+    }
+    if (document?.gas?.budget !== undefined) {
+      transaction.setGasBudget(BigInt(document.gas.budget));
+    }
+
+    const bytes = await transaction.build({ client: this.client });
+    const { digest } = await this.client.signAndExecuteTransaction({ transaction: bytes, signer: this.signer });
+    const { source, params, ...outcome } = await describeExecution(digest, {
+      client: this.client,
+      source: "",
+      network: this.network,
+      sender,
+    });
+    return outcome;
+  }
+
+  /**
+   * Finds the kiosks an address owns and the items in each.
+   */
+  async discoverKiosks(owner: string): Promise<{ kiosks: KioskInfo[]; nfts: NFTInfo[] }> {
+    const kiosks = await getUserKiosks(owner, { client: this.client });
+    const nfts = (await Promise.all(kiosks.map(kiosk => getKioskNFTs(kiosk.id, { client: this.client })))).flat();
+    return { kiosks, nfts };
+  }
+
+  /**
+   * Plans a transfer of NFTs into the recipient's first kiosk, creating one for them when they have none.
+   * The transaction is returned unsigned; pass it to simulate() or execute().
+   */
+  async planKioskTransfer(recipient: string, items: { id: string; type: string }[]): Promise<KioskTransferPlan> {
+    if (items.length === 0) {
+      throw new PtbRunnerClientError("Choose at least one NFT to transfer");
+    }
+    const recipientInfo = await discoverRecipient(recipient, { client: this.client });
+    const { transaction, description } = createSmartKioskTransferTransaction(
+      recipientInfo,
+      items.map(item => item.id),
+      items.map(item => item.type)
+    );
+    return { transaction, description, recipient: recipientInfo };
+  }
+
+  private sender(sender?: string, transaction?: Transaction): string {
+    const resolved = sender ?? transaction?.getData().sender ?? this.signer?.toSuiAddress();
+    if (!resolved) {
+      throw new PtbRunnerClientError("Pass a sender, or a signer whose address sends the transaction");
+    }
+    return resolved;
+  }
+}
@@ -0,0 +1,147 @@
+// PTB JSON Schema - Describes the PtbJson document format for editor completion and hover
+import { COMMAND_TYPES, ARGUMENT_TYPES, PURE_ENCODINGS, SYSTEM_OBJECTS } from "./ptb-parser";
+import { PARAM_TYPES } from "./ptb-params";
+
+export const PTB_SCHEMA_URI = "ptb-runner://schemas/ptb.json";
+
+const argumentRef = { $ref: "#/definitions/argument" };
+
+const amountSchema = {
+  oneOf: [
+    { type: "integer", exclusiveMinimum: 0 },
+    { type: "string", pattern: "^[1-9][0-9]*$" },
+  ],
+};
+
+// Properties each command type requires, mirroring the parser's validate* functions
+const COMMAND_REQUIREMENTS: Record<typeof COMMAND_TYPES[number], string[]> = {
+  moveCall: ["target"],
+  transferObjects: ["objects", "recipient"],
+  splitCoins: ["coin", "amounts"],
+  mergeCoins: ["destination", "sources"],
+  shareObject: ["object", "objectType"],
+  splitObjects: ["objects", "assign"],
+  publish: ["modules", "dependencies"],
+  upgrade: ["modules", "dependencies", "package", "ticket"],
+};
+
+export const PTB_JSON_SCHEMA = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  $id: PTB_SCHEMA_URI,
+  title: "Programmable Transaction Block",
+  type: "object",
+  required: ["commands"],
+  properties: {
+    params: {
+      type: "object",
+      description: "Named inputs filled in before parsing; commands use them as { \"type\": \"param\", \"name\": ... }",
+      propertyNames: { pattern: "^[A-Za-z_][A-Za-z0-9_]*$" },
+      additionalProperties: { $ref: "#/definitions/param" },
+    },
+    gas: {
+      type: "object",
+      description: "Gas settings; anything left out is chosen by the wallet",
+      properties: {
+        budget: { ...amountSchema, description: "Maximum MIST the transaction may spend on gas" },
+        price: { ...amountSchema, description: "MIST per gas unit" },
+        payment: { type: "array", description: "SUI coin object IDs to pay gas with", minItems: 1, items: { type: "string" } },
+        sponsor: { type: "string", description: "Address that pays for gas and co-signs" },
+        expiration: { type: "integer", minimum: 0, description: "Last epoch the transaction is valid in" },
+      },
+    },
+    commands: {
+      type: "array",
+      description: "Commands run in order; later commands can reference earlier results by their assign name",
+      minItems: 1,
+      items: { $ref: "#/definitions/command" },
+    },
+  },
+  definitions: {
+    param: {
+      type: "object",
+      required: ["type"],
+      properties: {
+        type: { enum: [...PARAM_TYPES], description: "Kind of value the param takes" },
+        description: { type: "string", description: "Shown next to the input" },
+        default: { type: "string", description: "Value used when the input is left empty" },
+      },
+    },
+    assign: {
+      description: "Name for the command result, or one name per value of a multi-value result",
+      oneOf: [
+        { type: "string", minLength: 1 },
+        { type: "array", minItems: 1, items: { type: "string", minLength: 1 } },
+      ],
+    },
+    command: {
+      type: "object",
+      required: ["type"],
+      properties: {
+        type: { enum: [...COMMAND_TYPES], description: "Command kind" },
+        assign: { $ref: "#/definitions/assign" },
+        target: {
+          type: "string",
+          description: "Move function as package::module::function",
+          pattern: "^[^:]+::[^:]+::[^:]+$",
+        },
+        arguments: { type: "array", description: "moveCall arguments", items: argumentRef },
+        typeArguments: { type: "array", description: "moveCall type arguments", items: { type: "string" } },
+        objects: { type: "array", description: "Objects to transfer, or the result to split", items: argumentRef },
+        recipient: { type: "string", description: "Address receiving the objects" },
+        coin: { ...argumentRef, description: "Coin to split" },
+        amounts: { type: "array", description: "Amounts to split off", items: { type: "number", exclusiveMinimum: 0 } },
+        destination: { ...argumentRef, description: "Coin to merge into" },
+        sources: { type: "array", description: "Coins merged into the destination", items: argumentRef },
+        object: { ...argumentRef, description: "Object to share" },
+        objectType: { type: "string", description: "Full type of the object to share, e.g. 0xPACKAGE::nft::Nft" },
+        modules: {
+          type: "array",
+          description: "Compiled modules as base64 bytecode",
+          minItems: 1,
+          items: { type: "string", contentEncoding: "base64" },
+        },
+        dependencies: { type: "array", description: "IDs of the packages the modules depend on", items: { type: "string" } },
+        package: { type: "string", description: "ID of the package being upgraded" },
+        ticket: { ...argumentRef, description: "UpgradeTicket returned by 0x2::package::authorize_upgrade" },
+        digest: {
+          description: "Expected package digest, checked against the modules before building",
+          oneOf: [
+            { type: "array", minItems: 32, maxItems: 32, items: { type: "integer", minimum: 0, maximum: 255 } },
+            { type: "string", pattern: "^(0x)?[0-9a-fA-F]{64}$" },
+          ],
+        },
+      },
+      allOf: Object.entries(COMMAND_REQUIREMENTS).map(([type, required]) => ({
+        if: { properties: { type: { const: type } } },
+        then: { required },
+      })),
+    },
+    argument: {
+      type: "object",
+      required: ["type"],
+      properties: {
+        type: { enum: [...ARGUMENT_TYPES], description: "Argument kind" },
+        value: {
+          description: "Literal value for pure, object ID for object, witness type for witness, object name for system",
+        },
+        ref: { type: "string", description: "Assign name of an earlier command" },
+        index: { type: "integer", minimum: 0, description: "Value of a multi-value result to use" },
+        elements: { type: "array", description: "Vector elements", items: argumentRef },
+        some: { ...argumentRef, description: "Option value" },
+        none: { const: true, description: "Empty option" },
+        elementType: { type: "string", description: "Vector element type or option value type" },
+        encoding: { enum: [...PURE_ENCODINGS], description: "How a string pure value is encoded" },
+        moveType: { type: "string", description: "Move type to encode a pure value as, e.g. u64" },
+        structType: { type: "string" },
+        name: { type: "string", description: "Name of a declared param" },
+      },
+      allOf: [{
+        if: { properties: { type: { const: "param" } } },
+        then: { required: ["name"] },
+      }, {
+        if: { properties: { type: { const: "system" } } },
+        then: { required: ["value"], properties: { value: { enum: Object.keys(SYSTEM_OBJECTS) } } },
+      }],
+    },
+  },
+};
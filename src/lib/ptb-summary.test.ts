@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { describeCommand, describeSimulation, summarizeSimulation } from "./ptb-summary";
+import { type SimulationResult } from "./transaction-simulator";
+
+const OWNER = "0x" + "b".repeat(64);
+const OBJECT = "0x" + "c".repeat(64);
+
+const simulation: SimulationResult = {
+  success: true,
+  gas: { computationCost: 1_000_000n, storageCost: 2_000_000n, storageRebate: 500_000n, totalCost: 2_500_000n },
+  balanceChanges: [{ coinType: "0x2::sui::SUI", changes: [{ owner: OWNER, amount: -2_500_000n }] }],
+  objectChanges: { created: [{ objectId: OBJECT, objectType: "0x2::coin::Coin<0x2::sui::SUI>", owner: OWNER }], mutated: [], transferred: [], deleted: [] },
+};
+
+describe("summarizeSimulation", () => {
+  it("warns when the budget is below computation plus storage, before the rebate", () => {
+    expect(summarizeSimulation(simulation, { budget: "2500000" }).budgetWarning)
+      .toBe("The gas budget of 0.0025 SUI is below the dry-run estimate of 0.003 SUI; the transaction will fail with InsufficientGas unless the budget is raised");
+    expect(summarizeSimulation(simulation, { budget: "3000000" }).budgetWarning).toBeUndefined();
+    expect(summarizeSimulation(simulation).budgetWarning).toBeUndefined();
+  });
+
+  it("groups balance and object changes into sections, skipping empty ones", () => {
+    expect(summarizeSimulation(simulation).sections).toEqual([
+      { title: "Balance changes of 0x2::sui::SUI", lines: ["0xbbbbbb...bbbbbb: -2500000"] },
+      { title: "Created (1)", lines: ["0xcccccc...cccccc 0x2::coin::Coin<0x2::sui::SUI> → 0xbbbbbb...bbbbbb"] },
+    ]);
+  });
+
+  it("reads as plain-text lines for the CLI", () => {
+    expect(describeSimulation({ ...simulation, success: false, error: "InsufficientGas" })).toEqual([
+      "Dry-run failed. InsufficientGas",
+      "Gas: Total 0.0025 SUI (computation 0.001, storage 0.002, rebate 0.0005)",
+      "Balance changes of 0x2::sui::SUI",
+      "  0xbbbbbb...bbbbbb: -2500000",
+      "Created (1)",
+      "  0xcccccc...cccccc 0x2::coin::Coin<0x2::sui::SUI> → 0xbbbbbb...bbbbbb",
+    ]);
+  });
+});
+
+describe("describeCommand", () => {
+  it("gives a headline and detail lines", () => {
+    expect(describeCommand({ type: "splitCoins", coin: { type: "gas" }, amounts: [1, 2] })).toEqual([
+      "Split Gas coin into 2 amounts",
+      "Amounts: 1, 2",
+    ]);
+  });
+});
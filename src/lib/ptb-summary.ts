@@ -0,0 +1,149 @@
+// PTB Summary - Plain-text review of a PTB and its dry-run, the same facts the security review shows
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+import { type PtbArgument, type PtbCommand, type PtbGasSettings, type SystemObjectName, SYSTEM_OBJECTS } from "./ptb-parser";
+import { type SimulatedObjectChange, type SimulationResult } from "./transaction-simulator";
+import { describeAbort } from "./abort-codes";
+import { formatMist, plural, shortId } from "./utils";
+
+// Names shared system objects whether they are given as 'system' arguments or by ID
+function systemObjectName(objectId: string): string | undefined {
+  if (!isValidSuiAddress(normalizeSuiAddress(objectId))) return undefined;
+  const match = Object.values(SYSTEM_OBJECTS).find(({ id }) => normalizeSuiAddress(id) === normalizeSuiAddress(objectId));
+  return match?.name;
+}
+
+export function describeArgument(arg: PtbArgument): string {
+  switch (arg.type) {
+    case "gas":
+      return "Gas coin";
+    case "sender":
+      return "Sender address";
+    case "system":
+      return SYSTEM_OBJECTS[arg.value as SystemObjectName].name;
+    case "object":
+      return systemObjectName(String(arg.value)) ?? shortId(String(arg.value));
+    case "result":
+      return arg.index === undefined ? arg.ref ?? "" : `${arg.ref}[${arg.index}]`;
+    case "vector":
+      return `[${(arg.elements || []).map(describeArgument).join(", ")}]`;
+    case "option":
+      return arg.some ? `some(${describeArgument(arg.some)})` : "none";
+    case "pure":
+      return typeof arg.value === "string" ? arg.value : JSON.stringify(arg.value);
+    default:
+      return String(arg.value);
+  }
+}
+
+/**
+ * Describes a command as a headline followed by detail lines.
+ */
+export function describeCommand(command: PtbCommand): string[] {
+  switch (command.type) {
+    case "moveCall":
+      return [
+        `Call function ${command.target}`,
+        ...(command.arguments?.length
+          ? [`with ${plural(command.arguments.length, "argument")}: ${command.arguments.map(describeArgument).join(", ")}`]
+          : []),
+        ...(command.typeArguments?.length ? [`Type arguments: ${command.typeArguments.join(", ")}`] : []),
+      ];
+    case "transferObjects":
+      return [
+        `Transfer ${plural(command.objects.length, "object")}: ${command.objects.map(describeArgument).join(", ")}`,
+        `to recipient: ${command.recipient}`,
+      ];
+    case "splitCoins":
+      return [
+        `Split ${describeArgument(command.coin)} into ${plural(command.amounts.length, "amount")}`,
+        `Amounts: ${command.amounts.join(", ")}`,
+      ];
+    case "mergeCoins":
+      return [`Merge ${plural(command.sources.length, "coin")} into ${describeArgument(command.destination)}`];
+    case "shareObject":
+      return [`Share ${describeArgument(command.object)} as ${command.objectType}`];
+    case "splitObjects":
+      return [`Split out ${plural(command.objects.length, "object")}: ${command.objects.map(describeArgument).join(", ")}`];
+    case "publish":
+      return [
+        `Publish a new package with ${plural(command.modules.length, "module")}`,
+        `Depends on ${plural(command.dependencies.length, "package")}`,
+      ];
+    case "upgrade":
+      return [
+        `Upgrade package ${shortId(command.package)} with ${plural(command.modules.length, "module")}`,
+        `Depends on ${plural(command.dependencies.length, "package")}${command.digest !== undefined ? ", digest checked before signing" : ""}`,
+      ];
+    default:
+      return [`Unknown command type: ${command.type}`];
+  }
+}
+
+// A titled group of detail lines, e.g. one coin type's balance changes
+export interface SummarySection {
+  title: string;
+  lines: string[];
+}
+
+export interface SimulationSummary {
+  success: boolean;
+  outcome: string;
+  gas: string;
+  budgetWarning?: string; // Set when the declared budget is below the dry-run estimate
+  sections: SummarySection[];
+}
+
+export function deploysCode(commands: PtbCommand[]): boolean {
+  return commands.some(command => command.type === "publish" || command.type === "upgrade");
+}
+
+function objectChangeSection(label: string, changes: SimulatedObjectChange[]): SummarySection[] {
+  if (changes.length === 0) return [];
+  return [{
+    title: `${label} (${changes.length})`,
+    lines: changes.map(change => `${shortId(change.objectId)} ${change.objectType}${change.owner ? ` → ${shortId(change.owner)}` : ""}`),
+  }];
+}
+
+/**
+ * Summarizes a dry-run: its outcome, gas, balance and object changes, and a warning when the declared budget is too low.
+ */
+export function summarizeSimulation(simulation: SimulationResult, gas?: PtbGasSettings): SimulationSummary {
+  // The budget must cover computation and storage; the rebate is only paid back afterwards
+  const requiredBudget = simulation.gas.computationCost + simulation.gas.storageCost;
+  const budgetTooLow = gas?.budget !== undefined && BigInt(gas.budget) < requiredBudget;
+  return {
+    success: simulation.success,
+    outcome: simulation.success
+      ? "Dry-run succeeded"
+      : `Dry-run failed${simulation.abort ? `: ${describeAbort(simulation.abort)}` : ""}. ${simulation.error ?? ""}`.trim(),
+    gas: `Total ${formatMist(simulation.gas.totalCost)} SUI (computation ${formatMist(simulation.gas.computationCost)}, storage ${formatMist(simulation.gas.storageCost)}, rebate ${formatMist(simulation.gas.storageRebate)})`,
+    ...(budgetTooLow && {
+      budgetWarning: `The gas budget of ${formatMist(BigInt(gas.budget))} SUI is below the dry-run estimate of ${formatMist(requiredBudget)} SUI; `
+        + "the transaction will fail with InsufficientGas unless the budget is raised",
+    }),
+    sections: [
+      ...simulation.balanceChanges.map(({ coinType, changes }) => ({
+        title: `Balance changes of ${coinType}`,
+        lines: changes.map(change => `${shortId(change.owner)}: ${change.amount > 0n ? "+" : ""}${change.amount}`),
+      })),
+      ...objectChangeSection("Created", simulation.objectChanges.created),
+      ...objectChangeSection("Mutated", simulation.objectChanges.mutated),
+      ...objectChangeSection("Transferred", simulation.objectChanges.transferred),
+      ...objectChangeSection("Deleted", simulation.objectChanges.deleted),
+    ],
+  };
+}
+
+/**
+ * The dry-run summary as plain-text lines.
+ */
+export function describeSimulation(simulation: SimulationResult, gas?: PtbGasSettings): string[] {
+  const summary = summarizeSimulation(simulation, gas);
+  return [
+    summary.outcome,
+    `Gas: ${summary.gas}`,
+    ...(summary.budgetWarning ? [`Warning: ${summary.budgetWarning}`] : []),
+    ...summary.sections.flatMap(({ title, lines }) => [title, ...lines.map(line => `  ${line}`)]),
+  ];
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { JsonRpcError, SuiClient, type SuiTransport } from "@mysten/sui/client";
+import { FixtureMissError, RecordingTransport, ReplayTransport, type RpcFixture } from "./recorded-transport";
+
+const OBJECT_ID = "0x" + "c".repeat(64);
+
+const objectResponse = (version: string) => ({
+  data: { objectId: OBJECT_ID, version, digest: "11111111111111111111111111111111", type: "0x2::coin::Coin<0x2::sui::SUI>" },
+});
+
+const fixture: RpcFixture = [
+  { method: "sui_getObject", params: [OBJECT_ID, { showType: true, showOwner: false }], result: objectResponse("1") },
+  { method: "sui_getObject", params: [OBJECT_ID, { showType: true, showOwner: false }], result: objectResponse("2") },
+  { method: "suix_getReferenceGasPrice", params: [], error: { code: -32000, message: "Node is shutting down" } },
+];
+
+describe("ReplayTransport", () => {
+  it("answers a request whose params match a recording, whatever their key order", async () => {
+    const client = new SuiClient({ transport: new ReplayTransport(fixture) });
+    const response = await client.getObject({ id: OBJECT_ID, options: { showOwner: false, showType: true } });
+    expect(response.data?.version).toBe("1");
+  });
+
+  it("replays repeated requests in the recorded order, then repeats the last answer", async () => {
+    const client = new SuiClient({ transport: new ReplayTransport(fixture) });
+    const versions = [];
+    for (let i = 0; i < 3; i++) {
+      versions.push((await client.getObject({ id: OBJECT_ID, options: { showType: true, showOwner: false } })).data?.version);
+    }
+    expect(versions).toEqual(["1", "2", "2"]);
+  });
+
+  it("replays recorded errors as JSON-RPC errors", async () => {
+    const client = new SuiClient({ transport: new ReplayTransport(fixture) });
+    const error = await client.getReferenceGasPrice().catch(caught => caught);
+    expect(error).toBeInstanceOf(JsonRpcError);
+    expect(error.code).toBe(-32000);
+  });
+
+  it("names the request that has no recording", async () => {
+    const transport = new ReplayTransport(fixture);
+    const client = new SuiClient({ transport });
+    await expect(client.getObject({ id: OBJECT_ID })).rejects.toThrow(FixtureMissError);
+    await expect(client.getObject({ id: OBJECT_ID })).rejects.toThrow(`sui_getObject ["${OBJECT_ID}",null]`);
+    expect(transport.requests.map(request => request.method)).toEqual(["sui_getObject", "sui_getObject"]);
+  });
+});
+
+describe("RecordingTransport", () => {
+  it("records what the wrapped transport answers, errors included, so it can be replayed", async () => {
+    const live: SuiTransport = {
+      async request<T>({ method }: { method: string }) {
+        if (method === "suix_getReferenceGasPrice") throw new JsonRpcError("Node is shutting down", -32000);
+        return objectResponse("7") as T;
+      },
+      async subscribe() {
+        return async () => true;
+      },
+    };
+    const recorder = new RecordingTransport(live);
+    const recording = new SuiClient({ transport: recorder });
+    await recording.getObject({ id: OBJECT_ID });
+    await expect(recording.getReferenceGasPrice()).rejects.toThrow("Node is shutting down");
+
+    expect(recorder.fixture).toEqual([
+      { method: "sui_getObject", params: [OBJECT_ID, null], result: objectResponse("7") },
+      { method: "suix_getReferenceGasPrice", params: [], error: { code: -32000, message: "Node is shutting down" } },
+    ]);
+
+    const replaying = new SuiClient({ transport: new ReplayTransport(JSON.parse(JSON.stringify(recorder.fixture))) });
+    expect((await replaying.getObject({ id: OBJECT_ID })).data?.version).toBe("7");
+    await expect(replaying.getReferenceGasPrice()).rejects.toThrow(JsonRpcError);
+  });
+});
@@ -0,0 +1,98 @@
+// Recorded Transport - Replays recorded JSON-RPC responses so SuiClient code runs offline, and records them from a live node
+import {
+  JsonRpcError,
+  type SuiTransport,
+  type SuiTransportRequestOptions,
+  type SuiTransportSubscribeOptions,
+} from "@mysten/sui/client";
+
+export interface RecordedCall {
+  method: string; // JSON-RPC method, e.g. suix_getOwnedObjects
+  params: unknown[];
+  result?: unknown;
+  error?: { code: number; message: string }; // Replayed as a JsonRpcError instead of a result
+}
+
+export type RpcFixture = RecordedCall[];
+
+export class FixtureMissError extends Error {
+  constructor(readonly method: string, readonly params: unknown[]) {
+    super(`No recorded response for ${method} ${JSON.stringify(params)}`);
+    this.name = "FixtureMissError";
+  }
+}
+
+// Params as JSON with sorted keys, so a request matches its recording however its objects were built
+function requestKey(method: string, params: unknown[]): string {
+  return `${method} ${JSON.stringify(params, (_key, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(Object.keys(value).sort().map(key => [key, value[key]]))
+      : value
+  )}`;
+}
+
+/**
+ * Answers requests from a fixture. Calls with the same method and params are answered in the order they were
+ * recorded, the last one repeating, so polling such as waitForTransaction sees the final state.
+ */
+export class ReplayTransport implements SuiTransport {
+  readonly requests: { method: string; params: unknown[] }[] = []; // Every request made, in order
+  private readonly responses = new Map<string, RecordedCall[]>();
+  private readonly served = new Map<string, number>();
+
+  constructor(fixture: RpcFixture) {
+    for (const call of fixture) {
+      const key = requestKey(call.method, call.params);
+      this.responses.set(key, [...(this.responses.get(key) ?? []), call]);
+    }
+  }
+
+  async request<T>({ method, params }: SuiTransportRequestOptions): Promise<T> {
+    this.requests.push({ method, params });
+    const key = requestKey(method, params);
+    const recorded = this.responses.get(key);
+    if (!recorded) {
+      throw new FixtureMissError(method, params);
+    }
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    const call = recorded[Math.min(index, recorded.length - 1)];
+    if (call.error) {
+      throw new JsonRpcError(call.error.message, call.error.code);
+    }
+    return structuredClone(call.result) as T;
+  }
+
+  async subscribe<T>(_input: SuiTransportSubscribeOptions<T>): Promise<() => Promise<boolean>> {
+    throw new Error("Subscriptions cannot be replayed");
+  }
+}
+
+/**
+ * Passes requests to another transport, usually a SuiHTTPTransport for a live node, and keeps each response
+ * so it can be saved as a fixture.
+ */
+export class RecordingTransport implements SuiTransport {
+  readonly fixture: RpcFixture = [];
+
+  constructor(private readonly transport: SuiTransport) {}
+
+  async request<T>(input: SuiTransportRequestOptions): Promise<T> {
+    // Stored as sent over the wire, where undefined params become null
+    const params = JSON.parse(JSON.stringify(input.params)) as unknown[];
+    try {
+      const result = await this.transport.request<T>(input);
+      this.fixture.push({ method: input.method, params, result });
+      return result;
+    } catch (error) {
+      if (error instanceof JsonRpcError) {
+        this.fixture.push({ method: input.method, params, error: { code: error.code, message: error.message } });
+      }
+      throw error;
+    }
+  }
+
+  subscribe<T>(input: SuiTransportSubscribeOptions<T>): Promise<() => Promise<boolean>> {
+    return this.transport.subscribe(input);
+  }
+}
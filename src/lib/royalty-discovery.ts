@@ -1,4 +1,4 @@
-import { suiClient } from './simple-sui-client';
+import { type DiscoveryOptions } from './kiosk-discovery';
 
 const TRANSFER_POLICY_CAP_TYPE = '0x2::transfer_policy::TransferPolicyCap';
 
@@ -9,8 +9,8 @@ export interface TransferPolicyInfo {
   type: string;
 }
 
-export async function getUserTransferPolicies(walletAddress: string): Promise<TransferPolicyInfo[]> {
-  const objects = await suiClient.getOwnedObjects({
+export async function getUserTransferPolicies(walletAddress: string, { client }: DiscoveryOptions): Promise<TransferPolicyInfo[]> {
+  const objects = await client.getOwnedObjects({
     owner: walletAddress,
     filter: {
       StructType: TRANSFER_POLICY_CAP_TYPE,
@@ -30,7 +30,7 @@ export async function getUserTransferPolicies(walletAddress: string): Promise<Tr
 
       if (policyId) {
         try {
-          const policyObject = await suiClient.getObject({
+          const policyObject = await client.getObject({
             id: policyId,
             options: {
               showContent: true,
@@ -1,39 +1,7 @@
 // Smart Kiosk Management - Handle recipient wallet addresses with automatic kiosk discovery/creation
 
-import { suiClient } from './simple-sui-client';
-import { getUserKiosks, KioskInfo } from './kiosk-discovery';
-// Use a workaround for the package exports issue
-let Transaction: any;
-
-// Try to load the Transaction class with error handling
-if (typeof window !== 'undefined') {
-  // Browser environment - use dynamic import
-  (async () => {
-    try {
-      const txModule = await import('@mysten/sui/transactions');
-      Transaction = txModule.Transaction;
-    } catch (error) {
-      console.warn('Failed to load @mysten/sui/transactions:', error);
-    }
-  })();
-} else {
-  // Node.js environment - use require
-  try {
-    const txModule = require('@mysten/sui/transactions');
-    Transaction = txModule.Transaction;
-  } catch (error) {
-    console.warn('Failed to load @mysten/sui/transactions:', error);
-  }
-}
-
-// Fallback implementation
-if (!Transaction) {
-  Transaction = class {
-    constructor() {
-      throw new Error('Transaction class not properly loaded - please refresh the page');
-    }
-  };
-}
+import { Transaction } from '@mysten/sui/transactions';
+import { getUserKiosks, KioskInfo, type DiscoveryOptions } from './kiosk-discovery';
 
 export interface RecipientInfo {
   walletAddress: string;
@@ -44,9 +12,9 @@ export interface RecipientInfo {
 /**
  * Discover recipient information by wallet address
  */
-export async function discoverRecipient(walletAddress: string): Promise<RecipientInfo> {
+export async function discoverRecipient(walletAddress: string, options: DiscoveryOptions): Promise<RecipientInfo> {
   try {
-    const kiosks = await getUserKiosks(walletAddress);
+    const kiosks = await getUserKiosks(walletAddress, options);
     return {
       walletAddress,
       kiosks,
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from "vitest";
+import { Transaction } from "@mysten/sui/transactions";
+import type { SuiClient } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+import {
+  createHttpSponsor,
+  createStandInSponsor,
+  executeSponsoredTransaction,
+  sponsorTransaction,
+  SponsorError,
+  type SignTransaction,
+} from "./sponsored-transaction";
+
+const OBJECT_ID = "0x" + "c".repeat(64);
+const RECIPIENT = "0x" + "b".repeat(64);
+const PACKAGE = "0x" + "e".repeat(64);
+const ZERO_DIGEST = "11111111111111111111111111111111";
+
+const user = new Ed25519Keypair();
+const SENDER = user.toSuiAddress();
+
+function transferTransaction(): Transaction {
+  const txb = new Transaction();
+  txb.transferObjects([txb.objectRef({ objectId: OBJECT_ID, version: "1", digest: ZERO_DIGEST })], txb.pure.address(RECIPIENT));
+  return txb;
+}
+
+function walletSigner(keypair: Ed25519Keypair): SignTransaction {
+  return async ({ transaction }) => {
+    const bytes = await transaction.build();
+    return keypair.signTransaction(bytes);
+  };
+}
+
+describe("sponsorTransaction", () => {
+  it("attaches the sponsor's gas while keeping the user as sender", async () => {
+    const sponsor = createStandInSponsor();
+    const sponsored = await sponsorTransaction(transferTransaction(), { sender: SENDER, sponsor });
+
+    const data = Transaction.from(fromBase64(sponsored.bytes)).getData();
+    expect(sponsored.sponsor).toBe(sponsor.keypair.toSuiAddress());
+    expect(data.sender).toBe(SENDER);
+    expect(data.gasData.owner).toBe(sponsor.keypair.toSuiAddress());
+    expect(data.gasData.payment).toHaveLength(1);
+
+    const signer = await verifyTransactionSignature(fromBase64(sponsored.bytes), sponsored.sponsorSignature);
+    expect(signer.toSuiAddress()).toBe(sponsor.keypair.toSuiAddress());
+  });
+
+  it("refuses transactions that spend the gas coin", async () => {
+    const txb = new Transaction();
+    const [coin] = txb.splitCoins(txb.gas, [txb.pure.u64(1000)]);
+    txb.transferObjects([coin], txb.pure.address(RECIPIENT));
+
+    await expect(sponsorTransaction(txb, { sender: SENDER, sponsor: createStandInSponsor() }))
+      .rejects.toThrow("Command 1 uses the gas coin");
+  });
+
+  it("refuses move calls outside the allowed targets", async () => {
+    const txb = new Transaction();
+    txb.moveCall({ target: `${PACKAGE}::kiosk::list`, arguments: [txb.pure.u64(1)] });
+    const sponsor = createStandInSponsor({ allowedTargets: ["0x2::transfer_policy::confirm_request"] });
+
+    await expect(sponsorTransaction(txb, { sender: SENDER, sponsor }))
+      .rejects.toThrow(`calls ${PACKAGE}::kiosk::list, which the sponsor does not pay for`);
+  });
+
+  it("rejects a sponsor that changes the sender", async () => {
+    const other = createStandInSponsor();
+    const tampering = {
+      label: "tampering",
+      sponsor: ({ transactionKindBytes }: { transactionKindBytes: string }) =>
+        other.sponsor({ sender: other.keypair.toSuiAddress(), transactionKindBytes }),
+    };
+
+    await expect(sponsorTransaction(transferTransaction(), { sender: SENDER, sponsor: tampering }))
+      .rejects.toBeInstanceOf(SponsorError);
+  });
+
+  it("rejects a sponsor that returns a different transaction kind", async () => {
+    const sponsor = createStandInSponsor();
+    const swapped = new Transaction();
+    swapped.transferObjects([swapped.objectRef({ objectId: OBJECT_ID, version: "1", digest: ZERO_DIGEST })], swapped.pure.address(PACKAGE));
+    const swappedKind = await swapped.build({ onlyTransactionKind: true });
+    const tampering = {
+      label: "tampering",
+      sponsor: ({ sender }: { sender: string }) => sponsor.sponsor({ sender, transactionKindBytes: toBase64(swappedKind) }),
+    };
+
+    await expect(sponsorTransaction(transferTransaction(), { sender: SENDER, sponsor: tampering }))
+      .rejects.toThrow("different commands or inputs");
+  });
+});
+
+describe("executeSponsoredTransaction", () => {
+  it("executes with the user's signature followed by the sponsor's", async () => {
+    const sponsored = await sponsorTransaction(transferTransaction(), { sender: SENDER, sponsor: createStandInSponsor() });
+    const executeTransactionBlock = vi.fn().mockResolvedValue({ digest: "abc" });
+    const client = { executeTransactionBlock } as unknown as SuiClient;
+
+    const result = await executeSponsoredTransaction(sponsored, { signTransaction: walletSigner(user), client });
+
+    expect(result).toEqual({ digest: "abc" });
+    const [{ transactionBlock, signature }] = executeTransactionBlock.mock.calls[0];
+    expect(transactionBlock).toBe(sponsored.bytes);
+    expect(signature).toHaveLength(2);
+    expect(signature[1]).toBe(sponsored.sponsorSignature);
+    const userSigner = await verifyTransactionSignature(fromBase64(sponsored.bytes), signature[0]);
+    expect(userSigner.toSuiAddress()).toBe(SENDER);
+  });
+
+  it("does not execute when the wallet signs different bytes", async () => {
+    const sponsored = await sponsorTransaction(transferTransaction(), { sender: SENDER, sponsor: createStandInSponsor() });
+    const executeTransactionBlock = vi.fn();
+    const client = { executeTransactionBlock } as unknown as SuiClient;
+    const signTransaction: SignTransaction = async ({ transaction }) => {
+      transaction.setGasBudget(1);
+      return walletSigner(user)({ transaction });
+    };
+
+    await expect(executeSponsoredTransaction(sponsored, { signTransaction, client }))
+      .rejects.toThrow("The wallet changed the sponsored transaction");
+    expect(executeTransactionBlock).not.toHaveBeenCalled();
+  });
+});
+
+describe("createHttpSponsor", () => {
+  it("posts the transaction kind and returns the sponsor's answer", async () => {
+    const fetch = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ bytes: "AAA=", signature: "sig", sponsor: RECIPIENT }), { status: 200 })
+    );
+    const sponsor = createHttpSponsor("https://sponsor.example/sponsor", { fetch, headers: { Authorization: "Bearer t" } });
+
+    const result = await sponsor.sponsor({ sender: SENDER, transactionKindBytes: "AQI=" });
+
+    expect(sponsor.label).toBe("sponsor.example");
+    expect(result).toEqual({ bytes: "AAA=", sponsorSignature: "sig", sponsor: RECIPIENT });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe("https://sponsor.example/sponsor");
+    expect(init.headers).toMatchObject({ Authorization: "Bearer t" });
+    expect(JSON.parse(init.body)).toEqual({ sender: SENDER, transactionKindBytes: "AQI=" });
+  });
+
+  it("reports refusals and malformed answers", async () => {
+    const refusing = createHttpSponsor("https://sponsor.example", {
+      fetch: vi.fn().mockResolvedValue(new Response("budget exhausted", { status: 429 })),
+    });
+    await expect(refusing.sponsor({ sender: SENDER, transactionKindBytes: "AQI=" }))
+      .rejects.toThrow("refused the transaction (429): budget exhausted");
+
+    const malformed = createHttpSponsor("https://sponsor.example", {
+      fetch: vi.fn().mockResolvedValue(new Response(JSON.stringify({ bytes: "AAA=" }), { status: 200 })),
+    });
+    await expect(malformed.sponsor({ sender: SENDER, transactionKindBytes: "AQI=" }))
+      .rejects.toThrow("answered without bytes, signature and sponsor");
+  });
+});
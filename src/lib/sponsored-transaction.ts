@@ -0,0 +1,229 @@
+// Sponsored Transactions - A sponsor pays gas for a transaction kind the user builds, then both sign
+import { Transaction } from "@mysten/sui/transactions";
+import type { SuiClient, SuiObjectRef, SuiTransactionBlockResponse } from "@mysten/sui/client";
+import type { Signer } from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { fromBase64, normalizeSuiAddress, toBase64 } from "@mysten/sui/utils";
+
+export interface SponsorRequest {
+  sender: string;
+  transactionKindBytes: string; // base64 TransactionKind, without gas data
+}
+
+export interface SponsoredTransaction {
+  bytes: string; // base64 TransactionData with the sponsor's gas attached
+  sponsorSignature: string;
+  sponsor: string; // Address that owns the gas coins
+}
+
+/**
+ * Attaches gas to a transaction kind and signs the result as the gas owner.
+ */
+export interface TransactionSponsor {
+  readonly label: string; // Shown to the user as who pays for gas
+  sponsor(request: SponsorRequest): Promise<SponsoredTransaction>;
+}
+
+export class SponsorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SponsorError";
+  }
+}
+
+export interface KeypairSponsorOptions {
+  // Resolves objects and picks gas coins; optional when every input and all gas data are given
+  client?: SuiClient;
+  gasPayment?: SuiObjectRef[];
+  gasBudget?: number | bigint;
+  gasPrice?: number | bigint;
+  // Move functions (package::module::function) the sponsor pays for; any when omitted
+  allowedTargets?: string[];
+  label?: string;
+}
+
+function normalizeTarget(target: string): string {
+  const [address, module, name] = target.split("::");
+  return `${normalizeSuiAddress(address)}::${module}::${name}`;
+}
+
+type KindCommand = ReturnType<Transaction["getData"]>["commands"][number];
+type KindArgument = NonNullable<KindCommand["MoveCall"]>["arguments"][number];
+
+function argumentsOf(command: KindCommand): KindArgument[] {
+  switch (command.$kind) {
+    case "MoveCall":
+      return command.MoveCall.arguments;
+    case "TransferObjects":
+      return [...command.TransferObjects.objects, command.TransferObjects.address];
+    case "SplitCoins":
+      return [command.SplitCoins.coin, ...command.SplitCoins.amounts];
+    case "MergeCoins":
+      return [command.MergeCoins.destination, ...command.MergeCoins.sources];
+    case "MakeMoveVec":
+      return command.MakeMoveVec.elements;
+    case "Upgrade":
+      return [command.Upgrade.ticket];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Rejects transaction kinds a sponsor must not pay for: any use of the gas coin, which would spend the
+ * sponsor's SUI, and, when targets are restricted, move calls outside them and code deployment.
+ */
+export function assertSponsorable(kind: Transaction, allowedTargets?: string[]): void {
+  const allowed = allowedTargets && new Set(allowedTargets.map(normalizeTarget));
+
+  kind.getData().commands.forEach((command, index) => {
+    if (argumentsOf(command).some(arg => arg.$kind === "GasCoin")) {
+      throw new SponsorError(`Command ${index + 1} uses the gas coin, which belongs to the sponsor`);
+    }
+    if (!allowed) {
+      return;
+    }
+    if (command.$kind === "MoveCall") {
+      const { package: pkg, module, function: fn } = command.MoveCall;
+      const target = normalizeTarget(`${pkg}::${module}::${fn}`);
+      if (!allowed.has(target)) {
+        throw new SponsorError(`Command ${index + 1} calls ${target}, which the sponsor does not pay for`);
+      }
+    } else if (command.$kind === "Publish" || command.$kind === "Upgrade") {
+      throw new SponsorError(`Command ${index + 1} deploys code, which the sponsor does not pay for`);
+    }
+  });
+}
+
+/**
+ * A sponsor backed by a keypair held in this process, such as a test account or a backend service.
+ */
+export function createKeypairSponsor(signer: Signer, options: KeypairSponsorOptions = {}): TransactionSponsor {
+  const address = signer.toSuiAddress();
+
+  return {
+    label: options.label ?? address,
+    async sponsor({ sender, transactionKindBytes }) {
+      const txb = Transaction.fromKind(transactionKindBytes);
+      assertSponsorable(txb, options.allowedTargets);
+
+      txb.setSender(sender);
+      txb.setGasOwner(address);
+      if (options.gasPayment) {
+        txb.setGasPayment(options.gasPayment);
+      }
+      if (options.gasBudget !== undefined) {
+        txb.setGasBudget(options.gasBudget);
+      }
+      if (options.gasPrice !== undefined) {
+        txb.setGasPrice(options.gasPrice);
+      }
+
+      const bytes = await txb.build({ client: options.client });
+      const { signature } = await signer.signTransaction(bytes);
+      return { bytes: toBase64(bytes), sponsorSignature: signature, sponsor: address };
+    },
+  };
+}
+
+export interface HttpSponsorOptions {
+  fetch?: typeof fetch;
+  headers?: Record<string, string>;
+  label?: string;
+}
+
+/**
+ * A sponsor reached over HTTP. The endpoint receives `{ sender, transactionKindBytes }` as JSON and answers
+ * with `{ bytes, signature, sponsor }`.
+ */
+export function createHttpSponsor(url: string, options: HttpSponsorOptions = {}): TransactionSponsor {
+  const request = options.fetch ?? ((input, init) => fetch(input, init));
+
+  return {
+    label: options.label ?? new URL(url).host,
+    async sponsor(body) {
+      const response = await request(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...options.headers },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new SponsorError(`Sponsor at ${url} refused the transaction (${response.status})${detail ? `: ${detail}` : ""}`);
+      }
+
+      const result = await response.json();
+      if (typeof result?.bytes !== "string" || typeof result?.signature !== "string" || typeof result?.sponsor !== "string") {
+        throw new SponsorError(`Sponsor at ${url} answered without bytes, signature and sponsor`);
+      }
+      return { bytes: result.bytes, sponsorSignature: result.signature, sponsor: result.sponsor };
+    },
+  };
+}
+
+const STAND_IN_GAS_DIGEST = "11111111111111111111111111111111";
+
+/**
+ * A sponsor that works without a network: a fresh keypair paying with a made-up gas coin.
+ * Its transactions can be signed and inspected but never executed; meant for tests and demos.
+ */
+export function createStandInSponsor(options: Pick<KeypairSponsorOptions, "allowedTargets"> = {}): TransactionSponsor & {
+  keypair: Ed25519Keypair;
+} {
+  const keypair = new Ed25519Keypair();
+  const sponsor = createKeypairSponsor(keypair, {
+    ...options,
+    label: "Stand-in sponsor",
+    gasPayment: [{ objectId: normalizeSuiAddress("0x5a5a"), version: "1", digest: STAND_IN_GAS_DIGEST }],
+    gasBudget: 10_000_000,
+    gasPrice: 1000,
+  });
+  return { ...sponsor, keypair };
+}
+
+/**
+ * Builds the transaction kind and has the sponsor attach gas for the given sender.
+ */
+export async function sponsorTransaction(
+  txb: Transaction,
+  { sender, sponsor, client }: { sender: string; sponsor: TransactionSponsor; client?: SuiClient }
+): Promise<SponsoredTransaction> {
+  const kind = await txb.build({ client, onlyTransactionKind: true });
+  const sponsored = await sponsor.sponsor({ sender, transactionKindBytes: toBase64(kind) });
+
+  // The sponsor must not have changed who sends the transaction, or what it does
+  const returned = Transaction.from(fromBase64(sponsored.bytes));
+  const data = returned.getData();
+  const returnedKind = await returned.build({ onlyTransactionKind: true });
+  if (toBase64(returnedKind) !== toBase64(kind)) {
+    throw new SponsorError("Sponsor returned a transaction with different commands or inputs than the ones it was sent");
+  }
+  if (!data.sender || normalizeSuiAddress(data.sender) !== normalizeSuiAddress(sender)) {
+    throw new SponsorError(`Sponsor returned a transaction sent by ${data.sender ?? "nobody"} instead of ${sender}`);
+  }
+  if (!data.gasData.owner || normalizeSuiAddress(data.gasData.owner) !== normalizeSuiAddress(sponsored.sponsor)) {
+    throw new SponsorError(`Sponsor returned a transaction whose gas is not owned by ${sponsored.sponsor}`);
+  }
+  return sponsored;
+}
+
+export type SignTransaction = (input: { transaction: Transaction }) => Promise<{ bytes: string; signature: string }>;
+
+/**
+ * Has the user co-sign the sponsored bytes and executes the transaction with both signatures.
+ */
+export async function executeSponsoredTransaction(
+  sponsored: SponsoredTransaction,
+  { signTransaction, client }: { signTransaction: SignTransaction; client: SuiClient }
+): Promise<SuiTransactionBlockResponse> {
+  const signed = await signTransaction({ transaction: Transaction.from(fromBase64(sponsored.bytes)) });
+  if (signed.bytes !== sponsored.bytes) {
+    throw new SponsorError("The wallet changed the sponsored transaction, so the sponsor's signature no longer applies");
+  }
+
+  return client.executeTransactionBlock({
+    transactionBlock: sponsored.bytes,
+    signature: [signed.signature, sponsored.sponsorSignature],
+    options: { showEffects: true },
+  });
+}
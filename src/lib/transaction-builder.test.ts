@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { bcs } from "@mysten/sui/bcs";
+import { fromBase64 } from "@mysten/sui/utils";
+import { parsePtbDocument } from "./ptb-parser";
+import { constructTransactionBlock } from "./transaction-builder";
+import { type MoveCallSignatures } from "./move-abi";
+
+const PACKAGE = "0x" + "e".repeat(64);
+
+// Builds a single move call taking the given arguments and returns its pure inputs' bytes
+function pureInputs(args: unknown[]): Uint8Array[] {
+  const document = parsePtbDocument(JSON.stringify({
+    commands: [{ type: "moveCall", target: `${PACKAGE}::collection::mint`, arguments: args }],
+  }));
+  const { inputs } = constructTransactionBlock(document.commands).getData();
+  return inputs.map(input => fromBase64(input.Pure!.bytes));
+}
+
+describe("pure arguments", () => {
+  it("encodes untyped integers as u64, whatever their size", () => {
+    expect(pureInputs([{ type: "pure", value: 7 }, { type: "pure", value: 70000 }])).toEqual([
+      bcs.u64().serialize(7).toBytes(),
+      bcs.u64().serialize(70000).toBytes(),
+    ]);
+  });
+
+  it("rejects untyped numbers with a fractional part", () => {
+    expect(() => pureInputs([{ type: "pure", value: 1.5 }])).toThrow("1.5 is not an integer");
+  });
+
+  it("rejects untyped integers outside u64", () => {
+    expect(() => pureInputs([{ type: "pure", value: -1 }])).toThrow("untyped, so u64");
+  });
+
+  it("encodes exactly the declared moveType", () => {
+    expect(pureInputs([
+      { type: "pure", value: 7, moveType: "u8" },
+      { type: "pure", value: "340282366920938463463374607431768211455", moveType: "u128" },
+    ])).toEqual([bcs.u8().serialize(7).toBytes(), bcs.u128().serialize((1n << 128n) - 1n).toBytes()]);
+    expect(() => pureInputs([{ type: "pure", value: 256, moveType: "u8" }])).toThrow("does not fit in u8");
+  });
+
+  it("serializes pure vectors and options as one input", () => {
+    expect(pureInputs([
+      { type: "vector", elementType: "u32", elements: [{ type: "pure", value: 1 }, { type: "pure", value: 2 }] },
+      { type: "option", elementType: "bool", some: { type: "pure", value: true } },
+    ])).toEqual([
+      bcs.vector(bcs.u32()).serialize([1, 2]).toBytes(),
+      bcs.option(bcs.bool()).serialize(true).toBytes(),
+    ]);
+  });
+});
+
+describe("shareObject", () => {
+  const share = (command: Record<string, unknown>) => parsePtbDocument(JSON.stringify({ commands: [{ type: "shareObject", ...command }] }));
+  const OBJECT = "0x" + "c".repeat(64);
+
+  it("shares through public_share_object with the object's type", () => {
+    const { commands } = constructTransactionBlock(
+      share({ object: { type: "object", value: OBJECT }, objectType: `${PACKAGE}::collection::Nft` }).commands
+    ).getData();
+    expect(commands[0].MoveCall).toMatchObject({
+      package: "0x" + "0".repeat(63) + "2",
+      module: "transfer",
+      function: "public_share_object",
+      typeArguments: [`${PACKAGE}::collection::Nft`],
+    });
+  });
+
+  it("requires the object's type", () => {
+    expect(() => share({ object: { type: "object", value: OBJECT } })).toThrow("shareObject requires an 'objectType'");
+  });
+});
+
+describe("moveCall results", () => {
+  const COIN = { Struct: { address: "0x2", module: "coin", name: "Coin", typeArguments: [] } };
+  const SIGNATURES: MoveCallSignatures = new Map([
+    [`${PACKAGE}::collection::mint_pair`, { target: `${PACKAGE}::collection::mint_pair`, typeParameterCount: 0, parameters: [], returnCount: 2 }],
+    [`${PACKAGE}::collection::burn`, { target: `${PACKAGE}::collection::burn`, typeParameterCount: 0, parameters: [COIN], returnCount: 0 }],
+  ]);
+  const build = (index: number) => constructTransactionBlock(parsePtbDocument(JSON.stringify({
+    commands: [
+      { type: "moveCall", target: `${PACKAGE}::collection::mint_pair`, assign: "pair" },
+      { type: "moveCall", target: `${PACKAGE}::collection::burn`, arguments: [{ type: "result", ref: "pair", index }] },
+    ],
+  })).commands, { signatures: SIGNATURES });
+
+  it("takes indexes within the function's return count", () => {
+    expect(build(1).getData().commands[1].MoveCall!.arguments).toEqual([{ $kind: "NestedResult", NestedResult: [0, 1] }]);
+  });
+
+  it("rejects an index past the function's return count", () => {
+    expect(() => build(2)).toThrow("Command 2, argument 1: index 2 is out of range for 'pair', which has 2 value(s)");
+  });
+});
+
+describe("vectors and options of objects", () => {
+  const NFT = `${PACKAGE}::collection::Nft`;
+  const build = (args: unknown[]) => constructTransactionBlock(parsePtbDocument(JSON.stringify({
+    commands: [
+      { type: "splitCoins", coin: { type: "gas" }, amounts: [1, 2], assign: "coins" },
+      { type: "moveCall", target: `${PACKAGE}::collection::mint`, arguments: args },
+    ],
+  })).commands).getData().commands;
+
+  it("collects results with MakeMoveVec of the element type, even when empty", () => {
+    const vector = (elements: unknown[]) => ({ type: "vector", elementType: NFT, elements });
+    const [, , mint] = build([vector([{ type: "result", ref: "coins", index: 0 }, { type: "result", ref: "coins", index: 1 }])]);
+    expect(build([vector([])])[1].MakeMoveVec).toEqual({ type: NFT, elements: [] });
+    expect(mint.MoveCall!.arguments).toEqual([{ $kind: "Result", Result: 1 }]);
+  });
+
+  it("wraps an object in 0x1::option::some", () => {
+    const [, some] = build([{ type: "option", elementType: NFT, some: { type: "result", ref: "coins", index: 0 } }]);
+    expect(some.MoveCall).toMatchObject({ function: "some", typeArguments: [NFT], arguments: [{ $kind: "NestedResult", NestedResult: [0, 0] }] });
+  });
+
+  it("rejects a result moved into two calls once the signature says it is taken by value", () => {
+    const burn = `${PACKAGE}::collection::burn`;
+    const signatures: MoveCallSignatures = new Map([[burn, {
+      target: burn,
+      typeParameterCount: 0,
+      parameters: [{ Struct: { address: PACKAGE, module: "collection", name: "Nft", typeArguments: [] } }],
+      returnCount: 0,
+    }]]);
+    const { commands } = parsePtbDocument(JSON.stringify({
+      commands: [
+        { type: "splitCoins", coin: { type: "gas" }, amounts: [1], assign: "coins" },
+        { type: "moveCall", target: burn, arguments: [{ type: "result", ref: "coins", index: 0 }] },
+        { type: "moveCall", target: burn, arguments: [{ type: "result", ref: "coins", index: 0 }] },
+      ],
+    }));
+    expect(() => constructTransactionBlock(commands, { signatures })).toThrow("'coins[0]' was already moved by value at Command 2, argument 1");
+  });
+});
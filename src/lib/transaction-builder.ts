@@ -1,41 +1,127 @@
 // Transaction Block Builder - Converts parsed commands to Sui TransactionBlock
-import { Transaction } from "@mysten/sui/transactions";
-import { type PtbCommand, type PtbArgument } from "./ptb-parser";
+import { Transaction, type TransactionArgument, type TransactionResult } from "@mysten/sui/transactions";
+import { type PtbCommand, type PtbArgument, type PtbGasSettings, type SystemObjectName, PtbParseError, validateResultReferences } from "./ptb-parser";
+import type { SuiClient, SuiObjectRef } from "@mysten/sui/client";
+import { fromHex, toHex, normalizeSuiAddress } from "@mysten/sui/utils";
+import { type PureMoveType, encodePureValue, parseMoveType, formatMoveType, innerTypeOf, isPureMoveType } from "./move-types";
+import { type MoveCallSignatures, checkMoveCallSignature, normalizeMoveTarget } from "./move-abi";
+import { computePackageDigest, decodeModules, parsePackageDigest } from "./move-package";
 
-export function constructTransactionBlock(commands: PtbCommand[]): Transaction {
+export interface BuildOptions {
+  // On-chain signatures from resolveMoveCallSignatures; when present, they decide pure encodings
+  signatures?: MoveCallSignatures;
+  // Address 'sender' arguments resolve to; normally the connected wallet
+  sender?: string;
+  // The document's gas section; payment coins must be resolved with resolveGasPayment first
+  gas?: PtbGasSettings;
+  gasPayment?: SuiObjectRef[];
+}
+
+const SUI_COIN_TYPE = "0x2::coin::Coin<0x2::sui::SUI>";
+// Pure numbers without a moveType or a signature to type them
+const DEFAULT_INTEGER_TYPE = "u64";
+
+/**
+ * Fetches the current object refs of the gas section's payment coins, checking each is a SUI coin.
+ */
+export async function resolveGasPayment(
+  coinIds: string[],
+  { client }: { client: SuiClient }
+): Promise<SuiObjectRef[]> {
+  const responses = await client.multiGetObjects({ ids: coinIds, options: { showType: true } });
+  return responses.map((response, index) => {
+    if (!response.data) {
+      throw new Error(`Gas payment coin ${coinIds[index]} not found`);
+    }
+    if (response.data.type !== SUI_COIN_TYPE) {
+      throw new Error(`Gas payment coin ${coinIds[index]} is a ${response.data.type}, not a SUI coin`);
+    }
+    const { objectId, version, digest } = response.data;
+    return { objectId, version, digest };
+  });
+}
+
+export function constructTransactionBlock(commands: PtbCommand[], options: BuildOptions = {}): Transaction {
   const txb = new Transaction();
   const resultMap = new Map<string, any>();
+  if (options.sender) {
+    txb.setSender(options.sender);
+  }
+  if (options.gas) {
+    applyGasSettings(txb, options.gas, options.gasPayment);
+  }
+
+  // Parsing could not know how many values a moveCall returns; recheck indexes against the signatures
+  if (options.signatures) {
+    const referenceError = validateResultReferences(commands, options.signatures).find(issue => issue.severity === 'error');
+    if (referenceError) {
+      throw new PtbParseError(referenceError.path, referenceError.pointer, referenceError.message);
+    }
+  }
   
-  for (const command of commands) {
-    const result = executeCommand(txb, command, resultMap);
+  for (const [index, command] of commands.entries()) {
+    const result = executeCommand(txb, command, resultMap, `Command ${index + 1}`, options);
     
-    // Store result if command has an assign name
+    // Store result if command has an assign name; an array of names destructures a multi-value result
     if (command.assign && result !== undefined) {
-      resultMap.set(command.assign, result);
+      if (Array.isArray(command.assign)) {
+        command.assign.forEach((name, valueIndex) => resultMap.set(name, result[valueIndex]));
+      } else {
+        resultMap.set(command.assign, result);
+      }
     }
   }
   
   return txb;
 }
 
+function applyGasSettings(txb: Transaction, gas: PtbGasSettings, payment?: SuiObjectRef[]): void {
+  if (gas.budget !== undefined) {
+    txb.setGasBudget(BigInt(gas.budget));
+  }
+  if (gas.price !== undefined) {
+    txb.setGasPrice(BigInt(gas.price));
+  }
+  if (gas.sponsor) {
+    txb.setGasOwner(gas.sponsor);
+  }
+  if (gas.expiration !== undefined) {
+    txb.setExpiration({ Epoch: gas.expiration });
+  }
+  if (gas.payment) {
+    const resolved = new Set(payment?.map(ref => normalizeSuiAddress(ref.objectId)));
+    const missing = gas.payment.find(coin => !resolved.has(normalizeSuiAddress(coin)));
+    if (missing) {
+      throw new Error(`Gas payment coin ${missing} has not been resolved; call resolveGasPayment first`);
+    }
+    txb.setGasPayment(payment!);
+  }
+}
+
 function executeCommand(
   txb: Transaction,
   command: PtbCommand,
-  resultMap: Map<string, any>
+  resultMap: Map<string, any>,
+  commandIndex: string,
+  options: BuildOptions
 ): any {
   switch (command.type) {
     case 'moveCall':
-      return executeMoveCall(txb, command, resultMap);
+      return executeMoveCall(txb, command, resultMap, commandIndex, options);
     case 'transferObjects':
-      return executeTransferObjects(txb, command, resultMap);
+      return executeTransferObjects(txb, command, resultMap, commandIndex);
     case 'splitCoins':
-      return executeSplitCoins(txb, command, resultMap);
+      return executeSplitCoins(txb, command, resultMap, commandIndex);
     case 'mergeCoins':
-      return executeMergeCoins(txb, command, resultMap);
+      return executeMergeCoins(txb, command, resultMap, commandIndex);
     case 'shareObject':
-      return executeShareObject(txb, command, resultMap);
+      return executeShareObject(txb, command, resultMap, commandIndex);
     case 'splitObjects':
-      return executeSplitObjects(txb, command, resultMap);
+      return executeSplitObjects(txb, command, resultMap, commandIndex);
+    case 'publish':
+      return executePublish(txb, command);
+    case 'upgrade':
+      return executeUpgrade(txb, command, resultMap, commandIndex);
     default:
       throw new Error(`Unsupported command type: ${(command as any).type}`);
   }
@@ -44,13 +130,20 @@ function executeCommand(
 function executeMoveCall(
   txb: Transaction, 
   command: PtbCommand, 
-  resultMap: Map<string, any>
+  resultMap: Map<string, any>,
+  commandIndex: string,
+  options: BuildOptions
 ): any {
   if (!command.target) {
     throw new Error("moveCall command missing target");
   }
+
+  const signature = options.signatures?.get(normalizeMoveTarget(command.target));
+  const parameterTypes = signature ? checkMoveCallSignature(signature, command, commandIndex) : [];
   
-  const args = command.arguments?.map(arg => resolveArgument(txb, arg, resultMap)) || [];
+  const args = command.arguments?.map((arg, argIndex) =>
+    resolveArgument(txb, arg, resultMap, `${commandIndex}, argument ${argIndex + 1}`, parameterTypes[argIndex] ?? undefined)
+  ) || [];
   const typeArgs = command.typeArguments || [];
   
   return txb.moveCall({
@@ -63,13 +156,16 @@ function executeMoveCall(
 function executeTransferObjects(
   txb: Transaction, 
   command: PtbCommand, 
-  resultMap: Map<string, any>
+  resultMap: Map<string, any>,
+  commandIndex: string
 ): void {
   if (!command.objects || !command.recipient) {
     throw new Error("transferObjects command missing objects or recipient");
   }
   
-  const objects = command.objects.map(obj => resolveArgument(txb, obj, resultMap));
+  const objects = command.objects.map((obj, objIndex) =>
+    resolveArgument(txb, obj, resultMap, `${commandIndex}, object ${objIndex + 1}`)
+  );
   const recipientArg = txb.pure.address(command.recipient);
   
   txb.transferObjects(objects, recipientArg);
@@ -78,13 +174,14 @@ function executeTransferObjects(
 function executeSplitCoins(
   txb: Transaction, 
   command: PtbCommand, 
-  resultMap: Map<string, any>
+  resultMap: Map<string, any>,
+  commandIndex: string
 ): any {
   if (!command.coin || !command.amounts) {
     throw new Error("splitCoins command missing coin or amounts");
   }
   
-  const coin = resolveArgument(txb, command.coin, resultMap);
+  const coin = resolveArgument(txb, command.coin, resultMap, `${commandIndex}, coin`);
   const amounts = command.amounts.map(amount => txb.pure.u64(amount));
   
   return txb.splitCoins(coin, amounts);
@@ -93,14 +190,17 @@ function executeSplitCoins(
 function executeMergeCoins(
   txb: Transaction,
   command: PtbCommand,
-  resultMap: Map<string, any>
+  resultMap: Map<string, any>,
+  commandIndex: string
 ): void {
   if (!command.destination || !command.sources) {
     throw new Error("mergeCoins command missing destination or sources");
   }
 
-  const destination = resolveArgument(txb, command.destination, resultMap);
-  const sources = command.sources.map(src => resolveArgument(txb, src, resultMap));
+  const destination = resolveArgument(txb, command.destination, resultMap, `${commandIndex}, destination`);
+  const sources = command.sources.map((src, srcIndex) =>
+    resolveArgument(txb, src, resultMap, `${commandIndex}, source ${srcIndex + 1}`)
+  );
 
   txb.mergeCoins(destination, sources);
 }
@@ -108,20 +208,27 @@ function executeMergeCoins(
 function executeShareObject(
   txb: Transaction,
   command: PtbCommand,
-  resultMap: Map<string, any>
+  resultMap: Map<string, any>,
+  commandIndex: string
 ): any {
-  if (!command.object) {
-    throw new Error("shareObject command missing object");
+  if (!command.object || !command.objectType) {
+    throw new Error("shareObject command missing object or objectType");
   }
 
-  const object = resolveArgument(txb, command.object, resultMap);
-  return txb.shareObject(object);
+  // Transactions can only share through the public function, so the type must have `store`
+  const object = resolveArgument(txb, command.object, resultMap, `${commandIndex}, object`);
+  return txb.moveCall({
+    target: '0x2::transfer::public_share_object',
+    typeArguments: [command.objectType],
+    arguments: [object],
+  });
 }
 
 function executeSplitObjects(
   txb: Transaction,
   command: PtbCommand,
-  resultMap: Map<string, any>
+  resultMap: Map<string, any>,
+  commandIndex: string
 ): any {
   if (!command.objects || command.objects.length !== 1) {
     throw new Error("splitObjects command must have exactly one object");
@@ -131,39 +238,80 @@ function executeSplitObjects(
     throw new Error("splitObjects command missing assign array");
   }
 
-  const multiObjectResult = resolveArgument(txb, command.objects[0], resultMap);
+  // The assign names are bound to NestedResults of this result by constructTransactionBlock
+  const multiObjectResult = resolveArgument(txb, command.objects[0], resultMap, `${commandIndex}, objects[0]`);
+  if (multiObjectResult?.$kind !== 'Result') {
+    throw new Error(`${commandIndex}: splitObjects expects a reference to a whole command result`);
+  }
+
+  return multiObjectResult;
+}
 
-  // In Sui, multi-object returns are typically arrays or tuples
-  // For splitObjects, we assume the result contains multiple objects that need to be split
-  if (!Array.isArray(multiObjectResult)) {
-    throw new Error("splitObjects expects the referenced result to be an array of objects");
+function executePublish(txb: Transaction, command: PtbCommand): TransactionResult {
+  if (!command.modules || !command.dependencies) {
+    throw new Error("publish command missing modules or dependencies");
   }
 
-  if (multiObjectResult.length !== command.assign.length) {
-    throw new Error(`splitObjects: expected ${command.assign.length} objects but got ${multiObjectResult.length}`);
+  // Returns the UpgradeCap of the new package
+  return txb.publish({
+    modules: command.modules,
+    dependencies: command.dependencies,
+  });
+}
+
+function executeUpgrade(
+  txb: Transaction,
+  command: PtbCommand,
+  resultMap: Map<string, TransactionArgument>,
+  commandIndex: string
+): TransactionResult {
+  if (!command.modules || !command.dependencies || !command.package || !command.ticket) {
+    throw new Error("upgrade command missing modules, dependencies, package or ticket");
   }
 
-  // Split the multi-object result into individual objects and assign them to variables
-  const splitObjects: any[] = [];
-  for (let i = 0; i < multiObjectResult.length; i++) {
-    const objectName = command.assign[i];
-    if (objectName) {
-      resultMap.set(objectName, multiObjectResult[i]);
-      splitObjects.push(multiObjectResult[i]);
+  // The ticket was authorized for a specific digest; catch a mismatch before the transaction aborts on chain
+  if (command.digest !== undefined) {
+    const expected = parsePackageDigest(command.digest);
+    const actual = computePackageDigest(decodeModules(command.modules), command.dependencies);
+    if (toHex(expected) !== toHex(actual)) {
+      throw new Error(
+        `${commandIndex}: digest 0x${toHex(expected)} does not match the modules and dependencies, which hash to 0x${toHex(actual)}`
+      );
     }
   }
 
-  return splitObjects;
+  const ticket = resolveArgument(txb, command.ticket, resultMap, `${commandIndex}, ticket`);
+
+  // Returns the UpgradeReceipt to pass to 0x2::package::commit_upgrade
+  return txb.upgrade({
+    modules: command.modules,
+    dependencies: command.dependencies,
+    package: command.package,
+    ticket,
+  });
 }
 
 function resolveArgument(
   txb: Transaction,
   arg: PtbArgument,
-  resultMap: Map<string, any>
+  resultMap: Map<string, any>,
+  context: string,
+  typeHint?: string
 ): any {
   switch (arg.type) {
-    case 'pure':
-      // Handle different value types for pure arguments with enhanced options
+    case 'pure': {
+      // Already-encoded bytes go in as they are, whatever the type
+      if (arg.encoding === 'bcs') {
+        return txb.pure(fromHex(String(arg.value).replace(/^0x/, '')));
+      }
+
+      // An explicit moveType is authoritative: encode exactly as declared
+      const moveType = arg.moveType || (typeHint && isPureMoveType(typeHint) ? typeHint : undefined);
+      if (moveType) {
+        return encodePureArgument(txb, moveType, arg.value, context, arg.encoding);
+      }
+
+      // Without a moveType, infer the encoding from the JSON value
       if (typeof arg.value === 'string') {
         // Auto-detect Sui address-like strings and encode as address
         if (isLikelySuiAddress(arg.value)) {
@@ -172,40 +320,28 @@ function resolveArgument(
 
         // Handle explicit encoding options
         if (arg.encoding === 'ascii') {
-          return txb.pure.ascii(arg.value);
+          return txb.pure(encodePureValue('0x1::ascii::String', arg.value));
         } else if (arg.encoding === 'hex') {
-          return txb.pure(Array.from(Buffer.from(arg.value, 'hex')));
+          return txb.pure(encodePureValue('vector<u8>', arg.value, 'hex'));
         } else {
           // Default to UTF-8 string
           return txb.pure.string(arg.value);
         }
-      } else if (typeof arg.value === 'number') {
-        // Handle different number sizes
-        if (Number.isInteger(arg.value)) {
-          if (arg.value >= 0 && arg.value <= 255) {
-            return txb.pure.u8(arg.value);
-          } else if (arg.value >= 0 && arg.value <= 65535) {
-            return txb.pure.u16(arg.value);
-          } else if (arg.value >= 0 && arg.value <= 4294967295) {
-            return txb.pure.u32(arg.value);
-          } else if (arg.value >= 0 && arg.value <= Number.MAX_SAFE_INTEGER) {
-            return txb.pure.u64(BigInt(arg.value));
-          } else {
-            return txb.pure.u128(BigInt(arg.value));
-          }
-        } else {
-          return txb.pure.u64(BigInt(Math.round(arg.value)));
+      } else if (typeof arg.value === 'number' || typeof arg.value === 'bigint') {
+        // Untyped integers are u64, the type of amounts and counts; anything else needs a moveType
+        if (typeof arg.value === 'number' && !Number.isInteger(arg.value)) {
+          throw new Error(`${context}: ${arg.value} is not an integer; Move has no fractional numbers`);
         }
+        return encodePureArgument(txb, DEFAULT_INTEGER_TYPE, arg.value, `${context} (untyped, so ${DEFAULT_INTEGER_TYPE})`);
       } else if (typeof arg.value === 'boolean') {
         return txb.pure.bool(arg.value);
-      } else if (typeof arg.value === 'bigint') {
-        return txb.pure.u256(arg.value);
       } else if (Array.isArray(arg.value)) {
         // Handle byte arrays
-        return txb.pure(arg.value);
+        return txb.pure(encodePureValue('vector<u8>', arg.value));
       } else {
         return txb.pure(arg.value);
       }
+    }
 
     case 'object':
       if (typeof arg.value !== 'string') {
@@ -213,7 +349,7 @@ function resolveArgument(
       }
       return txb.object(arg.value);
 
-    case 'result':
+    case 'result': {
       if (!arg.ref) {
         throw new Error("Result argument missing ref property");
       }
@@ -222,39 +358,77 @@ function resolveArgument(
       if (result === undefined) {
         throw new Error(`Result reference '${arg.ref}' not found`);
       }
-      return result;
+      if (arg.index === undefined) {
+        return result;
+      }
+      // Indexing a command result yields a NestedResult; destructured values cannot be indexed further
+      if (result.$kind !== 'Result') {
+        throw new Error(`${context}: '${arg.ref}' is a single value and cannot be indexed`);
+      }
+      return result[arg.index];
+    }
 
-    case 'vector':
+    case 'vector': {
       if (!arg.elements || !Array.isArray(arg.elements)) {
-        throw new Error("Vector argument missing elements array");
+        throw new Error(`${context}: vector argument missing elements array`);
       }
 
-      if (arg.elements.length === 0) {
-        throw new Error("Vector argument cannot be empty - use Option<T> for optional empty vectors");
+      const elementType = arg.elementType || (typeHint ? innerTypeOf(typeHint) : null);
+      const pureElements = arg.elements.length > 0 && arg.elements.every(isPureTree);
+
+      // Pure elements are serialized together as a single vector<T> input
+      if (elementType ? isPureMoveType(elementType) : pureElements) {
+        const pureElementType = elementType || commonMoveType(arg.elements);
+        if (!pureElementType) {
+          throw new Error(`${context}: cannot infer the vector element type; set 'elementType'`);
+        }
+        const vectorType = parseMoveType(`vector<${pureElementType}>`);
+        return encodePureArgument(txb, vectorType, pureTreeValue(arg, vectorType, context), context);
       }
 
-      try {
-        const resolvedElements = arg.elements.map(elem =>
-          resolveArgument(txb, elem, resultMap)
-        );
-        return resolvedElements;
-      } catch (error) {
-        throw new Error(`Vector element resolution failed: ${error instanceof Error ? error.message : String(error)}`);
+      if (arg.elements.some(isPureTree)) {
+        throw new Error(`${context}: vector mixes pure values with objects or results`);
       }
 
-    case 'option':
-      if (arg.none) {
-        return { None: true }; // Sui's Option::None as a struct
-      } else if (arg.some) {
-        try {
-          return { Some: resolveArgument(txb, arg.some, resultMap) }; // Sui's Option::Some as a struct
-        } catch (error) {
-          throw new Error(`Option value resolution failed: ${error instanceof Error ? error.message : String(error)}`);
+      // Objects and results are collected on chain with MakeMoveVec
+      const elements = arg.elements.map((elem, idx) =>
+        resolveArgument(txb, elem, resultMap, `${context}, element ${idx}`, elementType ?? undefined)
+      );
+      return txb.makeMoveVec({ type: elementType ?? undefined, elements });
+    }
+
+    case 'option': {
+      if (!arg.none && !arg.some) {
+        throw new Error(`${context}: option argument must have either 'none' or 'some' property`);
+      }
+
+      const valueType = arg.elementType || (typeHint ? innerTypeOf(typeHint) : null);
+
+      // Options of pure values are BCS-encoded as 0x1::option::Option<T>
+      if (isPureTree(arg) && (!valueType || isPureMoveType(valueType))) {
+        const pureValueType = valueType || (arg.some ? commonMoveType([arg.some]) : null);
+        if (!pureValueType) {
+          throw new Error(`${context}: cannot infer the option value type; set 'elementType'`);
         }
-      } else {
-        throw new Error("Option argument must have either 'none' or 'some' property");
+        const optionType = parseMoveType(`0x1::option::Option<${pureValueType}>`);
+        return encodePureArgument(txb, optionType, pureTreeValue(arg, optionType, context), context);
+      }
+
+      if (!valueType) {
+        throw new Error(`${context}: an option holding an object or result needs an 'elementType'`);
       }
 
+      // Options of objects are created on chain
+      if (arg.none) {
+        return txb.moveCall({ target: '0x1::option::none', typeArguments: [valueType] });
+      }
+      return txb.moveCall({
+        target: '0x1::option::some',
+        typeArguments: [valueType],
+        arguments: [resolveArgument(txb, arg.some, resultMap, `${context}, some value`, valueType)],
+      });
+    }
+
     case 'witness':
       if (typeof arg.value !== 'string') {
         throw new Error(`Witness argument value must be a string, got: ${typeof arg.value}`);
@@ -263,11 +437,103 @@ function resolveArgument(
       // We create a pure value with the witness type
       return txb.object(arg.value);
 
+    case 'gas':
+      return txb.gas;
+
+    case 'sender': {
+      const sender = txb.getData().sender;
+      if (!sender) {
+        throw new Error(`${context}: a 'sender' argument needs the sender address; connect a wallet first`);
+      }
+      return txb.pure.address(sender);
+    }
+
+    case 'system':
+      return resolveSystemObject(txb, arg.value as SystemObjectName);
+
     default:
       throw new Error(`Unsupported argument type: ${(arg as any).type}`);
   }
 }
 
+function resolveSystemObject(txb: Transaction, name: SystemObjectName): TransactionArgument {
+  switch (name) {
+    case 'clock':
+      return txb.object.clock();
+    case 'random':
+      return txb.object.random();
+    case 'system':
+      return txb.object.system();
+    case 'denyList':
+      return txb.object.denyList();
+  }
+}
+
+function encodePureArgument(
+  txb: Transaction,
+  type: PureMoveType | string,
+  value: unknown,
+  context: string,
+  encoding?: string
+): TransactionArgument {
+  try {
+    return txb.pure(encodePureValue(type, value, encoding));
+  } catch (error) {
+    throw new Error(`${context}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// True when the argument is a pure value, or a vector/option built only from pure values
+function isPureTree(arg: PtbArgument): boolean {
+  switch (arg.type) {
+    case 'pure':
+      return true;
+    case 'vector':
+      return (arg.elements || []).every(isPureTree);
+    case 'option':
+      return arg.some ? isPureTree(arg.some) : true;
+    default:
+      return false;
+  }
+}
+
+// The moveType shared by all pure elements, or null when any element leaves it unspecified
+function commonMoveType(elements: PtbArgument[]): string | null {
+  const types = new Set(elements.map(elem => elem.type === 'pure' && elem.moveType
+    ? formatMoveType(parseMoveType(elem.moveType))
+    : null));
+  const [type] = types;
+  return types.size === 1 && type ? type : null;
+}
+
+// Converts a tree of pure arguments into the JSON value encodePureValue expects for `type`
+function pureTreeValue(arg: PtbArgument, type: PureMoveType, context: string): unknown {
+  const typeName = formatMoveType(type);
+
+  switch (arg.type) {
+    case 'pure':
+      if (arg.moveType && formatMoveType(parseMoveType(arg.moveType)) !== typeName) {
+        throw new Error(`${context}: declared moveType '${arg.moveType}' but the enclosing type expects '${typeName}'`);
+      }
+      if (arg.encoding === 'hex' && typeof arg.value === 'string' && type.kind === 'vector' && type.element.kind === 'u8') {
+        return Array.from(fromHex(arg.value.startsWith('0x') ? arg.value.slice(2) : arg.value));
+      }
+      return arg.value;
+    case 'vector':
+      if (type.kind !== 'vector') {
+        throw new Error(`${context}: expected ${typeName}, got a vector`);
+      }
+      return (arg.elements || []).map((elem, idx) => pureTreeValue(elem, type.element, `${context}, element ${idx}`));
+    case 'option':
+      if (type.kind !== 'option') {
+        throw new Error(`${context}: expected ${typeName}, got an option`);
+      }
+      return arg.some ? pureTreeValue(arg.some, type.element, `${context}, some value`) : null;
+    default:
+      throw new Error(`${context}: expected a pure value for ${typeName}, got ${arg.type}`);
+  }
+}
+
 function isLikelySuiAddress(value: string): boolean {
   // Heuristic: hex string starting with 0x and at least 40 hex chars total length
   if (typeof value !== 'string') return false;
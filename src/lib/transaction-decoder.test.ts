@@ -0,0 +1,264 @@
+import { describe, it, expect, vi } from "vitest";
+import { Transaction } from "@mysten/sui/transactions";
+import type { SuiClient } from "@mysten/sui/client";
+import { bcs } from "@mysten/sui/bcs";
+import { toBase64, toHex } from "@mysten/sui/utils";
+import { parsePtbDocument, parsePtbJson, type PtbCommand, type PtbJson } from "./ptb-parser";
+import { constructTransactionBlock } from "./transaction-builder";
+import { type MoveCallSignatures } from "./move-abi";
+import { decodeTransaction, fetchTransactionBytes, TransactionDecodeError } from "./transaction-decoder";
+
+const SENDER = "0x" + "a".repeat(64);
+const RECIPIENT = "0x" + "b".repeat(64);
+const GAS_COIN = "0x" + "c".repeat(64);
+const OBJECT_A = "0x" + "d".repeat(64);
+const OBJECT_B = "0x" + "e".repeat(64);
+const PACKAGE = "0x" + "f".repeat(64);
+const ZERO_DIGEST = "11111111111111111111111111111111";
+const MODULE = toBase64(new Uint8Array([0xa1, 0x1c, 0xeb, 0x0b]));
+
+const STRING = { Struct: { address: "0x1", module: "string", name: "String", typeArguments: [] } };
+const KIOSK = { Struct: { address: "0x2", module: "kiosk", name: "Kiosk", typeArguments: [] } };
+
+const SIGNATURES: MoveCallSignatures = new Map([
+  [`${PACKAGE}::shop::list`, {
+    target: `${PACKAGE}::shop::list`,
+    typeParameterCount: 1,
+    parameters: [{ MutableReference: KIOSK }, "U64", "Address", STRING, { Vector: "U8" }, "Bool"],
+    returnCount: 1,
+  }],
+]);
+
+/**
+ * Builds the commands, decodes the result and builds the decoded JSON again, expecting the same transaction.
+ */
+function roundTrip(commands: PtbCommand[], signatures?: MoveCallSignatures): PtbJson {
+  const original = constructTransactionBlock(parsePtbJson(JSON.stringify({ commands })), { signatures });
+  const { ptb } = decodeTransaction(original, { signatures });
+  const rebuilt = constructTransactionBlock(parsePtbJson(JSON.stringify(ptb)), { signatures });
+
+  expect(rebuilt.getData().commands).toEqual(original.getData().commands);
+  expect(rebuilt.getData().inputs).toEqual(original.getData().inputs);
+  return ptb;
+}
+
+describe("decodeTransaction", () => {
+  it("round-trips splitting the gas coin and transferring the parts", () => {
+    const ptb = roundTrip([
+      { type: "splitCoins", coin: { type: "gas" }, amounts: [1000, 2000], assign: ["a", "b"] },
+      { type: "transferObjects", objects: [{ type: "result", ref: "a" }, { type: "result", ref: "b" }], recipient: RECIPIENT },
+    ]);
+
+    expect(ptb.commands).toEqual([
+      { type: "splitCoins", coin: { type: "gas" }, amounts: [1000, 2000], assign: "result1" },
+      {
+        type: "transferObjects",
+        objects: [{ type: "result", ref: "result1", index: 0 }, { type: "result", ref: "result1", index: 1 }],
+        recipient: RECIPIENT,
+      },
+    ]);
+  });
+
+  it("decodes moveCall pure arguments with the types from the signature", () => {
+    const ptb = roundTrip([
+      {
+        type: "moveCall",
+        target: `${PACKAGE}::shop::list`,
+        typeArguments: ["0x2::sui::SUI"],
+        arguments: [
+          { type: "object", value: OBJECT_A },
+          { type: "pure", value: "18446744073709551615" },
+          { type: "pure", value: RECIPIENT },
+          { type: "pure", value: "sword" },
+          { type: "pure", value: "0xcafe", encoding: "hex" },
+          { type: "pure", value: true },
+        ],
+        assign: "listing",
+      },
+      { type: "transferObjects", objects: [{ type: "result", ref: "listing" }], recipient: RECIPIENT },
+    ], SIGNATURES);
+
+    expect(ptb.commands[0]).toEqual({
+      type: "moveCall",
+      target: `${PACKAGE}::shop::list`,
+      typeArguments: ["0x2::sui::SUI"],
+      arguments: [
+        { type: "object", value: OBJECT_A },
+        { type: "pure", value: "18446744073709551615", moveType: "u64" },
+        { type: "pure", value: RECIPIENT, moveType: "address" },
+        { type: "pure", value: "sword", moveType: "0x1::string::String" },
+        { type: "pure", value: [0xca, 0xfe], moveType: "vector<u8>" },
+        { type: "pure", value: true, moveType: "bool" },
+      ],
+      assign: "result1",
+    });
+  });
+
+  it("keeps pure arguments as raw BCS when no signature is known", () => {
+    const ptb = roundTrip([
+      {
+        type: "moveCall",
+        target: `${PACKAGE}::shop::list`,
+        arguments: [{ type: "pure", value: 42, moveType: "u16" }, { type: "pure", value: "hi" }],
+      },
+    ]);
+
+    expect(ptb.commands[0].arguments).toEqual([
+      { type: "pure", value: "0x2a00", encoding: "bcs" },
+      { type: "pure", value: "0x026869", encoding: "bcs" },
+    ]);
+  });
+
+  it("writes makeMoveVec inline as a vector argument", () => {
+    const ptb = roundTrip([
+      {
+        type: "moveCall",
+        target: `${PACKAGE}::shop::bundle`,
+        arguments: [{
+          type: "vector",
+          elementType: `${PACKAGE}::shop::Item`,
+          elements: [{ type: "object", value: OBJECT_A }, { type: "object", value: OBJECT_B }],
+        }],
+      },
+    ]);
+
+    expect(ptb.commands).toEqual([{
+      type: "moveCall",
+      target: `${PACKAGE}::shop::bundle`,
+      arguments: [{
+        type: "vector",
+        elementType: `${PACKAGE}::shop::Item`,
+        elements: [{ type: "object", value: OBJECT_A }, { type: "object", value: OBJECT_B }],
+      }],
+    }]);
+  });
+
+  it("keeps a makeMoveVec of untyped pure values as one BCS vector that builds again", () => {
+    const original = new Transaction();
+    const numbers = original.makeMoveVec({ elements: [original.pure.u64(1), original.pure.u64(300)] });
+    original.moveCall({ target: `${PACKAGE}::shop::restock`, arguments: [numbers] });
+
+    const { ptb } = decodeTransaction(original);
+    const vector = `0x${toHex(bcs.vector(bcs.u64()).serialize([1, 300]).toBytes())}`;
+    expect(ptb.commands).toEqual([{
+      type: "moveCall",
+      target: `${PACKAGE}::shop::restock`,
+      arguments: [{ type: "pure", value: vector, encoding: "bcs" }],
+    }]);
+
+    const rebuilt = constructTransactionBlock(parsePtbJson(JSON.stringify(ptb)));
+    expect(decodeTransaction(rebuilt).ptb).toEqual(ptb);
+  });
+
+  it("types a makeMoveVec's pure elements from the parameter that takes it", () => {
+    const restock = `${PACKAGE}::shop::restock`;
+    const signatures: MoveCallSignatures = new Map([
+      [restock, { target: restock, typeParameterCount: 0, parameters: [{ Vector: "U64" }], returnCount: 0 }],
+    ]);
+    const original = new Transaction();
+    const numbers = original.makeMoveVec({ elements: [original.pure.u64(1), original.pure.u64(300)] });
+    original.moveCall({ target: restock, arguments: [numbers] });
+
+    expect(decodeTransaction(original, { signatures }).ptb.commands[0].arguments).toEqual([{
+      type: "vector",
+      elementType: "u64",
+      elements: [{ type: "pure", value: "1", moveType: "u64" }, { type: "pure", value: "300", moveType: "u64" }],
+    }]);
+  });
+
+  it("round-trips merging coins with nested results", () => {
+    roundTrip([
+      { type: "splitCoins", coin: { type: "object", value: OBJECT_A }, amounts: [5, 6, 7], assign: "parts" },
+      {
+        type: "mergeCoins",
+        destination: { type: "result", ref: "parts", index: 0 },
+        sources: [{ type: "result", ref: "parts", index: 2 }, { type: "object", value: OBJECT_B }],
+      },
+      { type: "transferObjects", objects: [{ type: "result", ref: "parts", index: 0 }], recipient: RECIPIENT },
+    ]);
+  });
+
+  it("round-trips publish and upgrade", () => {
+    const ptb = roundTrip([
+      { type: "publish", modules: [MODULE], dependencies: ["0x1", "0x2"], assign: "cap" },
+      { type: "transferObjects", objects: [{ type: "result", ref: "cap" }], recipient: SENDER },
+      {
+        type: "moveCall",
+        target: "0x2::package::authorize_upgrade",
+        arguments: [{ type: "object", value: OBJECT_A }, { type: "pure", value: 0, moveType: "u8" }, { type: "pure", value: "0x00", encoding: "hex" }],
+        assign: "ticket",
+      },
+      {
+        type: "upgrade",
+        modules: [MODULE],
+        dependencies: ["0x1", "0x2"],
+        package: PACKAGE,
+        ticket: { type: "result", ref: "ticket" },
+      },
+    ]);
+
+    expect(ptb.commands[0]).toMatchObject({ type: "publish", modules: [MODULE], assign: "result1" });
+    expect(ptb.commands[3]).toMatchObject({ type: "upgrade", package: PACKAGE, ticket: { type: "result", ref: "result3" } });
+  });
+
+  it("decodes built bytes, including the sender and gas settings", async () => {
+    const txb = new Transaction();
+    const [coin] = txb.splitCoins(txb.gas, [txb.pure.u64(1000)]);
+    txb.transferObjects([coin], txb.pure.address(RECIPIENT));
+    txb.setSender(SENDER);
+    txb.setGasOwner(RECIPIENT);
+    txb.setGasBudget(10_000_000);
+    txb.setGasPrice(1000);
+    txb.setExpiration({ Epoch: 42 });
+    txb.setGasPayment([{ objectId: GAS_COIN, version: "1", digest: ZERO_DIGEST }]);
+    const bytes = toBase64(await txb.build());
+
+    const decoded = decodeTransaction(bytes);
+
+    expect(decoded.sender).toBe(SENDER);
+    expect(decoded.ptb.gas).toEqual({ budget: "10000000", price: "1000", payment: [GAS_COIN], sponsor: RECIPIENT, expiration: 42 });
+    expect(parsePtbDocument(JSON.stringify(decoded.ptb)).gas).toEqual(decoded.ptb.gas);
+  });
+
+  it("rejects transfers to a computed recipient", () => {
+    const txb = new Transaction();
+    const [recipient] = txb.moveCall({ target: `${PACKAGE}::shop::owner` });
+    txb.transferObjects([txb.object(OBJECT_A)], recipient);
+
+    expect(() => decodeTransaction(txb)).toThrow(TransactionDecodeError);
+    expect(() => decodeTransaction(txb)).toThrow(/literal address/);
+  });
+
+  it("rejects a makeMoveVec result used more than once", () => {
+    const txb = new Transaction();
+    const items = txb.makeMoveVec({ elements: [txb.object(OBJECT_A)] });
+    txb.moveCall({ target: `${PACKAGE}::shop::bundle`, arguments: [items] });
+    txb.moveCall({ target: `${PACKAGE}::shop::bundle`, arguments: [items] });
+
+    expect(() => decodeTransaction(txb)).toThrow(/used exactly once/);
+  });
+
+  it("rejects bytes that are not a transaction", () => {
+    expect(() => decodeTransaction("AAAA")).toThrow(TransactionDecodeError);
+  });
+});
+
+describe("fetchTransactionBytes", () => {
+  it("extracts the transaction data from the signed raw input", async () => {
+    const txb = new Transaction();
+    txb.transferObjects([txb.gas], txb.pure.address(RECIPIENT));
+    txb.setSender(SENDER);
+    txb.setGasBudget(10_000_000);
+    txb.setGasPrice(1000);
+    txb.setGasPayment([{ objectId: GAS_COIN, version: "1", digest: ZERO_DIGEST }]);
+    const bytes = await txb.build();
+
+    // One signed transaction: the TransactionData intent, the data, then one 97-byte signature
+    const rawTransaction = toBase64(new Uint8Array([1, 0, 0, 0, ...bytes, 1, 97, ...new Uint8Array(97)]));
+    const getTransactionBlock = vi.fn().mockResolvedValue({ digest: "digest", rawTransaction });
+    const client = { getTransactionBlock } as unknown as SuiClient;
+
+    await expect(fetchTransactionBytes("digest", { client })).resolves.toBe(toBase64(bytes));
+    expect(getTransactionBlock).toHaveBeenCalledWith({ digest: "digest", options: { showRawInput: true } });
+  });
+});
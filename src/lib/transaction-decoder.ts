@@ -0,0 +1,331 @@
+// Transaction Decoder - Turns built transactions back into PTB JSON, the inverse of constructTransactionBlock
+import { Transaction } from "@mysten/sui/transactions";
+import { bcs } from "@mysten/sui/bcs";
+import type { SuiClient } from "@mysten/sui/client";
+import { fromBase64, normalizeSuiAddress, toBase64, toHex } from "@mysten/sui/utils";
+import { type PtbArgument, type PtbCommand, type PtbGasSettings, type PtbJson } from "./ptb-parser";
+import { type MoveCallSignatures, normalizeMoveTarget, parameterPureType, resolveMoveCallSignatures } from "./move-abi";
+import { decodePureValue, innerTypeOf } from "./move-types";
+
+export interface DecodedTransaction {
+  ptb: PtbJson;
+  sender?: string;
+}
+
+export interface DecodeOptions {
+  // On-chain signatures from resolveMoveCallSignatures; moveCall pure arguments are decoded with their types
+  signatures?: MoveCallSignatures;
+}
+
+export class TransactionDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransactionDecodeError";
+  }
+}
+
+type TransactionData = ReturnType<Transaction["getData"]>;
+type DataCommand = TransactionData["commands"][number];
+type DataArgument = NonNullable<DataCommand["MoveCall"]>["arguments"][number];
+
+const MAX_SAFE = BigInt(Number.MAX_SAFE_INTEGER);
+
+function toTransaction(input: Transaction | Uint8Array | string): Transaction {
+  if (input instanceof Transaction) {
+    return input;
+  }
+  try {
+    return Transaction.from(typeof input === "string" ? fromBase64(input) : input);
+  } catch (error) {
+    throw new TransactionDecodeError(`Not transaction bytes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function argumentsOf(command: DataCommand): DataArgument[] {
+  switch (command.$kind) {
+    case "MoveCall":
+      return command.MoveCall.arguments;
+    case "TransferObjects":
+      return [...command.TransferObjects.objects, command.TransferObjects.address];
+    case "SplitCoins":
+      return [command.SplitCoins.coin, ...command.SplitCoins.amounts];
+    case "MergeCoins":
+      return [command.MergeCoins.destination, ...command.MergeCoins.sources];
+    case "MakeMoveVec":
+      return command.MakeMoveVec.elements;
+    case "Upgrade":
+      return [command.Upgrade.ticket];
+    default:
+      return [];
+  }
+}
+
+function resultIndex(arg: DataArgument): number | undefined {
+  if (arg.$kind === "Result") {
+    return arg.Result;
+  }
+  if (arg.$kind === "NestedResult") {
+    return arg.NestedResult[0];
+  }
+  return undefined;
+}
+
+function decodeGas({ gasData, expiration, sender }: TransactionData): PtbGasSettings | undefined {
+  const gas: PtbGasSettings = {};
+  if (gasData.budget !== null && gasData.budget !== undefined) {
+    gas.budget = String(gasData.budget);
+  }
+  if (gasData.price !== null && gasData.price !== undefined) {
+    gas.price = String(gasData.price);
+  }
+  if (gasData.payment?.length) {
+    gas.payment = gasData.payment.map(ref => normalizeSuiAddress(ref.objectId));
+  }
+  if (gasData.owner && (!sender || normalizeSuiAddress(gasData.owner) !== normalizeSuiAddress(sender))) {
+    gas.sponsor = normalizeSuiAddress(gasData.owner);
+  }
+  if (expiration?.$kind === "Epoch") {
+    gas.expiration = Number(expiration.Epoch);
+  }
+  return Object.keys(gas).length > 0 ? gas : undefined;
+}
+
+/**
+ * Converts a transaction into the PTB JSON that builds it. Pure inputs are decoded wherever their type
+ * is known: split amounts, recipients, and moveCall arguments when signatures are given; all others keep
+ * their BCS bytes with the 'bcs' encoding. MakeMoveVec commands become inline vector arguments, or a
+ * single 'bcs' pure value when their elements are pure values of unknown type.
+ */
+export function decodeTransaction(
+  input: Transaction | Uint8Array | string,
+  { signatures }: DecodeOptions = {}
+): DecodedTransaction {
+  const data = toTransaction(input).getData();
+  const { commands, inputs } = data;
+
+  // Every use of a command's result, to name the results and inline MakeMoveVec where it is consumed
+  const uses = new Map<number, number>();
+  commands.forEach(command => argumentsOf(command).forEach(arg => {
+    const index = resultIndex(arg);
+    if (index !== undefined) {
+      uses.set(index, (uses.get(index) ?? 0) + 1);
+    }
+  }));
+  const resultName = (index: number) => `result${index + 1}`;
+
+  const inputAt = (arg: DataArgument, context: string) => {
+    const input = arg.$kind === "Input" ? inputs[arg.Input] : undefined;
+    if (!input) {
+      throw new TransactionDecodeError(`${context}: refers to a missing input`);
+    }
+    return input;
+  };
+
+  // The raw bytes of a pure input, or undefined when it is not one
+  const pureBytes = (arg: DataArgument, context: string): Uint8Array | undefined => {
+    if (arg.$kind !== "Input") {
+      return undefined;
+    }
+    const input = inputAt(arg, context);
+    if (input.$kind === "Pure") {
+      return fromBase64(input.Pure.bytes);
+    }
+    if (input.$kind === "UnresolvedPure") {
+      throw new TransactionDecodeError(`${context}: pure input has not been serialized; build the transaction first`);
+    }
+    return undefined;
+  };
+
+  const decodeArgument = (arg: DataArgument, context: string, moveType?: string | null): PtbArgument => {
+    switch (arg.$kind) {
+      case "GasCoin":
+        return { type: "gas" };
+      case "Result":
+      case "NestedResult": {
+        const index = resultIndex(arg)!;
+        const source = commands[index];
+        if (source?.$kind === "MakeMoveVec") {
+          if (arg.$kind === "NestedResult") {
+            throw new TransactionDecodeError(`${context}: cannot index into the vector built by command ${index + 1}`);
+          }
+          const { type, elements } = source.MakeMoveVec;
+          // Without a type on the command, the parameter that takes the vector may still give its elements' type
+          const elementType = type ?? (moveType?.startsWith("vector<") ? innerTypeOf(moveType) : null);
+          const decoded = elements.map((element, elementIndex) => decodeArgument(element, `${context}, element ${elementIndex}`, elementType));
+
+          // Pure elements that stay undecoded cannot be typed, so the vector keeps its BCS bytes: the length, then each element
+          if (decoded.length > 0 && decoded.every(element => element.type === "pure") && decoded.some(element => element.encoding === "bcs")) {
+            const parts = [
+              bcs.uleb128().serialize(elements.length).toBytes(),
+              ...elements.map((element, elementIndex) => pureBytes(element, `${context}, element ${elementIndex}`)!),
+            ];
+            return { type: "pure", value: `0x${parts.map(part => toHex(part)).join("")}`, encoding: "bcs" };
+          }
+          return {
+            type: "vector",
+            elements: decoded,
+            ...(elementType && { elementType }),
+          };
+        }
+        return arg.$kind === "Result"
+          ? { type: "result", ref: resultName(index) }
+          : { type: "result", ref: resultName(index), index: arg.NestedResult[1] };
+      }
+      case "Input": {
+        const input = inputAt(arg, context);
+        switch (input.$kind) {
+          case "Pure": {
+            const bytes = fromBase64(input.Pure.bytes);
+            if (moveType) {
+              try {
+                return { type: "pure", value: decodePureValue(moveType, bytes), moveType };
+              } catch {
+                // Not a value of the expected type; keep the bytes so the transaction is unchanged
+              }
+            }
+            return { type: "pure", value: `0x${toHex(bytes)}`, encoding: "bcs" };
+          }
+          case "Object": {
+            const object = input.Object;
+            const objectId = object.ImmOrOwnedObject?.objectId ?? object.SharedObject?.objectId ?? object.Receiving?.objectId;
+            return { type: "object", value: normalizeSuiAddress(objectId!) };
+          }
+          case "UnresolvedObject":
+            return { type: "object", value: normalizeSuiAddress(input.UnresolvedObject.objectId) };
+          default:
+            throw new TransactionDecodeError(`${context}: pure input has not been serialized; build the transaction first`);
+        }
+      }
+      default:
+        throw new TransactionDecodeError(`${context}: unsupported argument kind ${(arg as { $kind: string }).$kind}`);
+    }
+  };
+
+  const decodeCommand = (command: DataCommand, index: number): PtbCommand | undefined => {
+    const context = `Command ${index + 1}`;
+    switch (command.$kind) {
+      case "MoveCall": {
+        const { package: pkg, module, function: fn, typeArguments, arguments: args } = command.MoveCall;
+        const target = normalizeMoveTarget(`${pkg}::${module}::${fn}`);
+        const signature = signatures?.get(target);
+        return {
+          type: "moveCall",
+          target,
+          arguments: args.map((arg, argIndex) => decodeArgument(
+            arg,
+            `${context}, argument ${argIndex + 1}`,
+            signature?.parameters[argIndex] ? parameterPureType(signature.parameters[argIndex], typeArguments) : undefined
+          )),
+          ...(typeArguments.length > 0 && { typeArguments }),
+        };
+      }
+      case "TransferObjects": {
+        const { objects, address } = command.TransferObjects;
+        const bytes = pureBytes(address, `${context}, recipient`);
+        if (!bytes || bytes.length !== 32) {
+          throw new TransactionDecodeError(`${context}: PTB JSON can only transfer to a literal address, not a computed one`);
+        }
+        return {
+          type: "transferObjects",
+          objects: objects.map((object, objectIndex) => decodeArgument(object, `${context}, object ${objectIndex + 1}`)),
+          recipient: normalizeSuiAddress(toHex(bytes)),
+        };
+      }
+      case "SplitCoins": {
+        const { coin, amounts } = command.SplitCoins;
+        return {
+          type: "splitCoins",
+          coin: decodeArgument(coin, `${context}, coin`),
+          amounts: amounts.map((amount, amountIndex) => {
+            const bytes = pureBytes(amount, `${context}, amount ${amountIndex + 1}`);
+            const value = bytes?.length === 8 ? BigInt(bcs.u64().parse(bytes)) : undefined;
+            if (value === undefined || value === 0n || value > MAX_SAFE) {
+              throw new TransactionDecodeError(
+                `${context}: amount ${amountIndex + 1} is not a positive u64 literal that PTB JSON can express as a number`
+              );
+            }
+            return Number(value);
+          }),
+        };
+      }
+      case "MergeCoins": {
+        const { destination, sources } = command.MergeCoins;
+        return {
+          type: "mergeCoins",
+          destination: decodeArgument(destination, `${context}, destination`),
+          sources: sources.map((source, sourceIndex) => decodeArgument(source, `${context}, source ${sourceIndex + 1}`)),
+        };
+      }
+      case "MakeMoveVec":
+        // Written inline as a vector argument where its result is used
+        if (uses.get(index) !== 1) {
+          throw new TransactionDecodeError(
+            `${context}: PTB JSON writes makeMoveVec as a vector argument, so its result must be used exactly once`
+          );
+        }
+        return undefined;
+      case "Publish":
+        return {
+          type: "publish",
+          modules: command.Publish.modules,
+          dependencies: command.Publish.dependencies.map(id => normalizeSuiAddress(id)),
+        };
+      case "Upgrade": {
+        const { modules, dependencies, package: packageId, ticket } = command.Upgrade;
+        return {
+          type: "upgrade",
+          modules,
+          dependencies: dependencies.map(id => normalizeSuiAddress(id)),
+          package: normalizeSuiAddress(packageId),
+          ticket: decodeArgument(ticket, `${context}, ticket`),
+        };
+      }
+      default:
+        throw new TransactionDecodeError(`${context}: ${command.$kind} commands cannot be expressed in PTB JSON`);
+    }
+  };
+
+  const decodedCommands: PtbCommand[] = [];
+  commands.forEach((command, index) => {
+    const decoded = decodeCommand(command, index);
+    if (!decoded) {
+      return;
+    }
+    if (uses.has(index)) {
+      decoded.assign = resultName(index);
+    }
+    decodedCommands.push(decoded);
+  });
+
+  const gas = decodeGas(data);
+  return {
+    ptb: gas ? { gas, commands: decodedCommands } : { commands: decodedCommands },
+    ...(data.sender && { sender: normalizeSuiAddress(data.sender) }),
+  };
+}
+
+/**
+ * Decodes a transaction, first fetching the signatures of the functions it calls so that
+ * their pure arguments are decoded with the right types.
+ */
+export async function decodeTransactionWithAbi(
+  input: Transaction | Uint8Array | string,
+  options: { client: SuiClient; network: string }
+): Promise<DecodedTransaction> {
+  const untyped = decodeTransaction(input);
+  const signatures = await resolveMoveCallSignatures(untyped.ptb.commands, options);
+  return decodeTransaction(input, { signatures });
+}
+
+/**
+ * Fetches the transaction data of an executed transaction as base64 bytes, ready for decodeTransaction.
+ */
+export async function fetchTransactionBytes(digest: string, { client }: { client: SuiClient }): Promise<string> {
+  const response = await client.getTransactionBlock({ digest, options: { showRawInput: true } });
+  if (!response.rawTransaction) {
+    throw new TransactionDecodeError(`Transaction ${digest} was returned without its raw input`);
+  }
+  // The raw input is the signed envelope; only its transaction data is decoded
+  const [signed] = bcs.SenderSignedData.parse(fromBase64(response.rawTransaction));
+  return toBase64(bcs.TransactionData.serialize(signed.intentMessage.value).toBytes());
+}
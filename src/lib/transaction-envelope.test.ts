@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import type { SuiClient } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import { fromBase64 } from "@mysten/sui/utils";
+import { parsePtbDocument } from "./ptb-parser";
+import { constructTransactionBlock } from "./transaction-builder";
+import {
+  createTransactionEnvelope,
+  EnvelopeError,
+  parseTransactionEnvelope,
+  signEnvelope,
+  verifyEnvelopeSource,
+  type TransactionEnvelope,
+} from "./transaction-envelope";
+import { type SignTransaction } from "./sponsored-transaction";
+
+const RECIPIENT = "0x" + "b".repeat(64);
+const ATTACKER = "0x" + "d".repeat(64);
+const GAS_COIN = "0x" + "c".repeat(64);
+const ZERO_DIGEST = "11111111111111111111111111111111";
+
+const user = new Ed25519Keypair();
+const SENDER = user.toSuiAddress();
+
+// Every input and all gas data are given, so nothing is fetched while building
+const client = {} as SuiClient;
+
+const SOURCE = JSON.stringify({
+  params: { recipient: { type: "address" } },
+  commands: [
+    { type: "splitCoins", coin: { type: "gas" }, amounts: [1000], assign: "payment" },
+    { type: "transferObjects", objects: [{ type: "result", ref: "payment" }], recipient: { type: "param", name: "recipient" } },
+  ],
+});
+
+async function exportEnvelope(recipient = RECIPIENT): Promise<TransactionEnvelope> {
+  const params = { recipient };
+  const txb = constructTransactionBlock(parsePtbDocument(SOURCE, params).commands, { sender: SENDER });
+  txb.setGasPayment([{ objectId: GAS_COIN, version: "1", digest: ZERO_DIGEST }]);
+  txb.setGasBudget(10_000_000);
+  txb.setGasPrice(1000);
+  return createTransactionEnvelope(txb, { client, network: "testnet", source: SOURCE, params });
+}
+
+const signer = (keypair: Ed25519Keypair): SignTransaction => async ({ transaction }) => keypair.signTransaction(await transaction.build());
+
+describe("transaction envelopes", () => {
+  it("round-trips an exported envelope, summarizing it from its bytes", async () => {
+    const envelope = await exportEnvelope();
+    const parsed = await parseTransactionEnvelope(JSON.stringify(envelope));
+
+    expect(parsed).toEqual(envelope);
+    expect(parsed.summary).toEqual(["1. Split a coin into 1 amount", "2. Transfer 1 object to 0xbbbbbb...bbbbbb"]);
+  });
+
+  it("rewrites a tampered summary from the bytes", async () => {
+    const envelope = await exportEnvelope();
+    const parsed = await parseTransactionEnvelope(JSON.stringify({ ...envelope, summary: ["1. Nothing to see here"] }));
+    expect(parsed.summary).toEqual(envelope.summary);
+  });
+
+  it("rejects bytes sent by someone other than the stated sender", async () => {
+    const envelope = await exportEnvelope();
+    await expect(parseTransactionEnvelope(JSON.stringify({ ...envelope, sender: RECIPIENT })))
+      .rejects.toThrow(EnvelopeError);
+  });
+
+  it("adds the wallet's signature for the bytes, and rejects signatures for other bytes", async () => {
+    const signed = await signEnvelope(await exportEnvelope(), { signTransaction: signer(user) });
+    const verified = await verifyTransactionSignature(fromBase64(signed.bytes), signed.signatures![0]);
+    expect(verified.toSuiAddress()).toBe(SENDER);
+    expect(await parseTransactionEnvelope(JSON.stringify(signed))).toMatchObject({ signatures: signed.signatures });
+
+    const other = await exportEnvelope(ATTACKER);
+    await expect(parseTransactionEnvelope(JSON.stringify({ ...other, signatures: signed.signatures })))
+      .rejects.toThrow("does not match its bytes");
+  });
+
+  it("rejects a valid signature from a key that is neither the sender nor the gas owner", async () => {
+    const envelope = await exportEnvelope();
+    const { signature } = await new Ed25519Keypair().signTransaction(fromBase64(envelope.bytes));
+    await expect(parseTransactionEnvelope(JSON.stringify({ ...envelope, signatures: [signature] })))
+      .rejects.toThrow("neither its sender nor its gas owner");
+  });
+
+  it("refuses a wallet that signs different bytes", async () => {
+    const envelope = await exportEnvelope();
+    const changing: SignTransaction = async ({ transaction }) => {
+      transaction.setGasBudget(1);
+      return signer(user)({ transaction });
+    };
+    await expect(signEnvelope(envelope, { signTransaction: changing })).rejects.toThrow(EnvelopeError);
+  });
+});
+
+describe("verifyEnvelopeSource", () => {
+  it("accepts the source the bytes were built from", async () => {
+    expect(await verifyEnvelopeSource(await exportEnvelope(), { client, network: "testnet" })).toBe(true);
+  });
+
+  it("rejects a source swapped for a harmless-looking one", async () => {
+    const malicious = await exportEnvelope(ATTACKER);
+    const harmless = JSON.stringify({ commands: [{ type: "splitCoins", coin: { type: "gas" }, amounts: [1000] }] });
+    expect(await verifyEnvelopeSource({ ...malicious, source: harmless, params: undefined }, { client, network: "testnet" })).toBe(false);
+  });
+
+  it("rejects params changed to show another recipient", async () => {
+    const malicious = await exportEnvelope(ATTACKER);
+    expect(await verifyEnvelopeSource({ ...malicious, params: { recipient: RECIPIENT } }, { client, network: "testnet" })).toBe(false);
+  });
+});
@@ -0,0 +1,247 @@
+// Transaction Envelope - Built transactions as portable JSON, for review and signing on another machine
+import { Transaction } from "@mysten/sui/transactions";
+import type { SuiClient, SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import { fromBase64, normalizeSuiAddress, toBase64, toHex } from "@mysten/sui/utils";
+import { type PtbParamValues } from "./ptb-params";
+import { parsePtbDocument } from "./ptb-parser";
+import { constructTransactionBlock } from "./transaction-builder";
+import { resolveMoveCallSignatures } from "./move-abi";
+import { type SignTransaction } from "./sponsored-transaction";
+import { plural, shortId } from "./utils";
+
+export const ENVELOPE_FORMAT = "sui-ptb-runner/transaction";
+export const ENVELOPE_VERSION = 1;
+
+export interface TransactionEnvelope {
+  format: typeof ENVELOPE_FORMAT;
+  version: typeof ENVELOPE_VERSION;
+  network: string;
+  sender: string;
+  bytes: string; // base64 TransactionData; the only part that is signed
+  summary: string[]; // Human-readable lines; on import, rewritten from the bytes
+  source?: string; // PTB JSON the transaction was built from; unverified until verifyEnvelopeSource
+  params?: PtbParamValues; // Param values the source was built with
+  signatures?: string[]; // Present once the envelope has been signed
+  createdAt: string;
+}
+
+export class EnvelopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EnvelopeError";
+  }
+}
+
+/**
+ * Describes each command of a built transaction in one line, without needing the JSON it came from.
+ */
+export function summarizeTransaction(txb: Transaction): string[] {
+  const { commands, inputs } = txb.getData();
+
+  // Recipients are pure inputs; 32 bytes of BCS is an address
+  const describeRecipient = (arg: { $kind: string; Input?: number }) => {
+    const input = arg.$kind === "Input" && arg.Input !== undefined ? inputs[arg.Input] : undefined;
+    const bytes = input?.Pure ? fromBase64(input.Pure.bytes) : undefined;
+    return bytes?.length === 32 ? shortId(`0x${toHex(bytes)}`) : "a computed address";
+  };
+
+  return commands.map((command, index) => {
+    const prefix = `${index + 1}. `;
+    switch (command.$kind) {
+      case "MoveCall": {
+        const { package: pkg, module, function: fn } = command.MoveCall;
+        return `${prefix}Call ${shortId(normalizeSuiAddress(pkg))}::${module}::${fn}`;
+      }
+      case "TransferObjects":
+        return `${prefix}Transfer ${plural(command.TransferObjects.objects.length, "object")} to ${describeRecipient(command.TransferObjects.address)}`;
+      case "SplitCoins":
+        return `${prefix}Split a coin into ${plural(command.SplitCoins.amounts.length, "amount")}`;
+      case "MergeCoins":
+        return `${prefix}Merge ${plural(command.MergeCoins.sources.length, "coin")} into one`;
+      case "MakeMoveVec":
+        return `${prefix}Make a vector of ${plural(command.MakeMoveVec.elements.length, "element")}`;
+      case "Publish":
+        return `${prefix}Publish a package with ${plural(command.Publish.modules.length, "module")}`;
+      case "Upgrade":
+        return `${prefix}Upgrade package ${shortId(normalizeSuiAddress(command.Upgrade.package))}`;
+      default:
+        return `${prefix}${command.$kind}`;
+    }
+  });
+}
+
+/**
+ * Builds the transaction and wraps its bytes with what a reviewer on another machine needs to know.
+ */
+export async function createTransactionEnvelope(
+  txb: Transaction,
+  { client, network, description = [], source, params }: {
+    client: SuiClient;
+    network: string;
+    description?: string[]; // Lines shown before the per-command summary
+    source?: string;
+    params?: PtbParamValues;
+  }
+): Promise<TransactionEnvelope> {
+  const sender = txb.getData().sender;
+  if (!sender) {
+    throw new EnvelopeError("Set a sender before exporting; connect a wallet first");
+  }
+
+  const bytes = await txb.build({ client });
+  return {
+    format: ENVELOPE_FORMAT,
+    version: ENVELOPE_VERSION,
+    network,
+    sender: normalizeSuiAddress(sender),
+    bytes: toBase64(bytes),
+    summary: [...description, ...summarizeTransaction(Transaction.from(bytes))],
+    ...(source !== undefined && { source }),
+    ...(params && Object.keys(params).length > 0 && { params }),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string");
+}
+
+/**
+ * Reads an envelope file, checking that the bytes decode and belong to the stated sender,
+ * and that every signature it carries is valid for the bytes. The file's summary is not trusted:
+ * the returned summary is written from the bytes.
+ */
+export async function parseTransactionEnvelope(json: string): Promise<TransactionEnvelope> {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new EnvelopeError(`Not a JSON file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== "object" || parsed.format !== ENVELOPE_FORMAT) {
+    throw new EnvelopeError("Not a transaction envelope exported by this app");
+  }
+  if (parsed.version !== ENVELOPE_VERSION) {
+    throw new EnvelopeError(`Unsupported envelope version ${String(parsed.version)}; expected ${ENVELOPE_VERSION}`);
+  }
+
+  const { network, sender, bytes, summary, source, params, signatures, createdAt } = parsed;
+  if (typeof network !== "string" || typeof sender !== "string" || typeof bytes !== "string") {
+    throw new EnvelopeError("Envelope is missing its network, sender or bytes");
+  }
+  if (!isStringArray(summary) || (signatures !== undefined && !isStringArray(signatures))) {
+    throw new EnvelopeError("Envelope summary and signatures must be lists of strings");
+  }
+  const signatureList = signatures as string[] | undefined;
+  if (source !== undefined && typeof source !== "string") {
+    throw new EnvelopeError("Envelope source must be the PTB JSON as a string");
+  }
+  if (params !== undefined && (!params || typeof params !== "object" || !Object.values(params).every(value => typeof value === "string"))) {
+    throw new EnvelopeError("Envelope params must map names to string values");
+  }
+
+  let transaction: Transaction;
+  try {
+    transaction = Transaction.from(fromBase64(bytes));
+  } catch (error) {
+    throw new EnvelopeError(`Envelope bytes are not a transaction: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const data = transaction.getData();
+  if (!data.sender || normalizeSuiAddress(data.sender) !== normalizeSuiAddress(sender)) {
+    throw new EnvelopeError(`Envelope says it is sent by ${sender}, but its bytes are sent by ${data.sender ?? "nobody"}`);
+  }
+
+  // Only the sender and, for a sponsored transaction, the gas owner can sign
+  const signers = [data.sender, data.gasData.owner].filter(Boolean).map(address => normalizeSuiAddress(address!));
+  for (const signature of signatureList ?? []) {
+    let signer: string;
+    try {
+      signer = (await verifyTransactionSignature(fromBase64(bytes), signature)).toSuiAddress();
+    } catch {
+      throw new EnvelopeError("Envelope carries a signature that does not match its bytes");
+    }
+    if (!signers.includes(signer)) {
+      throw new EnvelopeError(`Envelope carries a signature from ${signer}, who is neither its sender nor its gas owner`);
+    }
+  }
+
+  return {
+    format: ENVELOPE_FORMAT,
+    version: ENVELOPE_VERSION,
+    network,
+    sender: normalizeSuiAddress(sender),
+    bytes,
+    summary: summarizeTransaction(transaction),
+    ...(source !== undefined && { source: source as string }),
+    ...(params !== undefined && { params: params as PtbParamValues }),
+    ...(signatureList && { signatures: signatureList }),
+    createdAt: typeof createdAt === "string" ? createdAt : "",
+  };
+}
+
+/**
+ * Rebuilds the envelope's source PTB JSON and reports whether it gives the same commands and inputs as the bytes.
+ * Gas is left out of the comparison, since it is chosen at build time; it is read from the bytes.
+ * Only a source that passes may describe the transaction, and only as a label for the bytes.
+ */
+export async function verifyEnvelopeSource(
+  envelope: TransactionEnvelope,
+  { client, network }: { client: SuiClient; network: string }
+): Promise<boolean> {
+  if (envelope.source === undefined) {
+    return false;
+  }
+  try {
+    const document = parsePtbDocument(envelope.source, envelope.params ?? {});
+    const expected = toBase64(await Transaction.from(fromBase64(envelope.bytes)).build({ onlyTransactionKind: true }));
+
+    // The exporting app may or may not have typed pure values from the on-chain signatures
+    const signatures = await resolveMoveCallSignatures(document.commands, { client, network }).catch(() => undefined);
+    for (const candidate of signatures ? [signatures, undefined] : [undefined]) {
+      const rebuilt = constructTransactionBlock(document.commands, { signatures: candidate, sender: envelope.sender });
+      if (toBase64(await rebuilt.build({ client, onlyTransactionKind: true })) === expected) {
+        return true;
+      }
+    }
+    return false;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Has the wallet sign the envelope's bytes and returns the envelope with the signature added.
+ */
+export async function signEnvelope(
+  envelope: TransactionEnvelope,
+  { signTransaction }: { signTransaction: SignTransaction }
+): Promise<TransactionEnvelope> {
+  const signed = await signTransaction({ transaction: Transaction.from(fromBase64(envelope.bytes)) });
+  if (signed.bytes !== envelope.bytes) {
+    throw new EnvelopeError("The wallet changed the transaction while signing, so the signature does not match the envelope");
+  }
+  return { ...envelope, signatures: [...(envelope.signatures ?? []), signed.signature] };
+}
+
+/**
+ * Submits a signed envelope's bytes with its signatures.
+ */
+export async function executeEnvelope(
+  envelope: TransactionEnvelope,
+  { client }: { client: SuiClient }
+): Promise<SuiTransactionBlockResponse> {
+  if (!envelope.signatures?.length) {
+    throw new EnvelopeError("The envelope has not been signed");
+  }
+  return client.executeTransactionBlock({
+    transactionBlock: envelope.bytes,
+    signature: envelope.signatures,
+    options: { showEffects: true },
+  });
+}
+
+export function envelopeFileName(envelope: TransactionEnvelope): string {
+  const state = envelope.signatures?.length ? "signed" : "unsigned";
+  return `tx-${envelope.network}-${envelope.sender.slice(2, 10)}-${state}.json`;
+}
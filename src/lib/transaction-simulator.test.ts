@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from "vitest";
+import { Transaction } from "@mysten/sui/transactions";
+import type { SuiClient, DryRunTransactionBlockResponse } from "@mysten/sui/client";
+import { simulateTransaction, summarizeDryRun } from "./transaction-simulator";
+
+const SENDER = "0x" + "a".repeat(64);
+const RECIPIENT = "0x" + "b".repeat(64);
+const GAS_COIN = "0x" + "c".repeat(64);
+const CREATED_ID = "0x" + "d".repeat(64);
+const ZERO_DIGEST = "11111111111111111111111111111111";
+
+function offlineTransaction(): Transaction {
+  const txb = new Transaction();
+  const [coin] = txb.splitCoins(txb.gas, [txb.pure.u64(1000)]);
+  txb.transferObjects([coin], txb.pure.address(RECIPIENT));
+  txb.setGasBudget(10_000_000);
+  txb.setGasPrice(1000);
+  txb.setGasPayment([{ objectId: GAS_COIN, version: "1", digest: ZERO_DIGEST }]);
+  return txb;
+}
+
+function dryRunResponse(overrides: Partial<DryRunTransactionBlockResponse["effects"]> = {}): DryRunTransactionBlockResponse {
+  return {
+    effects: {
+      status: { status: "success" },
+      gasUsed: {
+        computationCost: "1000000",
+        storageCost: "2000000",
+        storageRebate: "500000",
+        nonRefundableStorageFee: "0",
+      },
+      ...overrides,
+    },
+    balanceChanges: [
+      { owner: { AddressOwner: SENDER }, coinType: "0x2::sui::SUI", amount: "-2501000" },
+      { owner: { AddressOwner: RECIPIENT }, coinType: "0x2::sui::SUI", amount: "1000" },
+    ],
+    objectChanges: [
+      {
+        type: "created",
+        objectId: CREATED_ID,
+        objectType: "0x2::coin::Coin<0x2::sui::SUI>",
+        owner: { AddressOwner: RECIPIENT },
+        sender: SENDER,
+        digest: ZERO_DIGEST,
+        version: "2",
+      },
+      {
+        type: "mutated",
+        objectId: GAS_COIN,
+        objectType: "0x2::coin::Coin<0x2::sui::SUI>",
+        owner: { AddressOwner: SENDER },
+        previousVersion: "1",
+        sender: SENDER,
+        digest: ZERO_DIGEST,
+        version: "2",
+      },
+    ],
+    events: [],
+    input: {} as DryRunTransactionBlockResponse["input"],
+  } as DryRunTransactionBlockResponse;
+}
+
+describe("simulateTransaction", () => {
+  it("dry-runs the built bytes with the sender set", async () => {
+    const dryRunTransactionBlock = vi.fn().mockResolvedValue(dryRunResponse());
+    const client = { dryRunTransactionBlock } as unknown as SuiClient;
+
+    const result = await simulateTransaction(offlineTransaction(), { client, sender: SENDER });
+
+    expect(dryRunTransactionBlock).toHaveBeenCalledTimes(1);
+    const bytes = dryRunTransactionBlock.mock.calls[0][0].transactionBlock as Uint8Array;
+    expect(Transaction.from(bytes).getData().sender).toBe(SENDER);
+
+    expect(result.success).toBe(true);
+    expect(result.gas.totalCost).toBe(2_500_000n);
+    expect(result.balanceChanges).toEqual([
+      {
+        coinType: "0x2::sui::SUI",
+        changes: [
+          { owner: SENDER, amount: -2_501_000n },
+          { owner: RECIPIENT, amount: 1000n },
+        ],
+      },
+    ]);
+    expect(result.objectChanges.created).toEqual([
+      { objectId: CREATED_ID, objectType: "0x2::coin::Coin<0x2::sui::SUI>", owner: RECIPIENT },
+    ]);
+    expect(result.objectChanges.mutated).toHaveLength(1);
+  });
+
+  it("propagates client errors instead of reporting success", async () => {
+    const client = {
+      dryRunTransactionBlock: vi.fn().mockRejectedValue(new Error("RPC unavailable")),
+    } as unknown as SuiClient;
+
+    await expect(simulateTransaction(offlineTransaction(), { client, sender: SENDER })).rejects.toThrow("RPC unavailable");
+  });
+});
+
+describe("summarizeDryRun", () => {
+  it("reports failures with their abort code", () => {
+    const result = summarizeDryRun(dryRunResponse({
+      status: {
+        status: "failure",
+        error: 'MoveAbort(MoveLocation { module: ModuleId { address: 0000000000000000000000000000000000000000000000000000000000000002, name: Identifier("kiosk") }, function: 9, instruction: 12, function_name: Some("take") }, 1) in command 0',
+      },
+    }));
+
+    expect(result.success).toBe(false);
+    expect(result.abortCode).toBe(1);
+    expect(result.abort).toEqual({
+      packageId: `0x${"0".repeat(63)}2`,
+      module: "kiosk",
+      function: "take",
+      instruction: 12,
+      code: 1,
+      command: 0,
+    });
+    expect(result.error).toContain("MoveAbort");
+  });
+
+  it("leaves abort details out for other failures", () => {
+    const result = summarizeDryRun(dryRunResponse({
+      status: { status: "failure", error: "InsufficientGas" },
+    }));
+
+    expect(result.success).toBe(false);
+    expect(result.abort).toBeUndefined();
+  });
+});
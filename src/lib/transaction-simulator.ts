@@ -0,0 +1,206 @@
+// Transaction Simulator - Dry-runs a built Transaction and summarizes its effects
+import type { Transaction } from "@mysten/sui/transactions";
+import type {
+  SuiClient,
+  DryRunTransactionBlockResponse,
+  ObjectOwner,
+} from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+// The parts of a dry-run or an executed transaction's response that a summary reads
+export type EffectsResponse = Pick<DryRunTransactionBlockResponse, "effects"> & {
+  balanceChanges?: DryRunTransactionBlockResponse["balanceChanges"] | null;
+  objectChanges?: DryRunTransactionBlockResponse["objectChanges"] | null;
+};
+
+export interface SimulatedGasCost {
+  computationCost: bigint;
+  storageCost: bigint;
+  storageRebate: bigint;
+  totalCost: bigint;
+}
+
+export interface SimulatedBalanceChange {
+  owner: string;
+  amount: bigint;
+}
+
+export interface SimulatedCoinBalance {
+  coinType: string;
+  changes: SimulatedBalanceChange[];
+}
+
+export interface SimulatedObjectChange {
+  objectId: string;
+  objectType: string;
+  owner?: string;
+}
+
+// Where a Move abort happened, read from the error the node reports
+export interface MoveAbort {
+  packageId?: string;
+  module?: string; // Module name, e.g. kiosk
+  function?: string;
+  instruction?: number; // Bytecode offset within the function
+  code: number;
+  command?: number; // Index of the failing command, counted from 0
+}
+
+export interface SimulationResult {
+  success: boolean;
+  error?: string;
+  abortCode?: number;
+  abort?: MoveAbort;
+  gas: SimulatedGasCost;
+  balanceChanges: SimulatedCoinBalance[];
+  objectChanges: {
+    created: SimulatedObjectChange[];
+    mutated: SimulatedObjectChange[];
+    transferred: SimulatedObjectChange[];
+    deleted: SimulatedObjectChange[];
+  };
+}
+
+export interface SimulateOptions {
+  client: SuiClient;
+  sender: string;
+}
+
+/**
+ * Builds the transaction against the given client and dry-runs it.
+ * Never signs anything; the result is safe to show before asking the wallet.
+ */
+export async function simulateTransaction(
+  txb: Transaction,
+  { client, sender }: SimulateOptions
+): Promise<SimulationResult> {
+  txb.setSenderIfNotSet(sender);
+  const bytes = await txb.build({ client });
+
+  const response = await client.dryRunTransactionBlock({
+    transactionBlock: bytes,
+  });
+
+  return summarizeDryRun(response);
+}
+
+export function summarizeDryRun(response: EffectsResponse): SimulationResult {
+  const status = response.effects.status;
+  const gasUsed = response.effects.gasUsed;
+
+  const computationCost = BigInt(gasUsed.computationCost);
+  const storageCost = BigInt(gasUsed.storageCost);
+  const storageRebate = BigInt(gasUsed.storageRebate);
+
+  const result: SimulationResult = {
+    success: status.status === "success",
+    gas: {
+      computationCost,
+      storageCost,
+      storageRebate,
+      totalCost: computationCost + storageCost - storageRebate,
+    },
+    balanceChanges: groupBalanceChanges(response),
+    objectChanges: {
+      created: [],
+      mutated: [],
+      transferred: [],
+      deleted: [],
+    },
+  };
+
+  if (status.status !== "success") {
+    result.error = status.error || "Transaction would fail";
+    const abort = parseMoveAbort(result.error);
+    if (abort) {
+      result.abortCode = abort.code;
+      result.abort = abort;
+    }
+  }
+
+  for (const change of response.objectChanges || []) {
+    switch (change.type) {
+      case "created":
+        result.objectChanges.created.push({
+          objectId: change.objectId,
+          objectType: change.objectType,
+          owner: formatOwner(change.owner),
+        });
+        break;
+      case "mutated":
+        result.objectChanges.mutated.push({
+          objectId: change.objectId,
+          objectType: change.objectType,
+          owner: formatOwner(change.owner),
+        });
+        break;
+      case "transferred":
+        result.objectChanges.transferred.push({
+          objectId: change.objectId,
+          objectType: change.objectType,
+          owner: formatOwner(change.recipient),
+        });
+        break;
+      case "deleted":
+      case "wrapped":
+        result.objectChanges.deleted.push({
+          objectId: change.objectId,
+          objectType: change.objectType,
+        });
+        break;
+    }
+  }
+
+  return result;
+}
+
+function groupBalanceChanges(response: EffectsResponse): SimulatedCoinBalance[] {
+  const byCoinType = new Map<string, SimulatedBalanceChange[]>();
+
+  for (const change of response.balanceChanges || []) {
+    if (!byCoinType.has(change.coinType)) {
+      byCoinType.set(change.coinType, []);
+    }
+    byCoinType.get(change.coinType)!.push({
+      owner: formatOwner(change.owner) || "unknown",
+      amount: BigInt(change.amount),
+    });
+  }
+
+  return Array.from(byCoinType, ([coinType, changes]) => ({ coinType, changes }));
+}
+
+/**
+ * Reads the package, module, function, instruction, abort code and command out of a MoveAbort error, e.g.
+ * `MoveAbort(MoveLocation { module: ModuleId { address: 00..02, name: Identifier("kiosk") }, function: 9,
+ * instruction: 12, function_name: Some("take") }, 1) in command 0`. Wallets often wrap it in their own message.
+ */
+export function parseMoveAbort(error: string): MoveAbort | undefined {
+  const code = error.match(/MoveAbort\(.*,\s*(\d+)\)/)?.[1];
+  if (code === undefined) {
+    return undefined;
+  }
+  const address = error.match(/address:\s*(?:0x)?([0-9a-fA-F]+)/)?.[1];
+  const module = error.match(/name:\s*Identifier\("([^"]+)"\)/)?.[1];
+  const fn = error.match(/function_name:\s*Some\("([^"]+)"\)/)?.[1];
+  const instruction = error.match(/instruction:\s*(\d+)/)?.[1];
+  const command = error.match(/in command (\d+)/)?.[1];
+  return {
+    ...(address && { packageId: normalizeSuiAddress(address) }),
+    ...(module && { module }),
+    ...(fn && { function: fn }),
+    ...(instruction !== undefined && { instruction: Number(instruction) }),
+    code: Number(code),
+    ...(command !== undefined && { command: Number(command) }),
+  };
+}
+
+export function formatOwner(owner: ObjectOwner | null | undefined): string | undefined {
+  if (!owner) return undefined;
+  if (owner === "Immutable") return "Immutable";
+  if ("AddressOwner" in owner) return owner.AddressOwner;
+  if ("ObjectOwner" in owner) return owner.ObjectOwner;
+  if ("Shared" in owner) return "Shared";
+  if ("ConsensusAddressOwner" in owner) return owner.ConsensusAddressOwner.owner;
+  return undefined;
+}
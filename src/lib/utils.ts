@@ -4,3 +4,42 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Offers text as a file download in the browser.
+ */
+export function downloadFile(name: string, contents: string, type = "application/json"): void {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Shortens an object ID, address or digest for display, e.g. "0x123456...abcdef".
+ */
+export function shortId(id: string): string {
+  return id.length > 16 ? `${id.slice(0, 8)}...${id.slice(-6)}` : id;
+}
+
+/**
+ * Counts a noun, e.g. "1 command" or "3 commands".
+ */
+export function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count !== 1 ? "s" : ""}`;
+}
+
+const MIST_PER_SUI = 1_000_000_000n;
+
+/**
+ * Formats a MIST amount as SUI without rounding, e.g. 1500000000n as "1.5".
+ */
+export function formatMist(amount: bigint): string {
+  const negative = amount < 0n;
+  const abs = negative ? -amount : amount;
+  const whole = abs / MIST_PER_SUI;
+  const fraction = (abs % MIST_PER_SUI).toString().padStart(9, "0").replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
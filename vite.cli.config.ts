@@ -0,0 +1,23 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Builds the PTB CLI for Node; dependencies stay external and are loaded from node_modules
+export default defineConfig({
+  publicDir: false,
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  build: {
+    ssr: "src/cli.ts",
+    outDir: "dist/cli",
+    target: "node20",
+    rollupOptions: {
+      output: {
+        entryFileNames: "ptb.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -37,4 +38,8 @@ export default defineConfig(({ mode }) => ({
   esbuild: {
     target: 'es2020',
   },
+  test: {
+    include: ['src/lib/**/*.test.ts'],
+    environment: 'node',
+  },
 }));